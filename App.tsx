@@ -3,18 +3,79 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   Activity, Settings as SettingsIcon, Bell, TrendingUp, TrendingDown, 
   Clock, RefreshCw, Cpu, ShieldAlert, Info, ExternalLink, Zap, 
-  ChevronRight, ShieldCheck, Target, Terminal, Trash2, Download, Upload, Server
+  ChevronRight, ShieldCheck, Target, Terminal, Trash2, Download, Upload, Server, Plus, X, FlaskConical, BookOpen, Wallet, Power, Send, Lock, LockOpen
 } from 'lucide-react';
 import { 
-  FullMarketData, AIAnalysis, AIModelType, AppSettings, SystemLog, FetchProgress 
+  FullMarketData, AIAnalysis, AIModelType, AppSettings, SystemLog, FetchProgress, ExchangeType, DataMode, StreamStatus,
+  IndicatorConfig, AIProviderConfig, AlertEvent, AlertRuleMemory, DaemonStatus, PaperAccount, SettingsBackup, VaultStatus
 } from './types';
-import { getFullMarketSnapshot } from './services/marketService';
-import { runAIAnalysis } from './services/aiService';
-import { sendToWeCom } from './services/wecomService';
+import { getStreamSnapshot, formatSymbol } from './services/marketService';
+import { getMarketProvider } from './services/exchanges';
+import { createOkxMarketStream, OkxMarketStream } from './services/okxStream';
+import { getModelLabel } from './services/aiService';
+import { getAIProvider } from './services/ai';
+import { recordAnalysis, resolvePendingEntries } from './services/journalService';
+import { getConfiguredModels } from './services/consensusService';
+import { formatDistance, entryMid } from './services/strategyService';
+import { SYMBOL_PATTERN, formatSettingsIssues, loadSettings, parseSettings } from './services/settingsService';
+import { scanSymbol } from './services/scanService';
+import { previewAnalysisText } from './services/aiValidation';
+import { isAbortError } from './services/abort';
+import { evaluateAlerts, dispatchAlert } from './services/alertService';
+import { createDaemonClient } from './services/daemonClient';
+import { loadPaperAccount, savePaperAccount, openFromAnalysis, updateWithMarket } from './services/paperTradingService';
+import {
+  VaultSession, loadVault, clearVault, createVaultSession, unlockVault, saveVault, extractSecrets, applySecrets, hasSecrets, isBackup, openBackup
+} from './services/vaultService';
+import FlowPanel from './components/FlowPanel';
+import DerivativesPanel from './components/DerivativesPanel';
+import OrderBookPanel from './components/OrderBookPanel';
+import CandleChart from './components/CandleChart';
+import BacktestPanel from './components/BacktestPanel';
+import JournalPanel from './components/JournalPanel';
+import ConsensusPanel from './components/ConsensusPanel';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import AlertRulesPanel from './components/AlertRulesPanel';
+import NotifierSettingsEditor from './components/NotifierSettingsEditor';
+import RiskPanel from './components/RiskPanel';
+import RiskSettingsEditor from './components/RiskSettingsEditor';
+import PaperTradingPanel from './components/PaperTradingPanel';
+import ExecutionSettingsEditor from './components/ExecutionSettingsEditor';
+import OrderConfirmDialog from './components/OrderConfirmDialog';
+import VaultPanel from './components/VaultPanel';
+
+const INDICATOR_FIELDS: { key: keyof IndicatorConfig; label: string; step?: number }[] = [
+  { key: 'atrPeriod', label: 'ATR' },
+  { key: 'adxPeriod', label: 'ADX' },
+  { key: 'stochRsiPeriod', label: 'StochRSI RSI' },
+  { key: 'stochPeriod', label: 'StochRSI Stoch' },
+  { key: 'stochK', label: 'StochRSI %K' },
+  { key: 'stochD', label: 'StochRSI %D' },
+  { key: 'ichimokuConversion', label: '转换线' },
+  { key: 'ichimokuBase', label: '基准线' },
+  { key: 'ichimokuSpanB', label: '先行带 B' },
+  { key: 'superTrendPeriod', label: 'SuperTrend' },
+  { key: 'superTrendMultiplier', label: 'ST 倍数', step: 0.5 }
+];
+
+// 实时流模式下规则告警的判断间隔
+const STREAM_ALERT_INTERVAL_MS = 5000;
+const MAX_ALERT_EVENTS = 50;
+const DAEMON_POLL_INTERVAL_MS = 5000;
 
 const App: React.FC = () => {
-  const [marketData, setMarketData] = useState<FullMarketData | null>(null);
-  const [analysis, setAnalysis] = useState<AIAnalysis | null>(null);
+  const [marketDataMap, setMarketDataMap] = useState<Record<string, FullMarketData>>({});
+  const [analysisMap, setAnalysisMap] = useState<Record<string, AIAnalysis>>({});
+  const [activeSymbol, setActiveSymbol] = useState<string | null>(null);
+  const [newSymbol, setNewSymbol] = useState('');
+  const [showIndicatorConfig, setShowIndicatorConfig] = useState(false);
+  const [showBacktest, setShowBacktest] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showPaper, setShowPaper] = useState(false);
+  const [showOrder, setShowOrder] = useState(false);
+  const [paperAccount, setPaperAccount] = useState<PaperAccount>(loadPaperAccount);
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [isAutoRunning, setIsAutoRunning] = useState(false);
@@ -23,37 +84,34 @@ const App: React.FC = () => {
   
   const [logs, setLogs] = useState<SystemLog[]>([]);
   const [progress, setProgress] = useState<FetchProgress>({ step: 0, totalSteps: 100, currentTask: '', percentage: 0 });
+  const [streamingText, setStreamingText] = useState('');
+  const [daemonStatus, setDaemonStatus] = useState<DaemonStatus | null>(null);
+  // 已启用保险库时，页面打开后先提示解锁
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => loadVault() ? 'LOCKED' : 'NONE');
+  const [showVault, setShowVault] = useState(() => loadVault() !== null);
+  const [pendingBackup, setPendingBackup] = useState<SettingsBackup | null>(null);
 
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    const saved = localStorage.getItem('eth_pulse_settings');
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error("Config Parse Error", e);
-      }
-    }
-    return {
-      aiModel: AIModelType.GEMINI,
-      openaiKey: '',
-      openaiModel: 'gpt-4o',
-      poeKey: '',
-      poeModel: 'Grok-4',
-      wecomWebhook: '',
-      refreshInterval: 15
-    };
-  });
+  // 本地配置中的无效字段已回退为默认值，挂载后写入日志
+  const [initialLoad] = useState(loadSettings);
+  const [settings, setSettings] = useState<AppSettings>(initialLoad.settings);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
 
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const logEndRef = useRef<HTMLDivElement>(null);
+  const currentSymbol = activeSymbol && settings.watchlist.includes(activeSymbol) ? activeSymbol : settings.watchlist[0];
+  const marketData = currentSymbol ? marketDataMap[currentSymbol] ?? null : null;
+  const analysis = currentSymbol ? analysisMap[currentSymbol] ?? null : null;
+  const exchangeName = getMarketProvider(settings.exchange).name;
 
-  const saveConfig = useCallback(() => {
-    localStorage.setItem('eth_pulse_settings', JSON.stringify(settings));
-  }, [settings]);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('IDLE');
 
-  useEffect(() => {
-    saveConfig();
-  }, [settings, saveConfig]);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const streamRef = useRef<OkxMarketStream | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const alertMemoryRef = useRef<Record<string, AlertRuleMemory>>({});
+  const daemonLogSeqRef = useRef(0);
+  const paperRef = useRef(paperAccount);
+  const vaultSessionRef = useRef<VaultSession | null>(null);
+  const vaultWriteRef = useRef<Promise<void>>(Promise.resolve());
+  const logEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (logEndRef.current) {
@@ -73,15 +131,217 @@ const App: React.FC = () => {
 
   const clearLogs = () => setLogs([]);
 
+  useEffect(() => {
+    if (initialLoad.issues.length === 0) return;
+    addLog(`本地配置有 ${initialLoad.issues.length} 处无效，已使用默认值`, 'WARN');
+    formatSettingsIssues(initialLoad.issues).forEach(line => addLog(`[Config] ${line}`, 'WARN'));
+  }, [initialLoad, addLog]);
+
+  // 启用保险库后 localStorage 只保存脱敏配置，密钥加密后单独保存；锁定期间不改动保险库
+  const saveConfig = useCallback(() => {
+    if (vaultStatus === 'NONE') {
+      localStorage.setItem('eth_pulse_settings', JSON.stringify(settings));
+      return;
+    }
+    const { redacted, secrets } = extractSecrets(settings);
+    localStorage.setItem('eth_pulse_settings', JSON.stringify(redacted));
+    if (!vaultSessionRef.current) return;
+    // 串行写入，避免较早的加密结果覆盖较新的；执行时再取会话，排在更换口令之后的写入使用新口令
+    vaultWriteRef.current = vaultWriteRef.current
+      .then(() => {
+        const session = vaultSessionRef.current;
+        return session ? saveVault(session, secrets) : undefined;
+      })
+      .catch(err => addLog(`[Vault] 保存密钥失败: ${err.message}`, 'ERROR'));
+  }, [settings, vaultStatus, addLog]);
+
+  useEffect(() => {
+    saveConfig();
+  }, [settings, saveConfig]);
+
+  const enableVault = async (passphrase: string) => {
+    const session = await createVaultSession(passphrase);
+    await saveVault(session, extractSecrets(settings).secrets);
+    vaultSessionRef.current = session;
+    setVaultStatus('UNLOCKED');
+    addLog('[Vault] 已启用加密保险库，密钥不再以明文保存', 'SUCCESS');
+  };
+
+  const unlockVaultSession = async (passphrase: string) => {
+    const { session, secrets } = await unlockVault(passphrase);
+    vaultSessionRef.current = session;
+    setSettings(prev => applySecrets(prev, secrets, true));
+    setVaultStatus('UNLOCKED');
+    setShowVault(false);
+    addLog('[Vault] 保险库已解锁', 'SUCCESS');
+  };
+
+  const changeVaultPassphrase = async (passphrase: string) => {
+    const session = await createVaultSession(passphrase);
+    const { secrets } = extractSecrets(settings);
+    // 与配置保存排在同一队列，写入成功后才切换会话
+    const rekey = vaultWriteRef.current.then(async () => {
+      await saveVault(session, secrets);
+      vaultSessionRef.current = session;
+    });
+    vaultWriteRef.current = rekey.catch(() => {});
+    await rekey;
+    addLog('[Vault] 口令已更新', 'SUCCESS');
+  };
+
+  const lockVault = () => {
+    vaultSessionRef.current = null;
+    setSettings(prev => extractSecrets(prev).redacted);
+    setVaultStatus('LOCKED');
+    addLog('[Vault] 已锁定，密钥已从内存清除', 'WARN');
+  };
+
+  const resetVault = () => {
+    clearVault();
+    vaultSessionRef.current = null;
+    setVaultStatus('NONE');
+    addLog('[Vault] 保险库已清除，请重新填写密钥', 'WARN');
+  };
+
+  const restoreFromBackup = async (passphrase: string) => {
+    const { settings: raw, secrets } = await openBackup(pendingBackup!, passphrase);
+    const { settings: restored, issues } = parseSettings(raw);
+    if (issues.length > 0) throw new Error(`备份中的配置无效: ${formatSettingsIssues(issues).join('; ')}`);
+    setSettings(applySecrets(restored, secrets));
+    setPendingBackup(null);
+    setShowVault(false);
+    addLog("从加密备份恢复配置成功", 'SUCCESS');
+  };
+
+  // 撮合在扫描回调中同步执行，用 ref 保证连续更新基于最新状态
+  const updatePaper = useCallback((update: (account: PaperAccount) => PaperAccount) => {
+    const next = update(paperRef.current);
+    if (next === paperRef.current) return;
+    paperRef.current = next;
+    setPaperAccount(next);
+    savePaperAccount(next);
+  }, []);
+
+  // 实时模式目前仅支持 OKX WebSocket
+  const streamEnabled = settings.dataMode === 'STREAM' && settings.exchange === ExchangeType.OKX;
+
+  useEffect(() => {
+    if (!streamEnabled) return;
+    const stream = createOkxMarketStream(settings.watchlist, addLog, setStreamStatus);
+    streamRef.current = stream;
+    stream.start();
+    return () => {
+      stream.stop();
+      streamRef.current = null;
+      setStreamStatus('IDLE');
+    };
+    // watchlist 变化由下方 effect 增量订阅，不重建连接
+  }, [streamEnabled, addLog]);
+
+  useEffect(() => {
+    streamRef.current?.setSymbols(settings.watchlist);
+  }, [settings.watchlist]);
+
+  const runAlerts = useCallback((data: FullMarketData) => {
+    const { events, memory } = evaluateAlerts(settings.alertRules, data, alertMemoryRef.current);
+    alertMemoryRef.current = memory;
+    if (events.length === 0) return;
+    setAlertEvents(prev => [...events, ...prev].slice(0, MAX_ALERT_EVENTS));
+    events.forEach(e => dispatchAlert(e, settings.notifiers, addLog));
+  }, [settings.alertRules, settings.notifiers, addLog]);
+
+  // 连接后台服务时由后台负责扫描、告警与推送，仪表盘只轮询展示结果
+  const daemonEnabled = settings.daemonUrl.trim() !== '';
+
+  useEffect(() => {
+    if (!daemonEnabled) return;
+    const client = createDaemonClient(settings.daemonUrl, settings.daemonToken);
+    daemonLogSeqRef.current = 0;
+    setIsAutoRunning(false);
+    let cancelled = false;
+    let online = false;
+
+    const poll = async () => {
+      try {
+        const [status, results, logs, alerts] = await Promise.all([
+          client.getStatus(), client.getResults(), client.getLogs(daemonLogSeqRef.current), client.getAlerts()
+        ]);
+        if (cancelled) return;
+        online = true;
+        setDaemonStatus(status);
+        setMarketDataMap(prev => ({ ...prev, ...Object.fromEntries(Object.entries(results).map(([s, r]) => [s, r.data])) }));
+        setAnalysisMap(prev => ({
+          ...prev,
+          ...Object.fromEntries(Object.entries(results).flatMap(([s, r]) => r.analysis ? [[s, r.analysis]] : []))
+        }));
+        setAlertEvents(alerts.slice(0, MAX_ALERT_EVENTS));
+        if (status.lastScanAt) setLastUpdate(new Date(status.lastScanAt));
+        if (logs.length > 0) {
+          daemonLogSeqRef.current = logs[logs.length - 1].seq;
+          setLogs(prev => [...prev, ...logs.map(l => ({
+            id: `daemon-${l.seq}`,
+            timestamp: new Date(l.timestamp),
+            level: l.level,
+            message: `[Daemon] ${l.message}`
+          }))].slice(-150));
+        }
+      } catch (err: any) {
+        if (cancelled) return;
+        // 只在在线 -> 离线时记录一次，避免每次轮询刷屏
+        if (online) addLog(`[Daemon] 连接中断: ${err.message}`, 'ERROR');
+        online = false;
+        setDaemonStatus(null);
+      }
+    };
+
+    addLog(`[Daemon] 连接后台服务 ${settings.daemonUrl}`);
+    poll();
+    const timer = setInterval(poll, DAEMON_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      setDaemonStatus(null);
+    };
+  }, [daemonEnabled, settings.daemonUrl, settings.daemonToken, addLog]);
+
+  const toggleKillSwitch = () => {
+    const killSwitch = !settings.execution.killSwitch;
+    setSettings({ ...settings, execution: { ...settings.execution, killSwitch } });
+    addLog(`[Exec] 紧急停止${killSwitch ? '已开启，拒绝所有下单' : '已解除'}`, 'WARN');
+  };
+
+  const triggerDaemonScan = async () => {
+    try {
+      const started = await createDaemonClient(settings.daemonUrl, settings.daemonToken).triggerScan();
+      addLog(started ? '[Daemon] 已触发后台扫描' : '[Daemon] 后台正在扫描，请稍候', started ? 'SUCCESS' : 'WARN');
+    } catch (err: any) {
+      addLog(`[Daemon] 触发扫描失败: ${err.message}`, 'ERROR');
+    }
+  };
+
+  // 实时流模式下不依赖扫描周期，定时用内存行情判断规则
+  useEffect(() => {
+    if (!streamEnabled || daemonEnabled || !settings.alertRules.some(r => r.enabled)) return;
+    const timer = setInterval(() => {
+      const stream = streamRef.current;
+      if (!stream) return;
+      settings.watchlist
+        .filter(symbol => stream.isReady(symbol))
+        .forEach(symbol => runAlerts(getStreamSnapshot(symbol, stream, settings.indicatorConfig)));
+    }, STREAM_ALERT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [streamEnabled, daemonEnabled, settings.alertRules, settings.watchlist, settings.indicatorConfig, runAlerts]);
+
+  // 普通导出默认去除所有密钥，完整备份在保险库面板中加密导出
   const exportSettings = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(settings));
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(extractSecrets(settings).redacted));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", "config.json");
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
-    addLog("配置导出成功", 'SUCCESS');
+    addLog("配置导出成功 (已去除密钥)", 'SUCCESS');
   };
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -89,66 +349,146 @@ const App: React.FC = () => {
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
+        let content: unknown;
         try {
-          const content = JSON.parse(e.target?.result as string);
-          setSettings(content);
-          addLog("从文件恢复配置成功", 'SUCCESS');
+          content = JSON.parse(e.target?.result as string);
         } catch (err) {
+          setImportIssues(['文件不是有效的 JSON']);
           addLog("解析配置文件失败", 'ERROR');
+          return;
+        }
+        if (isBackup(content)) {
+          setImportIssues([]);
+          setPendingBackup(content);
+          setShowVault(true);
+          addLog("检测到加密备份，请输入备份口令");
+          return;
+        }
+        // 存在任何无效字段时整体拒绝，避免半套配置直接生效
+        const { settings: imported, issues } = parseSettings(content);
+        if (issues.length > 0) {
+          const lines = formatSettingsIssues(issues);
+          setImportIssues(lines);
+          addLog(`导入失败: 配置文件有 ${issues.length} 处无效`, 'ERROR');
+          lines.forEach(line => addLog(`[Config] ${line}`, 'ERROR'));
+          return;
         }
+        setImportIssues([]);
+        // 脱敏导出的文件不含密钥，保留当前已填写的密钥
+        setSettings(prev => applySecrets(imported, extractSecrets(prev).secrets, true));
+        addLog("从文件恢复配置成功", 'SUCCESS');
       };
       reader.readAsText(file);
     }
   };
 
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!SYMBOL_PATTERN.test(symbol)) {
+      addLog(`无效的合约 ID: ${symbol || '(空)'}，示例: BTC-USDT-SWAP`, 'WARN');
+      return;
+    }
+    if (!settings.watchlist.includes(symbol)) {
+      setSettings({ ...settings, watchlist: [...settings.watchlist, symbol] });
+    }
+    setNewSymbol('');
+  };
+
+  const activeProvider = settings.aiProviders[settings.aiModel];
+
+  const updateProvider = (patch: Partial<AIProviderConfig>) => {
+    setSettings({
+      ...settings,
+      aiProviders: { ...settings.aiProviders, [settings.aiModel]: { ...activeProvider, ...patch } }
+    });
+  };
+
+  const removeSymbol = (symbol: string) => {
+    if (settings.watchlist.length <= 1) {
+      addLog("监控列表至少保留一个合约", 'WARN');
+      return;
+    }
+    setSettings({ ...settings, watchlist: settings.watchlist.filter(s => s !== symbol) });
+  };
+
   const fetchDataAndAnalyze = useCallback(async () => {
     if (loading) return;
     setLoading(true);
     setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     setProgress({ step: 1, totalSteps: 100, currentTask: '握手连接中...', percentage: 5 });
-    
-    try {
-      const currentData = await getFullMarketSnapshot(
-        'ETH-USDT-SWAP', 
-        (task, percent) => setProgress(prev => ({ ...prev, currentTask: task, percentage: percent })),
-        addLog
-      );
-      setMarketData(currentData);
-
-      setProgress(prev => ({ ...prev, currentTask: 'AI 云端推理中...', percentage: 96 }));
-      addLog(`[AI] 调用 ${settings.aiModel} 模型引擎...`);
-      
-      const aiResult = await runAIAnalysis(settings.aiModel, currentData, {
-        openaiKey: settings.openaiKey,
-        openaiModel: settings.openaiModel,
-        poeKey: settings.poeKey,
-        poeModel: settings.poeModel
-      });
-      setAnalysis(aiResult);
-      setLastUpdate(new Date());
-      addLog("AI 决策方案生成成功", 'SUCCESS');
 
-      if (settings.wecomWebhook) {
-        addLog("[Webhook] 推送中...");
-        try {
-          await sendToWeCom(settings.wecomWebhook, aiResult, currentData.snapshots[0].price);
-          addLog("推送已送达", 'SUCCESS');
-        } catch (err: any) {
-          addLog(`推送失败: ${err.message}`, 'WARN');
+    const symbols = settings.watchlist;
+    const failures: string[] = [];
+    let lastError: any = null;
+
+    for (let i = 0; i < symbols.length; i++) {
+      if (controller.signal.aborted) break;
+      const symbol = symbols[i];
+      // 每个合约占用进度条的一段
+      const scale = (percent: number) => Math.round((i + percent / 100) / symbols.length * 100);
+
+      try {
+        await scanSymbol(symbol, settings, {
+          addLog,
+          onProgress: (task, percent) => setProgress(prev => ({ ...prev, currentTask: `[${formatSymbol(symbol)}] ${task}`, percentage: scale(percent) })),
+          signal: controller.signal,
+          onStream: setStreamingText,
+          stream: streamRef.current,
+          onMarketData: (currentData) => {
+            setMarketDataMap(prev => ({ ...prev, [symbol]: currentData }));
+            runAlerts(currentData);
+            updatePaper(account => updateWithMarket(account, currentData, addLog));
+          },
+          onAnalysis: async (currentData, analysis) => {
+            setStreamingText('');
+            setAnalysisMap(prev => ({ ...prev, [symbol]: analysis }));
+            setLastUpdate(new Date());
+            updatePaper(account => openFromAnalysis(account, currentData, analysis, settings.risk, addLog));
+            try {
+              await recordAnalysis(currentData, analysis, getModelLabel(settings.aiModel, settings.aiProviders));
+            } catch (err: any) {
+              addLog(`[Journal] 信号记录失败: ${err.message}`, 'WARN');
+            }
+          }
+        });
+      } catch (err: any) {
+        setStreamingText('');
+        if (isAbortError(err)) {
+          addLog(`${symbol} 扫描已取消`, 'WARN');
+          break;
         }
+        failures.push(symbol);
+        lastError = err;
+        addLog(`[FATAL] ${symbol}: ${err.message}`, 'ERROR');
       }
-    } catch (err: any) {
-      const isBlock = err.message.includes('403') || err.message.includes('被屏蔽') || err.message.includes('429');
-      setError({ 
-        message: isBlock ? `API 已拦截当前连接 (可能是代理 IP 被限频)。系统已自动从 Binance 切换至 OKX，如果依然报错，请尝试更换科学上网节点。` : err.message, 
-        type: 'critical' 
+    }
+
+    if (lastError) {
+      const isBlock = lastError.message.includes('403') || lastError.message.includes('被屏蔽') || lastError.message.includes('429');
+      const message = isBlock ? `${exchangeName} API 已拦截当前连接 (可能是代理 IP 被限频)。可在控制面板切换其他交易所数据源，如果依然报错，请尝试更换科学上网节点。` : lastError.message;
+      setError({
+        message: failures.length < symbols.length ? `${failures.join(', ')} 扫描失败: ${message}` : message,
+        type: failures.length < symbols.length ? 'partial' : 'critical'
       });
-      addLog(`[FATAL] ${err.message}`, 'ERROR');
-    } finally {
-      setLoading(false);
-      setProgress({ step: 0, totalSteps: 100, currentTask: '', percentage: 0 });
     }
-  }, [settings, addLog, loading]);
+
+    abortRef.current = null;
+    setLoading(false);
+    setProgress({ step: 0, totalSteps: 100, currentTask: '', percentage: 0 });
+
+    // 借扫描的时机更新历史信号的结果，失败不影响本轮扫描
+    resolvePendingEntries(addLog)
+      .then(updated => { if (updated > 0) addLog(`[Journal] 更新了 ${updated} 条信号结果`, 'SUCCESS'); })
+      .catch(err => addLog(`[Journal] 结果更新失败: ${err.message}`, 'WARN'));
+  }, [settings, addLog, loading, runAlerts, updatePaper]);
+
+  const cancelScan = () => {
+    if (!abortRef.current || abortRef.current.signal.aborted) return;
+    addLog("正在取消本轮扫描...", 'WARN');
+    abortRef.current.abort();
+  };
 
   useEffect(() => {
     if (isAutoRunning) {
@@ -176,12 +516,27 @@ const App: React.FC = () => {
             <Activity className="text-black w-7 h-7" />
           </div>
           <div>
-            <h1 className="text-3xl font-black tracking-tighter text-white">ETH PULSE PRO</h1>
+            <h1 className="text-3xl font-black tracking-tighter text-white">{currentSymbol.split('-')[0]} PULSE PRO</h1>
             <div className="flex items-center gap-3 mt-1">
               <span className="flex items-center gap-1.5 text-[10px] font-bold text-green-500 bg-green-500/10 px-2 py-0.5 rounded-full border border-green-500/20 uppercase">
                 <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-                OKX MARKET FEED
+                {exchangeName} MARKET FEED
               </span>
+              {streamEnabled && (
+                <span className={`flex items-center gap-1.5 text-[10px] font-bold px-2 py-0.5 rounded-full border uppercase ${
+                  streamStatus === 'LIVE' ? 'text-blue-400 bg-blue-400/10 border-blue-400/20' : 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20'
+                }`}>
+                  WS {streamStatus}
+                </span>
+              )}
+              {daemonEnabled && (
+                <span className={`flex items-center gap-1.5 text-[10px] font-bold px-2 py-0.5 rounded-full border uppercase ${
+                  daemonStatus ? 'text-blue-400 bg-blue-400/10 border-blue-400/20' : 'text-red-500 bg-red-500/10 border-red-500/20'
+                }`}>
+                  <Server className="w-3 h-3" />
+                  DAEMON {daemonStatus ? (daemonStatus.scanning ? 'SCANNING' : 'ONLINE') : 'OFFLINE'}
+                </span>
+              )}
               <span className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">
                 {lastUpdate ? `Last Sync: ${lastUpdate.toLocaleTimeString()}` : 'Ready to start'}
               </span>
@@ -197,16 +552,63 @@ const App: React.FC = () => {
             <Terminal className="w-5 h-5" />
           </button>
           <button 
-            onClick={fetchDataAndAnalyze}
-            disabled={loading}
+            onClick={() => setShowBacktest(true)}
+            className="p-3 rounded-xl border bg-[#1e2329] border-gray-700 text-gray-400 hover:border-gray-500 transition-all"
+          >
+            <FlaskConical className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => setShowAlerts(true)}
+            className="p-3 rounded-xl border bg-[#1e2329] border-gray-700 text-gray-400 hover:border-gray-500 transition-all"
+          >
+            <Bell className="w-5 h-5" />
+          </button>
+          {settings.execution.enabled && (
+            <button 
+              onClick={toggleKillSwitch}
+              title="紧急停止 KILL SWITCH"
+              className={`p-3 rounded-xl border transition-all ${settings.execution.killSwitch ? 'bg-red-500 border-red-500 text-black' : 'bg-[#1e2329] border-gray-700 text-red-500 hover:border-red-500'}`}
+            >
+              <Power className="w-5 h-5" />
+            </button>
+          )}
+          {(vaultStatus !== 'NONE' || hasSecrets(settings)) && (
+            <button 
+              onClick={() => setShowVault(true)}
+              title={vaultStatus === 'NONE' ? '密钥未加密' : vaultStatus === 'LOCKED' ? '保险库已锁定' : '保险库已解锁'}
+              className={`p-3 rounded-xl border transition-all ${
+                vaultStatus === 'UNLOCKED' ? 'bg-[#1e2329] border-gray-700 text-green-500 hover:border-gray-500'
+                  : vaultStatus === 'LOCKED' ? 'bg-yellow-400/10 border-yellow-400 text-yellow-400'
+                  : 'bg-[#1e2329] border-red-500/40 text-red-500 hover:border-red-500'
+              }`}
+            >
+              {vaultStatus === 'UNLOCKED' ? <LockOpen className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
+            </button>
+          )}
+          <button 
+            onClick={() => setShowPaper(true)}
+            className={`p-3 rounded-xl border transition-all ${paperAccount.enabled ? 'bg-green-500/10 border-green-500/40 text-green-500' : 'bg-[#1e2329] border-gray-700 text-gray-400 hover:border-gray-500'}`}
+          >
+            <Wallet className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => setShowJournal(true)}
+            className="p-3 rounded-xl border bg-[#1e2329] border-gray-700 text-gray-400 hover:border-gray-500 transition-all"
+          >
+            <BookOpen className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={daemonEnabled ? triggerDaemonScan : fetchDataAndAnalyze}
+            disabled={daemonEnabled ? !daemonStatus || daemonStatus.scanning : loading}
             className="flex-1 lg:flex-none flex items-center justify-center gap-2 bg-[#1e2329] border border-gray-700 hover:border-yellow-400 text-white transition-all px-6 py-3 rounded-xl font-bold disabled:opacity-50"
           >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`w-4 h-4 ${loading || daemonStatus?.scanning ? 'animate-spin' : ''}`} />
             立即扫描
           </button>
           <button 
             onClick={() => setIsAutoRunning(!isAutoRunning)}
-            className={`flex-1 lg:flex-none flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-bold transition-all ${
+            disabled={daemonEnabled}
+            className={`flex-1 lg:flex-none flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-bold transition-all disabled:opacity-50 ${
               isAutoRunning 
               ? 'bg-red-500/10 text-red-500 border border-red-500/20' 
               : 'bg-green-500 text-black border border-green-500'
@@ -226,10 +628,25 @@ const App: React.FC = () => {
               style={{ width: `${progress.percentage}%` }}
             ></div>
           </div>
-          <p className="text-[10px] font-bold text-yellow-400/80 uppercase tracking-tighter flex items-center gap-2">
-            <Server className="w-3 h-3 animate-pulse" />
-            {progress.currentTask}...
-          </p>
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-[10px] font-bold text-yellow-400/80 uppercase tracking-tighter flex items-center gap-2">
+              <Server className="w-3 h-3 animate-pulse" />
+              {progress.currentTask}...
+            </p>
+            <button
+              onClick={cancelScan}
+              className="flex items-center gap-1 text-[10px] font-black text-gray-500 hover:text-red-400 uppercase transition-colors"
+            >
+              <X className="w-3 h-3" /> 取消 CANCEL
+            </button>
+          </div>
+          {streamingText && (
+            <div className="mt-3 bg-[#1e2329] border border-gray-800 rounded-2xl p-4 max-h-48 overflow-y-auto">
+              <p className="text-[11px] text-gray-400 leading-relaxed whitespace-pre-wrap font-mono">
+                {previewAnalysisText(streamingText) || streamingText}
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -245,7 +662,7 @@ const App: React.FC = () => {
                   <div className="bg-black/20 p-4 rounded-xl text-xs space-y-2">
                     <p className="font-bold text-gray-400 uppercase tracking-widest">诊断报告:</p>
                     <ul className="list-disc list-inside opacity-70 space-y-1">
-                      <li>节点状态：OKX API 已响应但可能被代理频率限制</li>
+                      <li>节点状态：{exchangeName} API 已响应但可能被代理频率限制</li>
                       <li>建议：尝试切换科学上网节点为“全局模式”</li>
                       <li>提示：目前已自动负载均衡多个 CORS 代理</li>
                     </ul>
@@ -262,10 +679,10 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-3xl font-black mb-4 text-white">等待初始化...</h2>
               <p className="text-gray-400 max-w-sm mx-auto mb-10 text-lg">
-                系统现已接入 OKX 高频行情链路，通过多重代理绕过访问限制，并利用 AI 构建实时交易策略。
+                系统现已接入 {exchangeName} 高频行情链路，通过多重代理绕过访问限制，并利用 AI 构建实时交易策略。
               </p>
               <button 
-                onClick={fetchDataAndAnalyze}
+                onClick={daemonEnabled ? triggerDaemonScan : fetchDataAndAnalyze}
                 className="bg-yellow-400 text-black px-12 py-5 rounded-2xl font-black text-xl hover:bg-yellow-300 shadow-xl shadow-yellow-400/10 transition-all active:scale-95"
               >
                 启动全周期研判
@@ -273,6 +690,30 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {settings.watchlist.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {settings.watchlist.map(symbol => {
+                const action = analysisMap[symbol]?.strategy.action;
+                return (
+                  <button
+                    key={symbol}
+                    onClick={() => setActiveSymbol(symbol)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black border transition-all ${
+                      symbol === currentSymbol ? 'bg-yellow-400/10 border-yellow-400 text-yellow-400' : 'bg-[#1e2329] border-gray-800 text-gray-400 hover:border-gray-600'
+                    }`}
+                  >
+                    {formatSymbol(symbol)}
+                    {action && (
+                      <span className={`text-[9px] px-1.5 py-0.5 rounded ${
+                        action === 'LONG' ? 'bg-green-500/10 text-green-500' : action === 'SHORT' ? 'bg-red-500/10 text-red-500' : 'bg-gray-500/10 text-gray-400'
+                      }`}>{action}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {analysis && marketData && (
             <div className="space-y-8 animate-in fade-in duration-700">
               <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
@@ -287,11 +728,16 @@ const App: React.FC = () => {
                   }`}>{analysis.sentiment}</p>
                 </div>
                 <div className="p-6 bg-[#1e2329] rounded-3xl border border-gray-800">
-                  <p className="text-[10px] font-black uppercase text-gray-500 mb-2">ETH/USDT (OKX)</p>
+                  <p className="text-[10px] font-black uppercase text-gray-500 mb-2">{formatSymbol(marketData.symbol)} ({getMarketProvider(marketData.exchange).name})</p>
                   <p className="text-2xl font-black text-white font-mono">${marketData.snapshots[0].price.toFixed(2)}</p>
+                  {marketData.ticker.open24h > 0 && (
+                    <p className={`text-[10px] font-bold font-mono mt-1 ${marketData.ticker.last >= marketData.ticker.open24h ? 'text-green-500' : 'text-red-500'}`}>
+                      24h {((marketData.ticker.last - marketData.ticker.open24h) / marketData.ticker.open24h * 100).toFixed(2)}%
+                    </p>
+                  )}
                 </div>
                 <div className="p-6 bg-[#1e2329] rounded-3xl border border-gray-800">
-                  <p className="text-[10px] font-black uppercase text-gray-500 mb-2">24h 净流入</p>
+                  <p className="text-[10px] font-black uppercase text-gray-500 mb-2">{marketData.inflow.window} 主动净买入</p>
                   <p className={`text-2xl font-black ${marketData.inflow.netInflow > 0 ? 'text-green-500' : 'text-red-500'}`}>
                     {marketData.inflow.netInflow > 0 ? '+' : ''}{marketData.inflow.netInflow.toFixed(1)}
                   </p>
@@ -302,6 +748,12 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <CandleChart snapshots={marketData.snapshots} analysis={analysis.risk?.blocked ? null : analysis} indicatorConfig={settings.indicatorConfig} />
+
+              {analysis.consensus && <ConsensusPanel consensus={analysis.consensus} />}
+
+              {analysis.risk && <RiskPanel risk={analysis.risk} price={marketData.snapshots[0].price} />}
+
               <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl overflow-hidden">
                 <div className="p-10">
                   <div className="flex items-center gap-4 mb-10">
@@ -309,9 +761,18 @@ const App: React.FC = () => {
                       Strategy Advisory
                     </div>
                     <div className="h-px bg-gray-800 flex-grow"></div>
+                    {settings.execution.enabled && analysis.strategy.action !== 'WAIT' && !analysis.risk?.blocked && (
+                      <button
+                        onClick={() => setShowOrder(true)}
+                        className="flex items-center gap-2 px-4 py-1.5 rounded-full border border-yellow-400/40 text-yellow-400 text-[10px] font-black uppercase tracking-widest hover:bg-yellow-400/10 transition-all"
+                      >
+                        <Send size={12} /> 下单 EXECUTE
+                      </button>
+                    )}
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
+                  {/* 未通过风控的信号不展示价位 */}
+                  {!analysis.risk?.blocked && <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
                     <div className={`p-8 rounded-[32px] border-2 flex flex-col items-center justify-center ${
                       analysis.strategy.action === 'LONG' ? 'bg-green-500/5 border-green-500/40' : 
                       analysis.strategy.action === 'SHORT' ? 'bg-red-500/5 border-red-500/40' : 'bg-gray-800/50 border-gray-700'
@@ -323,27 +784,57 @@ const App: React.FC = () => {
                       }`}>{analysis.strategy.action}</span>
                     </div>
                     <div className="p-8 bg-gray-800/20 rounded-[32px] border border-gray-800 flex flex-col items-center justify-center">
-                      <p className="text-xs font-bold text-gray-500 uppercase mb-3">建议杠杆</p>
-                      <span className="text-4xl font-black text-yellow-400">{analysis.strategy.leverage}</span>
+                      <p className="text-xs font-bold text-gray-500 uppercase mb-3">建议杠杆 / 盈亏比</p>
+                      <span className="text-4xl font-black text-yellow-400">
+                        {analysis.strategy.action === 'WAIT' ? '-' : `${analysis.strategy.leverage}x`}
+                      </span>
+                      <span className="text-xs font-bold font-mono text-gray-400 mt-2">
+                        R:R {analysis.strategy.riskReward !== null ? `${analysis.strategy.riskReward.toFixed(2)} : 1` : '-'}
+                      </span>
                     </div>
                     <div className="p-8 bg-gray-800/20 rounded-[32px] border border-gray-800 flex flex-col items-center justify-center">
-                      <p className="text-xs font-bold text-gray-500 uppercase mb-3">入场建议</p>
-                      <span className="text-4xl font-black text-white font-mono">{analysis.strategy.entry}</span>
+                      <p className="text-xs font-bold text-gray-500 uppercase mb-3">入场区间</p>
+                      {analysis.strategy.entry ? (
+                        <>
+                          <span className="text-2xl font-black text-white font-mono">
+                            {analysis.strategy.entry.low.toFixed(2)} - {analysis.strategy.entry.high.toFixed(2)}
+                          </span>
+                          <span className="text-xs font-bold font-mono text-gray-400 mt-2">
+                            {formatDistance(entryMid(analysis.strategy.entry), marketData.snapshots[0].price)}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-4xl font-black text-gray-600 font-mono">-</span>
+                      )}
+                      <span className="text-[10px] font-bold text-gray-500 mt-2">
+                        有效至 {new Date(analysis.strategy.expiresAt).toLocaleString()}
+                      </span>
                     </div>
-                  </div>
+                  </div>}
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
-                    <div className="p-8 bg-green-500/5 border border-green-500/10 rounded-3xl relative overflow-hidden group">
-                      <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-125 transition-transform"><Target size={60} /></div>
-                      <p className="text-sm font-bold text-green-500 uppercase mb-4 tracking-widest">止盈 (TP)</p>
-                      <p className="text-5xl font-black font-mono text-white tracking-tighter">{analysis.strategy.tp}</p>
-                    </div>
-                    <div className="p-8 bg-red-500/5 border border-red-500/10 rounded-3xl relative overflow-hidden group">
-                      <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-125 transition-transform"><ShieldCheck size={60} /></div>
-                      <p className="text-sm font-bold text-red-500 uppercase mb-4 tracking-widest">止损 (SL)</p>
-                      <p className="text-5xl font-black font-mono text-white tracking-tighter">{analysis.strategy.sl}</p>
+                  {!analysis.risk?.blocked && analysis.strategy.action !== 'WAIT' && analysis.strategy.stopLoss !== null && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
+                      <div className="p-8 bg-green-500/5 border border-green-500/10 rounded-3xl relative overflow-hidden group">
+                        <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-125 transition-transform"><Target size={60} /></div>
+                        <p className="text-sm font-bold text-green-500 uppercase mb-4 tracking-widest">止盈 (TP)</p>
+                        <div className="space-y-2">
+                          {analysis.strategy.takeProfits.map((tp, i) => (
+                            <div key={i} className="flex items-baseline gap-3">
+                              <span className="text-3xl font-black font-mono text-white tracking-tighter">{tp.price.toFixed(2)}</span>
+                              <span className="text-xs font-bold font-mono text-green-500">{formatDistance(tp.price, marketData.snapshots[0].price)}</span>
+                              <span className="text-[10px] font-bold text-gray-500">平仓 {tp.sizePercent.toFixed(0)}%</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="p-8 bg-red-500/5 border border-red-500/10 rounded-3xl relative overflow-hidden group">
+                        <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-125 transition-transform"><ShieldCheck size={60} /></div>
+                        <p className="text-sm font-bold text-red-500 uppercase mb-4 tracking-widest">止损 (SL)</p>
+                        <p className="text-5xl font-black font-mono text-white tracking-tighter">{analysis.strategy.stopLoss.toFixed(2)}</p>
+                        <p className="text-xs font-bold font-mono text-red-500 mt-2">{formatDistance(analysis.strategy.stopLoss, marketData.snapshots[0].price)}</p>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   <div className="bg-gray-800/20 rounded-3xl p-8 border border-gray-800/50">
                     <h3 className="text-[10px] font-black text-gray-500 uppercase mb-6 tracking-[0.2em] flex items-center gap-2">
@@ -376,11 +867,57 @@ const App: React.FC = () => {
                 </label>
               </div>
             </div>
+            {importIssues.length > 0 && (
+              <div className="mb-6 p-4 rounded-2xl bg-red-500/10 border border-red-500/20">
+                <div className="flex justify-between items-center mb-2">
+                  <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">导入失败 IMPORT ERROR</p>
+                  <button onClick={() => setImportIssues([])} className="text-gray-500 hover:text-white transition-colors">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <ul className="space-y-1 text-[10px] text-red-300 font-mono break-all">
+                  {importIssues.map((line, i) => <li key={i}>{line}</li>)}
+                </ul>
+              </div>
+            )}
             
             <div className="space-y-6">
               <div>
-                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">AI 分析引擎</label>
+                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">行情数据源</label>
                 <div className="grid grid-cols-3 gap-2">
+                  {Object.values(ExchangeType).map(ex => (
+                    <button 
+                      key={ex}
+                      onClick={() => setSettings({...settings, exchange: ex})}
+                      className={`py-3 rounded-xl text-[10px] font-black border transition-all ${
+                        settings.exchange === ex ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-transparent text-gray-500 border-gray-800 hover:border-gray-600'
+                      }`}
+                    >{ex}</button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">数据模式</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['REST', 'STREAM'] as DataMode[]).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => setSettings({...settings, dataMode: mode})}
+                      className={`py-3 rounded-xl text-[10px] font-black border transition-all ${
+                        settings.dataMode === mode ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-transparent text-gray-500 border-gray-800 hover:border-gray-600'
+                      }`}
+                    >{mode === 'REST' ? 'REST 轮询' : 'WS 实时流'}</button>
+                  ))}
+                </div>
+                {settings.dataMode === 'STREAM' && settings.exchange !== ExchangeType.OKX && (
+                  <p className="text-[10px] text-yellow-500/80 mt-2">实时流仅支持 OKX，当前交易所将继续使用 REST 轮询</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">AI 分析引擎</label>
+                <div className="grid grid-cols-4 gap-2">
                   {Object.values(AIModelType).map(m => (
                     <button 
                       key={m}
@@ -391,45 +928,165 @@ const App: React.FC = () => {
                     >{m}</button>
                   ))}
                 </div>
+                <button
+                  onClick={() => setSettings({...settings, consensusMode: !settings.consensusMode})}
+                  className={`w-full mt-2 py-3 rounded-xl text-[10px] font-black border transition-all ${
+                    settings.consensusMode ? 'bg-yellow-400/10 text-yellow-400 border-yellow-400' : 'bg-transparent text-gray-500 border-gray-800 hover:border-gray-600'
+                  }`}
+                >多模型共识 {settings.consensusMode ? 'ON' : 'OFF'}</button>
+                {settings.consensusMode && (
+                  <p className="text-[10px] text-gray-500 mt-2">
+                    已配置: {getConfiguredModels(settings.aiProviders).join(', ') || '无'}，选择上方模型并填写配置以加入共识
+                  </p>
+                )}
               </div>
 
-              {settings.aiModel === AIModelType.POE && (
-                <div className="space-y-4 animate-in zoom-in-95 duration-200">
+              <div className="space-y-3 animate-in zoom-in-95 duration-200">
+                <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{getAIProvider(settings.aiModel).name} 配置</p>
+                {getAIProvider(settings.aiModel).requiresKey && (
                   <input 
-                    type="password" value={settings.poeKey} placeholder="Poe Token"
-                    onChange={(e) => setSettings({...settings, poeKey: e.target.value})}
+                    type="password" value={activeProvider.apiKey}
+                    placeholder={settings.aiModel === AIModelType.GEMINI ? 'API Key (留空使用构建时注入的 Key)' : 'API Key'}
+                    onChange={(e) => updateProvider({ apiKey: e.target.value })}
                     className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none transition-all text-white font-mono"
                   />
+                )}
+                <input 
+                  type="text" value={activeProvider.baseUrl} placeholder="Base URL (如 http://localhost:11434/v1)"
+                  onChange={(e) => updateProvider({ baseUrl: e.target.value })}
+                  className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono"
+                />
+                <input 
+                  type="text" value={activeProvider.model} placeholder="Model (gpt-4o / qwen2.5:14b ...)"
+                  onChange={(e) => updateProvider({ model: e.target.value })}
+                  className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white"
+                />
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-[9px] font-bold text-gray-600 uppercase mb-1">Temperature</label>
+                    <input 
+                      type="number" step={0.1} min={0} max={2} value={activeProvider.temperature}
+                      onChange={(e) => updateProvider({ temperature: Number(e.target.value) })}
+                      className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-2 px-3 text-xs focus:border-yellow-400 outline-none text-white font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[9px] font-bold text-gray-600 uppercase mb-1">超时 (秒)</label>
+                    <input 
+                      type="number" min={5} value={Math.round(activeProvider.timeoutMs / 1000)}
+                      onChange={(e) => updateProvider({ timeoutMs: Number(e.target.value) * 1000 })}
+                      className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-2 px-3 text-xs focus:border-yellow-400 outline-none text-white font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[9px] font-bold text-gray-600 uppercase mb-1">提示词上限 (tokens)</label>
+                    <input 
+                      type="number" min={500} step={500} value={activeProvider.maxPromptTokens}
+                      onChange={(e) => updateProvider({ maxPromptTokens: Number(e.target.value) })}
+                      className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-2 px-3 text-xs focus:border-yellow-400 outline-none text-white font-mono"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <PromptTemplateEditor
+                templates={settings.promptTemplates}
+                version={settings.promptVersion}
+                onChange={(promptTemplates, promptVersion) => setSettings({ ...settings, promptTemplates, promptVersion })}
+              />
+
+              <div>
+                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">监控列表 (合约 ID，按 OKX 格式填写)</label>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {settings.watchlist.map(symbol => (
+                    <span key={symbol} className="flex items-center gap-1.5 pl-3 pr-2 py-1.5 rounded-lg bg-[#0b0e11] border border-gray-800 text-[10px] font-black text-gray-300 font-mono">
+                      {symbol}
+                      <button onClick={() => removeSymbol(symbol)} className="text-gray-600 hover:text-red-400 transition-colors">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
                   <input 
-                    type="text" value={settings.poeModel} placeholder="Model (Grok-4, Claude-3...)"
-                    onChange={(e) => setSettings({...settings, poeModel: e.target.value})}
-                    className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white"
+                    type="text" value={newSymbol} placeholder="BTC-USDT-SWAP"
+                    onChange={(e) => setNewSymbol(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') addSymbol(); }}
+                    className="flex-1 bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono"
                   />
+                  <button onClick={addSymbol} className="px-4 rounded-xl bg-gray-800/80 text-gray-400 hover:text-white transition-colors">
+                    <Plus className="w-4 h-4" />
+                  </button>
                 </div>
-              )}
+              </div>
 
-              {settings.aiModel === AIModelType.OPENAI && (
-                <div className="space-y-4 animate-in zoom-in-95 duration-200">
-                  <input 
-                    type="password" value={settings.openaiKey} placeholder="OpenAI Key"
-                    onChange={(e) => setSettings({...settings, openaiKey: e.target.value})}
-                    className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none transition-all text-white font-mono"
+              <RiskSettingsEditor
+                risk={settings.risk}
+                onChange={(risk) => setSettings({ ...settings, risk })}
+              />
+
+              <ExecutionSettingsEditor
+                execution={settings.execution}
+                onChange={(execution) => setSettings({ ...settings, execution })}
+              />
+
+              <div>
+                <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">后台服务 DAEMON</label>
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={settings.daemonUrl}
+                    placeholder="地址 (如 http://127.0.0.1:8787)，留空则在浏览器内扫描"
+                    onChange={(e) => setSettings({ ...settings, daemonUrl: e.target.value })}
+                    className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono"
                   />
-                  <input 
-                    type="text" value={settings.openaiModel} placeholder="gpt-4o / o1"
-                    onChange={(e) => setSettings({...settings, openaiModel: e.target.value})}
-                    className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white"
+                  <input
+                    type="password"
+                    value={settings.daemonToken}
+                    placeholder="API Token (PULSE_API_TOKEN 或后台启动时打印的令牌)"
+                    onChange={(e) => setSettings({ ...settings, daemonToken: e.target.value })}
+                    className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono"
                   />
                 </div>
-              )}
+                {daemonEnabled && (
+                  <p className="text-[10px] text-gray-500 mt-2">
+                    扫描、告警与推送由后台服务按其配置文件执行，此处的模型与推送设置不影响后台
+                  </p>
+                )}
+              </div>
+
+              <NotifierSettingsEditor
+                notifiers={settings.notifiers}
+                onChange={(notifiers) => setSettings({ ...settings, notifiers })}
+                addLog={addLog}
+              />
 
               <div>
-                <label className="block text-[10px] font-black text-gray-500 uppercase mb-2 tracking-widest">推送通知 (企业微信)</label>
-                <input 
-                  type="text" value={settings.wecomWebhook} placeholder="Webhook URL"
-                  onChange={(e) => setSettings({...settings, wecomWebhook: e.target.value})}
-                  className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white"
-                />
+                <button
+                  onClick={() => setShowIndicatorConfig(!showIndicatorConfig)}
+                  className="w-full flex justify-between items-center text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-gray-300 transition-colors"
+                >
+                  指标参数
+                  <ChevronRight className={`w-4 h-4 transition-transform ${showIndicatorConfig ? 'rotate-90' : ''}`} />
+                </button>
+                {showIndicatorConfig && (
+                  <div className="grid grid-cols-3 gap-2 mt-3 animate-in zoom-in-95 duration-200">
+                    {INDICATOR_FIELDS.map(field => (
+                      <label key={field.key} className="block">
+                        <span className="block text-[9px] font-bold text-gray-600 mb-1 truncate">{field.label}</span>
+                        <input
+                          type="number" min={field.step ?? 1} step={field.step ?? 1} value={settings.indicatorConfig[field.key]}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (!(value > 0)) return;
+                            setSettings({ ...settings, indicatorConfig: { ...settings.indicatorConfig, [field.key]: value } });
+                          }}
+                          className="w-full bg-[#0b0e11] border border-gray-800 rounded-lg py-2 px-2 text-xs focus:border-yellow-400 outline-none text-white font-mono"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -456,11 +1113,24 @@ const App: React.FC = () => {
                   <div key={snap.timeframe} className="flex items-center justify-between p-4 bg-gray-800/10 border border-gray-800/50 rounded-2xl">
                     <span className="text-[10px] font-black text-gray-500 uppercase w-10">{snap.timeframe}</span>
                     <div className="flex gap-4">
+                      <div className="text-right">
+                        <p className="text-[9px] font-mono text-gray-500">ATR: {snap.indicators.atr.toFixed(2)} ({(snap.indicators.atr / snap.price * 100).toFixed(2)}%)</p>
+                        <p className={`text-[9px] font-mono ${snap.indicators.adx.adx > 25 ? 'text-yellow-400' : 'text-gray-500'}`}>
+                          ADX: {snap.indicators.adx.adx.toFixed(1)} {snap.indicators.adx.plusDI > snap.indicators.adx.minusDI ? '+DI' : '-DI'}
+                        </p>
+                        <p className={`text-[9px] font-mono ${snap.indicators.superTrend.direction === 'UP' ? 'text-green-500' : 'text-red-500'}`}>
+                          ST: {snap.indicators.superTrend.direction} {snap.indicators.superTrend.value.toFixed(2)}
+                        </p>
+                      </div>
                       <div className="text-right">
                         <p className={`text-xs font-black ${snap.indicators.rsi > 70 ? 'text-red-500' : snap.indicators.rsi < 30 ? 'text-green-500' : 'text-gray-300'}`}>
                           RSI: {snap.indicators.rsi.toFixed(1)}
                         </p>
                         <p className="text-[9px] font-mono text-gray-500">MACD: {snap.indicators.macd.histogram.toFixed(2)}</p>
+                        <p className="text-[9px] font-mono text-gray-500">StochRSI: {snap.indicators.stochRsi.k.toFixed(0)}/{snap.indicators.stochRsi.d.toFixed(0)}</p>
+                        <p className={`text-[9px] font-mono ${snap.price > snap.indicators.vwap ? 'text-green-500' : 'text-red-500'}`}>
+                          {snap.price > snap.indicators.vwap ? '>' : '<'} VWAP {snap.indicators.vwap.toFixed(2)}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -468,6 +1138,12 @@ const App: React.FC = () => {
               </div>
             </section>
           )}
+
+          {marketData?.derivatives && <DerivativesPanel derivatives={marketData.derivatives} />}
+
+          {marketData && <FlowPanel inflow={marketData.inflow} />}
+
+          {marketData && <OrderBookPanel book={marketData.orderBook} analysis={marketData.orderBookAnalysis} />}
         </div>
       </main>
 
@@ -512,6 +1188,62 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showBacktest && (
+        <BacktestPanel
+          watchlist={settings.watchlist}
+          indicatorConfig={settings.indicatorConfig}
+          addLog={addLog}
+          onClose={() => setShowBacktest(false)}
+        />
+      )}
+
+      {showJournal && (
+        <JournalPanel addLog={addLog} onClose={() => setShowJournal(false)} />
+      )}
+
+      {showVault && (
+        <VaultPanel
+          status={vaultStatus}
+          settings={settings}
+          pendingBackup={pendingBackup}
+          onCreate={enableVault}
+          onUnlock={unlockVaultSession}
+          onChangePassphrase={changeVaultPassphrase}
+          onLock={lockVault}
+          onReset={resetVault}
+          onRestoreBackup={restoreFromBackup}
+          onCancelBackup={() => setPendingBackup(null)}
+          addLog={addLog}
+          onClose={() => setShowVault(false)}
+        />
+      )}
+
+      {showOrder && analysis && marketData && (
+        <OrderConfirmDialog
+          analysis={analysis}
+          symbol={currentSymbol}
+          price={marketData.snapshots[0].price}
+          execution={settings.execution}
+          addLog={addLog}
+          onClose={() => setShowOrder(false)}
+        />
+      )}
+
+      {showPaper && (
+        <PaperTradingPanel account={paperAccount} onChange={(account) => updatePaper(() => account)} onClose={() => setShowPaper(false)} />
+      )}
+
+      {showAlerts && (
+        <AlertRulesPanel
+          rules={settings.alertRules}
+          watchlist={settings.watchlist}
+          events={alertEvents}
+          price={marketData?.snapshots[0].price ?? 0}
+          onChange={(alertRules) => setSettings({ ...settings, alertRules })}
+          onClose={() => setShowAlerts(false)}
+        />
+      )}
+
       <footer className="mt-12 py-8 border-t border-gray-800 text-gray-600 text-[10px] font-black tracking-widest uppercase flex flex-col md:flex-row justify-between items-center gap-4">
         <p>© 2024 ETH QUANT PULSE v3.1 - Enhanced Robust Engine</p>
         <div className="flex gap-6">
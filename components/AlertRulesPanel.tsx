@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Bell, X, Plus, Trash2 } from 'lucide-react';
+import { AlertChannel, AlertCondition, AlertConditionType, AlertEvent, AlertIndicator, AlertOperator, AlertRule } from '../types';
+import { ALERT_CHANNELS, getAlertChannelLabel, ALERT_CONDITION_LABELS, ALERT_INDICATORS, createAlertCondition, createAlertRule } from '../services/alertService';
+import { TIMEFRAMES } from '../services/marketService';
+import { DEPTH_BANDS } from '../services/orderBookService';
+
+const fieldClass = "bg-[#0b0e11] border border-gray-800 rounded-lg px-2 py-1.5 text-[10px] font-mono text-white focus:border-yellow-400 outline-none";
+
+const OperatorSelect: React.FC<{ value: AlertOperator; onChange: (v: AlertOperator) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as AlertOperator)} className={fieldClass}>
+    <option value="ABOVE">&gt;</option>
+    <option value="BELOW">&lt;</option>
+  </select>
+);
+
+const NumberField: React.FC<{ value: number; step?: number; onChange: (v: number) => void }> = ({ value, step = 1, onChange }) => (
+  <input type="number" step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className={`${fieldClass} w-24`} />
+);
+
+const TimeframeSelect: React.FC<{ value: string; onChange: (v: string) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={fieldClass}>
+    {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf}</option>)}
+  </select>
+);
+
+// 各类条件的参数字段
+const ConditionFields: React.FC<{ condition: AlertCondition; onChange: (c: AlertCondition) => void }> = ({ condition: c, onChange }) => {
+  switch (c.type) {
+    case 'PRICE_CROSS':
+      return (
+        <>
+          <select value={c.direction} onChange={(e) => onChange({ ...c, direction: e.target.value as AlertOperator })} className={fieldClass}>
+            <option value="ABOVE">上穿</option>
+            <option value="BELOW">下穿</option>
+          </select>
+          <NumberField value={c.level} step={0.01} onChange={level => onChange({ ...c, level })} />
+        </>
+      );
+    case 'INDICATOR':
+      return (
+        <>
+          <TimeframeSelect value={c.timeframe} onChange={timeframe => onChange({ ...c, timeframe })} />
+          <select value={c.indicator} onChange={(e) => onChange({ ...c, indicator: e.target.value as AlertIndicator })} className={fieldClass}>
+            {ALERT_INDICATORS.map(i => <option key={i} value={i}>{i}</option>)}
+          </select>
+          <OperatorSelect value={c.operator} onChange={operator => onChange({ ...c, operator })} />
+          <NumberField value={c.value} step={0.1} onChange={value => onChange({ ...c, value })} />
+        </>
+      );
+    case 'EMA_CROSS':
+      return (
+        <>
+          <TimeframeSelect value={c.timeframe} onChange={timeframe => onChange({ ...c, timeframe })} />
+          <select value={c.direction} onChange={(e) => onChange({ ...c, direction: e.target.value as 'GOLDEN' | 'DEATH' })} className={fieldClass}>
+            <option value="GOLDEN">EMA20 上穿 EMA50</option>
+            <option value="DEATH">EMA20 下穿 EMA50</option>
+          </select>
+        </>
+      );
+    case 'FUNDING':
+      return (
+        <>
+          <OperatorSelect value={c.operator} onChange={operator => onChange({ ...c, operator })} />
+          <NumberField value={c.value} step={0.01} onChange={value => onChange({ ...c, value })} />
+          <span className="text-[10px] text-gray-500">%</span>
+        </>
+      );
+    case 'BOOK_IMBALANCE':
+      return (
+        <>
+          <select value={c.bandPercent} onChange={(e) => onChange({ ...c, bandPercent: Number(e.target.value) })} className={fieldClass}>
+            {DEPTH_BANDS.map(p => <option key={p} value={p}>±{p}%</option>)}
+          </select>
+          <OperatorSelect value={c.operator} onChange={operator => onChange({ ...c, operator })} />
+          <NumberField value={c.value} step={0.05} onChange={value => onChange({ ...c, value })} />
+        </>
+      );
+  }
+};
+
+const RuleCard: React.FC<{
+  rule: AlertRule;
+  watchlist: string[];
+  price: number;
+  onChange: (rule: AlertRule) => void;
+  onDelete: () => void;
+}> = ({ rule, watchlist, price, onChange, onDelete }) => {
+  const updateCondition = (index: number, condition: AlertCondition) =>
+    onChange({ ...rule, conditions: rule.conditions.map((c, i) => i === index ? condition : c) });
+
+  const toggleChannel = (channel: AlertChannel) =>
+    onChange({
+      ...rule,
+      channels: rule.channels.includes(channel) ? rule.channels.filter(c => c !== channel) : [...rule.channels, channel]
+    });
+
+  return (
+    <div className={`bg-[#0b0e11] rounded-2xl border p-5 space-y-4 ${rule.enabled ? 'border-gray-800' : 'border-gray-800/50 opacity-60'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text" value={rule.name}
+          onChange={(e) => onChange({ ...rule, name: e.target.value })}
+          className={`${fieldClass} flex-1 min-w-[160px] text-xs font-bold`}
+        />
+        <select
+          value={rule.symbol ?? ''}
+          onChange={(e) => onChange({ ...rule, symbol: e.target.value || null })}
+          className={fieldClass}
+        >
+          <option value="">全部合约</option>
+          {watchlist.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <button
+          onClick={() => onChange({ ...rule, enabled: !rule.enabled })}
+          className={`px-3 py-1.5 rounded-lg text-[10px] font-black border transition-all ${
+            rule.enabled ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-transparent text-gray-500 border-gray-800'
+          }`}
+        >{rule.enabled ? 'ON' : 'OFF'}</button>
+        <button onClick={onDelete} className="text-gray-600 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+      </div>
+
+      <div className="space-y-2">
+        {rule.conditions.map((c, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <span className="w-10 text-[10px] font-black text-gray-600 uppercase">{i === 0 ? 'IF' : rule.logic}</span>
+            <select
+              value={c.type}
+              onChange={(e) => updateCondition(i, createAlertCondition(e.target.value as AlertConditionType, price))}
+              className={fieldClass}
+            >
+              {(Object.keys(ALERT_CONDITION_LABELS) as AlertConditionType[]).map(t => <option key={t} value={t}>{ALERT_CONDITION_LABELS[t]}</option>)}
+            </select>
+            <ConditionFields condition={c} onChange={condition => updateCondition(i, condition)} />
+            {rule.conditions.length > 1 && (
+              <button
+                onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, j) => j !== i) })}
+                className="text-gray-600 hover:text-red-400 transition-colors"
+              ><X size={12} /></button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-bold text-gray-500">
+        <button
+          onClick={() => onChange({ ...rule, conditions: [...rule.conditions, createAlertCondition('INDICATOR', price)] })}
+          className="flex items-center gap-1 hover:text-white transition-colors"
+        ><Plus size={12} /> 添加条件</button>
+        <div className="flex rounded-lg border border-gray-800 overflow-hidden">
+          {(['AND', 'OR'] as const).map(logic => (
+            <button
+              key={logic}
+              onClick={() => onChange({ ...rule, logic })}
+              className={`px-2 py-1 font-black ${rule.logic === logic ? 'bg-yellow-400 text-black' : 'text-gray-500'}`}
+            >{logic}</button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          冷却 (分钟)
+          <input
+            type="number" min={0} value={rule.cooldownMinutes}
+            onChange={(e) => onChange({ ...rule, cooldownMinutes: Math.max(0, Number(e.target.value)) })}
+            className={`${fieldClass} w-16`}
+          />
+        </label>
+        {ALERT_CHANNELS.map(channel => (
+          <label key={channel} className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={rule.channels.includes(channel)} onChange={() => toggleChannel(channel)} className="accent-yellow-400" />
+            {getAlertChannelLabel(channel)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AlertRulesPanel: React.FC<{
+  rules: AlertRule[];
+  watchlist: string[];
+  events: AlertEvent[];
+  // 新建价格条件时的默认价位
+  price: number;
+  onChange: (rules: AlertRule[]) => void;
+  onClose: () => void;
+}> = ({ rules, watchlist, events, price, onChange, onClose }) => {
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <Bell size={14} className="text-yellow-400" /> 规则告警 ALERTS
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <p className="text-[10px] text-gray-500 mb-4">
+          每次扫描拉取行情后判断，实时流模式下每 5 秒判断一次；规则不调用 AI 模型。穿越类条件与上一次判断的数值比较。
+        </p>
+
+        <div className="flex flex-wrap gap-3 items-center mb-6">
+          <button
+            onClick={() => onChange([...rules, createAlertRule(price)])}
+            className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-yellow-400 px-4 py-2 rounded-xl text-[10px] font-black text-gray-300 transition-all uppercase"
+          >
+            <Plus size={14} /> 新建规则
+          </button>
+          {permission === 'default' && (
+            <button
+              onClick={requestPermission}
+              className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-gray-600 px-4 py-2 rounded-xl text-[10px] font-black text-gray-300 transition-all uppercase"
+            >
+              <Bell size={14} /> 允许浏览器通知
+            </button>
+          )}
+          {permission === 'denied' && <span className="text-[10px] text-red-400/80">浏览器通知已被拒绝，请在浏览器设置中开启</span>}
+        </div>
+
+        <div className="space-y-3 mb-8">
+          {rules.map(rule => (
+            <RuleCard
+              key={rule.id}
+              rule={rule}
+              watchlist={watchlist}
+              price={price}
+              onChange={updated => onChange(rules.map(r => r.id === rule.id ? updated : r))}
+              onDelete={() => onChange(rules.filter(r => r.id !== rule.id))}
+            />
+          ))}
+          {rules.length === 0 && <div className="p-6 text-center text-gray-600 text-[10px] italic">暂无告警规则</div>}
+        </div>
+
+        <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">最近触发</p>
+        <div className="space-y-2">
+          {events.map((e, i) => (
+            <div key={`${e.ruleId}-${e.symbol}-${e.timestamp}-${i}`} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4 flex flex-wrap items-center gap-4 text-[10px] font-mono">
+              <span className="text-gray-500">{new Date(e.timestamp).toLocaleString()}</span>
+              <span className="text-white font-bold">{e.symbol}</span>
+              <span className="text-yellow-400 font-bold">{e.ruleName}</span>
+              <span className="text-gray-400">{e.reasons.join(' · ')}</span>
+            </div>
+          ))}
+          {events.length === 0 && <div className="p-6 text-center text-gray-600 text-[10px] italic">本次会话尚未触发告警</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { FlaskConical, X, Play, Upload } from 'lucide-react';
+import { BacktestReport, BacktestStrategyType, IndicatorConfig, LogCallback, RecordedSignal, EquityPoint } from '../types';
+import { runBacktest } from '../services/backtest/backtestEngine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_OPTIONS = [7, 30, 90, 180];
+
+const STRATEGY_LABELS: Record<BacktestStrategyType, string> = {
+  RULES: '规则策略',
+  RECORDED: '回放 AI 记录',
+  MOCK: '随机基准'
+};
+
+const EquityCurve: React.FC<{ points: EquityPoint[] }> = ({ points }) => {
+  if (points.length < 2) return null;
+  const width = 600;
+  const height = 140;
+  const values = points.map(p => p.equity);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (v: number) => height - ((v - min) / range) * height;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.equity).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36" preserveAspectRatio="none">
+      <line x1="0" x2={width} y1={y(values[0])} y2={y(values[0])} stroke="#374151" strokeDasharray="4 4" strokeWidth="1" />
+      <path d={path} fill="none" stroke={values[values.length - 1] >= values[0] ? '#22c55e' : '#ef4444'} strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+const Metric: React.FC<{ label: string; value: string; positive?: boolean }> = ({ label, value, positive }) => (
+  <div className="bg-[#0b0e11] rounded-2xl p-4 border border-gray-800">
+    <div className="text-[9px] font-black text-gray-500 uppercase tracking-widest mb-1">{label}</div>
+    <div className={`text-lg font-black font-mono ${positive === undefined ? 'text-white' : positive ? 'text-green-500' : 'text-red-500'}`}>{value}</div>
+  </div>
+);
+
+const BacktestPanel: React.FC<{
+  watchlist: string[];
+  indicatorConfig: IndicatorConfig;
+  addLog: LogCallback;
+  onClose: () => void;
+}> = ({ watchlist, indicatorConfig, addLog, onClose }) => {
+  const [symbol, setSymbol] = useState(watchlist[0]);
+  const [days, setDays] = useState(30);
+  const [strategy, setStrategy] = useState<BacktestStrategyType>('RULES');
+  const [recordedSignals, setRecordedSignals] = useState<RecordedSignal[]>([]);
+  const [initialEquity, setInitialEquity] = useState(10000);
+  const [allocation, setAllocation] = useState(0.2);
+  const [maxLeverage, setMaxLeverage] = useState(5);
+  const [makerFee, setMakerFee] = useState(0.0002);
+  const [takerFee, setTakerFee] = useState(0.0005);
+  const [fundingRate, setFundingRate] = useState(0.0001);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ task: '', percentage: 0 });
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecordedUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      try {
+        const parsed = JSON.parse(ev.target?.result as string);
+        if (!Array.isArray(parsed)) throw new Error('应为 [{ timestamp, analysis }] 数组');
+        // 只接受结构化策略格式的记录
+        const signals = parsed.filter((s: RecordedSignal) => typeof s.timestamp === 'number' && Array.isArray(s.analysis?.strategy?.takeProfits));
+        setRecordedSignals(signals);
+        addLog(`[Backtest] 已载入 ${signals.length}/${parsed.length} 条 AI 记录`, 'SUCCESS');
+      } catch (err: any) {
+        addLog(`[Backtest] AI 记录解析失败: ${err.message}`, 'ERROR');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    setReport(null);
+    // 结束时间对齐到最近一个整点，保证最后一根信号 K 线已收盘
+    const endTime = Math.floor(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000;
+    try {
+      const result = await runBacktest({
+        symbol,
+        startTime: endTime - days * DAY_MS,
+        endTime,
+        strategy,
+        recordedSignals,
+        initialEquity,
+        allocation,
+        maxLeverage,
+        makerFee,
+        takerFee,
+        fundingRate
+      }, indicatorConfig, addLog, (task, percentage) => setProgress({ task, percentage }));
+      setReport(result);
+    } catch (err: any) {
+      setError(err.message);
+      addLog(`[Backtest] 回测失败: ${err.message}`, 'ERROR');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const numberInput = (label: string, value: number, onChange: (v: number) => void, step: number) => (
+    <div>
+      <label className="text-[10px] text-gray-500 font-black uppercase mb-2 block tracking-widest">{label}</label>
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <FlaskConical size={14} className="text-yellow-400" /> 策略回测 BACKTEST
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className="text-[10px] text-gray-500 font-black uppercase mb-2 block tracking-widest">交易对</label>
+            <select
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none"
+            >
+              {watchlist.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 font-black uppercase mb-2 block tracking-widest">区间 (天)</label>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none"
+            >
+              {DAY_OPTIONS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 font-black uppercase mb-2 block tracking-widest">信号来源</label>
+            <select
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as BacktestStrategyType)}
+              className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none"
+            >
+              {(Object.keys(STRATEGY_LABELS) as BacktestStrategyType[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+            </select>
+          </div>
+          {numberInput('初始权益 (USDT)', initialEquity, setInitialEquity, 100)}
+          {numberInput('保证金占比', allocation, setAllocation, 0.05)}
+          {numberInput('最大杠杆', maxLeverage, setMaxLeverage, 1)}
+          {numberInput('Maker 费率', makerFee, setMakerFee, 0.0001)}
+          {numberInput('Taker 费率', takerFee, setTakerFee, 0.0001)}
+          {numberInput('资金费率 / 8h', fundingRate, setFundingRate, 0.0001)}
+        </div>
+
+        <div className="flex flex-wrap gap-3 items-center mb-6">
+          {strategy === 'RECORDED' && (
+            <label className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-gray-600 px-4 py-2.5 rounded-xl text-[10px] font-black text-gray-400 cursor-pointer transition-all uppercase">
+              <Upload size={14} /> 载入 AI 记录 ({recordedSignals.length})
+              <input type="file" accept=".json" onChange={handleRecordedUpload} className="hidden" />
+            </label>
+          )}
+          <button
+            onClick={handleRun}
+            disabled={running || (strategy === 'RECORDED' && recordedSignals.length === 0)}
+            className="flex items-center gap-2 bg-yellow-400 text-black px-6 py-2.5 rounded-xl text-xs font-black disabled:opacity-50 transition-all"
+          >
+            <Play size={14} /> {running ? '回测中...' : '开始回测'}
+          </button>
+          {running && <span className="text-[10px] font-bold text-yellow-400/80 uppercase">{progress.task} · {progress.percentage}%</span>}
+          {error && <span className="text-[10px] font-bold text-red-500">{error}</span>}
+        </div>
+
+        {report && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Metric label="总收益" value={`${report.totalPnl.toFixed(2)} (${report.returnPercent.toFixed(2)}%)`} positive={report.totalPnl >= 0} />
+              <Metric label="胜率" value={`${report.winRate.toFixed(1)}% / ${report.trades.length} 笔`} />
+              <Metric label="最大回撤" value={`${report.maxDrawdown.toFixed(2)}%`} positive={false} />
+              <Metric label="夏普比率" value={report.sharpe.toFixed(2)} positive={report.sharpe >= 0} />
+              <Metric label="盈亏比" value={Number.isFinite(report.profitFactor) ? report.profitFactor.toFixed(2) : '∞'} />
+              <Metric label="信号数" value={String(report.signals)} />
+              <Metric label="手续费" value={report.totalFees.toFixed(2)} />
+              <Metric label="资金费" value={report.totalFunding.toFixed(2)} />
+            </div>
+
+            <div className="bg-[#0b0e11] rounded-2xl p-4 border border-gray-800">
+              <div className="text-[9px] font-black text-gray-500 uppercase tracking-widest mb-2">权益曲线 EQUITY</div>
+              <EquityCurve points={report.equityCurve} />
+            </div>
+
+            <div className="bg-[#0b0e11] rounded-2xl border border-gray-800 max-h-64 overflow-y-auto">
+              <table className="w-full text-[10px] font-mono">
+                <thead className="text-gray-500 uppercase sticky top-0 bg-[#0b0e11]">
+                  <tr>
+                    <th className="text-left p-3">方向</th>
+                    <th className="text-left p-3">开仓</th>
+                    <th className="text-right p-3">入场</th>
+                    <th className="text-right p-3">出场</th>
+                    <th className="text-center p-3">原因</th>
+                    <th className="text-right p-3">杠杆</th>
+                    <th className="text-right p-3">盈亏</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.trades.map((t, i) => (
+                    <tr key={i} className="border-t border-gray-800/50">
+                      <td className={`p-3 font-bold ${t.side === 'LONG' ? 'text-green-500' : 'text-red-500'}`}>{t.side}</td>
+                      <td className="p-3 text-gray-400">{new Date(t.entryTime).toLocaleString()}</td>
+                      <td className="p-3 text-right text-white">{t.entryPrice.toFixed(2)}</td>
+                      <td className="p-3 text-right text-white">{t.exitPrice.toFixed(2)}</td>
+                      <td className="p-3 text-center text-gray-400">{t.exitReason}</td>
+                      <td className="p-3 text-right text-gray-400">{t.leverage}x</td>
+                      <td className={`p-3 text-right font-bold ${t.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>{t.pnl.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.trades.length === 0 && <div className="p-6 text-center text-gray-600 text-[10px] italic">回测区间内没有成交</div>}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { CandlestickChart } from 'lucide-react';
+import { MarketSnapshot, AIAnalysis, IndicatorConfig, Series } from '../types';
+import { getIndicatorSeries } from '../services/indicatorService';
+
+const WIDTH = 800;
+const PRICE_HEIGHT = 300;
+const SUB_HEIGHT = 80;
+const GAP = 16;
+const AXIS_WIDTH = 64;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const RSI_TOP = PRICE_HEIGHT + GAP;
+const MACD_TOP = RSI_TOP + SUB_HEIGHT + GAP;
+const HEIGHT = MACD_TOP + SUB_HEIGHT;
+
+interface StrategyLine {
+  label: string;
+  price: number;
+  color: string;
+}
+
+const buildStrategyLines = (analysis: AIAnalysis | null): StrategyLine[] => {
+  if (!analysis || analysis.strategy.action === 'WAIT') return [];
+  const { entry, takeProfits, stopLoss } = analysis.strategy;
+  const entryLines = entry
+    ? (entry.low === entry.high ? [entry.low] : [entry.low, entry.high]).map(price => ({ label: 'ENTRY', price, color: '#facc15' }))
+    : [];
+  return [
+    ...entryLines,
+    ...takeProfits.map((tp, i) => ({ label: `TP${i + 1}`, price: tp.price, color: '#22c55e' })),
+    ...(stopLoss !== null ? [{ label: 'SL', price: stopLoss, color: '#ef4444' }] : [])
+  ];
+};
+
+const linePath = (series: Series, x: (i: number) => number, y: (v: number) => number) => {
+  let d = '';
+  let pen = false;
+  series.forEach((v, i) => {
+    if (v === null) {
+      pen = false;
+      return;
+    }
+    d += `${pen ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)} `;
+    pen = true;
+  });
+  return d;
+};
+
+const CandleChart: React.FC<{
+  snapshots: MarketSnapshot[];
+  analysis: AIAnalysis | null;
+  indicatorConfig: IndicatorConfig;
+}> = ({ snapshots, analysis, indicatorConfig }) => {
+  const [timeframe, setTimeframe] = useState(snapshots[1]?.timeframe ?? snapshots[0]?.timeframe);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const snapshot = snapshots.find(s => s.timeframe === timeframe) ?? snapshots[0];
+  const klines = snapshot?.kline ?? [];
+  const series = useMemo(() => getIndicatorSeries(klines, indicatorConfig), [klines, indicatorConfig]);
+
+  if (klines.length === 0) return null;
+
+  const step = PLOT_WIDTH / klines.length;
+  const x = (i: number) => i * step + step / 2;
+  const bodyWidth = Math.max(1, step * 0.6);
+
+  const bands = [...series.bollinger.upper, ...series.bollinger.lower].filter((v): v is number => v !== null);
+  const rawLow = Math.min(...klines.map(k => k.low), ...bands);
+  const rawHigh = Math.max(...klines.map(k => k.high), ...bands);
+  const strategyLines = buildStrategyLines(analysis);
+  const low = Math.min(rawLow, ...strategyLines.map(l => l.price));
+  const high = Math.max(rawHigh, ...strategyLines.map(l => l.price));
+  const pad = (high - low) * 0.05 || 1;
+  const yPrice = (v: number) => PRICE_HEIGHT - ((v - (low - pad)) / (high - low + pad * 2)) * PRICE_HEIGHT;
+
+  const yRsi = (v: number) => RSI_TOP + SUB_HEIGHT - (v / 100) * SUB_HEIGHT;
+
+  const macdValues = [...series.macd.macd, ...series.macd.signal, ...series.macd.histogram].filter((v): v is number => v !== null);
+  const macdAbs = Math.max(...macdValues.map(Math.abs), 1e-9);
+  const yMacd = (v: number) => MACD_TOP + SUB_HEIGHT / 2 - (v / macdAbs) * (SUB_HEIGHT / 2);
+
+  const priceTicks = Array.from({ length: 5 }, (_, i) => low + (high - low) * (i / 4));
+  const hovered = hoverIndex !== null ? klines[hoverIndex] : null;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const i = Math.floor(px / step);
+    setHoverIndex(i >= 0 && i < klines.length ? i : null);
+  };
+
+  return (
+    <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl p-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <CandlestickChart size={14} className="text-yellow-400" /> K 线图表
+        </h3>
+        <div className="flex gap-2">
+          {snapshots.map(s => (
+            <button
+              key={s.timeframe}
+              onClick={() => setTimeframe(s.timeframe)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black border transition-all ${
+                s.timeframe === snapshot.timeframe ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-transparent text-gray-500 border-gray-800 hover:border-gray-600'
+              }`}
+            >{s.timeframe.toUpperCase()}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-[10px] font-mono text-gray-500 mb-2 min-h-[16px]">
+        {hovered ? (
+          <>
+            <span>{new Date(hovered.timestamp).toLocaleString()}</span>
+            <span>O {hovered.open.toFixed(2)}</span>
+            <span>H {hovered.high.toFixed(2)}</span>
+            <span>L {hovered.low.toFixed(2)}</span>
+            <span className={hovered.close >= hovered.open ? 'text-green-500' : 'text-red-500'}>C {hovered.close.toFixed(2)}</span>
+            <span>RSI {series.rsi[hoverIndex!]?.toFixed(1) ?? '-'}</span>
+            <span>MACD {series.macd.histogram[hoverIndex!]?.toFixed(2) ?? '-'}</span>
+          </>
+        ) : (
+          <>
+            <span className="text-sky-400">EMA20</span>
+            <span className="text-purple-400">EMA50</span>
+            <span className="text-gray-400">BOLL(20,2)</span>
+          </>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {priceTicks.map(p => (
+          <g key={p}>
+            <line x1="0" x2={PLOT_WIDTH} y1={yPrice(p)} y2={yPrice(p)} stroke="#1f2937" strokeWidth="1" />
+            <text x={PLOT_WIDTH + 6} y={yPrice(p) + 3} fill="#6b7280" fontSize="10" fontFamily="monospace">{p.toFixed(2)}</text>
+          </g>
+        ))}
+
+        <path d={linePath(series.bollinger.upper, x, yPrice)} fill="none" stroke="#6b7280" strokeWidth="1" strokeDasharray="3 3" />
+        <path d={linePath(series.bollinger.middle, x, yPrice)} fill="none" stroke="#4b5563" strokeWidth="1" />
+        <path d={linePath(series.bollinger.lower, x, yPrice)} fill="none" stroke="#6b7280" strokeWidth="1" strokeDasharray="3 3" />
+
+        {klines.map((k, i) => {
+          const up = k.close >= k.open;
+          const color = up ? '#22c55e' : '#ef4444';
+          const top = yPrice(Math.max(k.open, k.close));
+          const bottom = yPrice(Math.min(k.open, k.close));
+          return (
+            <g key={k.timestamp}>
+              <line x1={x(i)} x2={x(i)} y1={yPrice(k.high)} y2={yPrice(k.low)} stroke={color} strokeWidth="1" />
+              <rect x={x(i) - bodyWidth / 2} y={top} width={bodyWidth} height={Math.max(1, bottom - top)} fill={color} />
+            </g>
+          );
+        })}
+
+        <path d={linePath(series.ema20, x, yPrice)} fill="none" stroke="#38bdf8" strokeWidth="1.5" />
+        <path d={linePath(series.ema50, x, yPrice)} fill="none" stroke="#c084fc" strokeWidth="1.5" />
+
+        {strategyLines.map((l, i) => (
+          <g key={`${l.label}-${i}`}>
+            <line x1="0" x2={PLOT_WIDTH} y1={yPrice(l.price)} y2={yPrice(l.price)} stroke={l.color} strokeWidth="1" strokeDasharray="6 4" />
+            <rect x={PLOT_WIDTH} y={yPrice(l.price) - 7} width={AXIS_WIDTH} height="14" fill={l.color} />
+            <text x={PLOT_WIDTH + 4} y={yPrice(l.price) + 3} fill="#000" fontSize="9" fontWeight="bold" fontFamily="monospace">
+              {l.label} {l.price.toFixed(0)}
+            </text>
+          </g>
+        ))}
+
+        {/* RSI 副图 */}
+        <rect x="0" y={RSI_TOP} width={PLOT_WIDTH} height={SUB_HEIGHT} fill="#0b0e11" fillOpacity="0.4" />
+        {[30, 70].map(level => (
+          <line key={level} x1="0" x2={PLOT_WIDTH} y1={yRsi(level)} y2={yRsi(level)} stroke="#374151" strokeDasharray="3 3" strokeWidth="1" />
+        ))}
+        <path d={linePath(series.rsi, x, yRsi)} fill="none" stroke="#facc15" strokeWidth="1.2" />
+        <text x={PLOT_WIDTH + 6} y={RSI_TOP + 12} fill="#6b7280" fontSize="10" fontFamily="monospace">RSI</text>
+
+        {/* MACD 副图 */}
+        <rect x="0" y={MACD_TOP} width={PLOT_WIDTH} height={SUB_HEIGHT} fill="#0b0e11" fillOpacity="0.4" />
+        <line x1="0" x2={PLOT_WIDTH} y1={yMacd(0)} y2={yMacd(0)} stroke="#374151" strokeWidth="1" />
+        {series.macd.histogram.map((h, i) => h === null ? null : (
+          <rect
+            key={i}
+            x={x(i) - bodyWidth / 2}
+            y={Math.min(yMacd(h), yMacd(0))}
+            width={bodyWidth}
+            height={Math.max(0.5, Math.abs(yMacd(h) - yMacd(0)))}
+            fill={h >= 0 ? '#22c55e' : '#ef4444'}
+            fillOpacity="0.6"
+          />
+        ))}
+        <path d={linePath(series.macd.macd, x, yMacd)} fill="none" stroke="#38bdf8" strokeWidth="1.2" />
+        <path d={linePath(series.macd.signal, x, yMacd)} fill="none" stroke="#f97316" strokeWidth="1.2" />
+        <text x={PLOT_WIDTH + 6} y={MACD_TOP + 12} fill="#6b7280" fontSize="10" fontFamily="monospace">MACD</text>
+
+        {hoverIndex !== null && (
+          <line x1={x(hoverIndex)} x2={x(hoverIndex)} y1="0" y2={HEIGHT} stroke="#9ca3af" strokeOpacity="0.4" strokeWidth="1" />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default CandleChart;
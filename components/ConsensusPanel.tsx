@@ -0,0 +1,63 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { ConsensusInfo } from '../types';
+
+const actionColor = (action: string) =>
+  action === 'LONG' ? 'text-green-500' : action === 'SHORT' ? 'text-red-500' : 'text-gray-400';
+
+const ConsensusPanel: React.FC<{ consensus: ConsensusInfo }> = ({ consensus }) => (
+  <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl p-8">
+    <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+      <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+        <Users size={14} className="text-yellow-400" /> 多模型共识 CONSENSUS
+      </h3>
+      <span className={`text-[10px] font-black px-2 py-0.5 rounded-full border uppercase ${
+        consensus.isConsensus ? 'text-green-500 bg-green-500/10 border-green-500/20' : 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20'
+      }`}>
+        {consensus.isConsensus ? '已达成共识' : '未达成共识 · 不推送'}
+      </span>
+    </div>
+
+    <div className="mb-6">
+      <div className="flex justify-between text-[10px] font-bold text-gray-500 mb-2 font-mono">
+        <span>置信度 {consensus.confidence}%</span>
+        <span>{consensus.votes} / {consensus.responded} 票{consensus.opinions.length > consensus.responded ? ` (${consensus.opinions.length - consensus.responded} 个模型失败)` : ''}</span>
+      </div>
+      <div className="bg-gray-800/40 rounded-full h-1.5 overflow-hidden">
+        <div
+          className={`h-full ${consensus.isConsensus ? 'bg-green-500' : 'bg-yellow-500'}`}
+          style={{ width: `${consensus.confidence}%` }}
+        ></div>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {consensus.opinions.map(o => (
+        <div key={o.model} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-5 flex flex-col">
+          <div className="flex justify-between items-center mb-3">
+            <span className="text-[10px] font-black text-white font-mono">{o.model}</span>
+            {o.analysis ? (
+              <span className={`text-xs font-black ${actionColor(o.analysis.strategy.action)}`}>{o.analysis.strategy.action}</span>
+            ) : (
+              <span className="text-[10px] font-black text-red-500">FAILED</span>
+            )}
+          </div>
+          {o.analysis ? (
+            <>
+              <div className="flex gap-3 text-[10px] font-mono text-gray-500 mb-3">
+                <span>{o.analysis.sentiment}</span>
+                {o.analysis.strategy.action !== 'WAIT' && <span>{o.analysis.strategy.leverage}x</span>}
+                {o.analysis.strategy.riskReward !== null && <span>R:R {o.analysis.strategy.riskReward.toFixed(2)}</span>}
+              </div>
+              <p className="text-[11px] text-gray-400 leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto">{o.analysis.analysis}</p>
+            </>
+          ) : (
+            <p className="text-[11px] text-red-400/80 break-all">{o.error}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default ConsensusPanel;
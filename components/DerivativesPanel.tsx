@@ -0,0 +1,73 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { DerivativesData } from '../types';
+
+const formatAmount = (v: number) => {
+  const abs = Math.abs(v);
+  if (abs >= 1e9) return `${(v / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(v / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(v / 1e3).toFixed(1)}K`;
+  return v.toFixed(1);
+};
+
+const formatRate = (rate: number) => `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(4)}%`;
+
+const Row: React.FC<{ label: string; value: React.ReactNode; tone?: string }> = ({ label, value, tone = 'text-gray-300' }) => (
+  <div className="flex justify-between items-center py-2 border-b border-gray-800/50 last:border-0">
+    <span className="text-[10px] font-black text-gray-500 uppercase">{label}</span>
+    <span className={`text-xs font-black font-mono ${tone}`}>{value}</span>
+  </div>
+);
+
+const DerivativesPanel: React.FC<{ derivatives: DerivativesData }> = ({ derivatives: d }) => {
+  const minutesToFunding = d.nextFundingTime > 0 ? Math.max(0, Math.round((d.nextFundingTime - Date.now()) / 60000)) : null;
+  const liqTotal = d.liquidations ? d.liquidations.longVolume + d.liquidations.shortVolume : 0;
+
+  return (
+    <section className="bg-[#1e2329] rounded-[32px] p-8 border border-gray-800 shadow-xl overflow-hidden">
+      <h2 className="text-sm font-black text-white uppercase mb-6 flex items-center justify-between">
+        合约数据
+        <Layers size={12} className="text-gray-600" />
+      </h2>
+      <Row
+        label={`资金费率${minutesToFunding !== null ? ` (${minutesToFunding}m 后结算)` : ''}`}
+        value={formatRate(d.fundingRate)}
+        tone={d.fundingRate >= 0 ? 'text-green-500' : 'text-red-500'}
+      />
+      {d.nextFundingRate !== null && <Row label="预测下期费率" value={formatRate(d.nextFundingRate)} />}
+      <Row
+        label="持仓量"
+        value={<>
+          {formatAmount(d.openInterestUsd ?? d.openInterest)}{d.openInterestUsd !== null ? ' USD' : ''}
+          {d.openInterestChange !== null && (
+            <span className={`ml-2 ${d.openInterestChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {d.openInterestChange >= 0 ? '+' : ''}{d.openInterestChange.toFixed(2)}% 24h
+            </span>
+          )}
+        </>}
+      />
+      {d.longShortRatio !== null && (
+        <Row label="多空账户比" value={d.longShortRatio.toFixed(2)} tone={d.longShortRatio >= 1 ? 'text-green-500' : 'text-red-500'} />
+      )}
+      <Row label="标记 / 指数" value={`${d.markPrice.toFixed(2)} / ${d.indexPrice.toFixed(2)}`} />
+      <Row label="基差" value={`${d.basis.toFixed(2)} (${d.basisPercent.toFixed(3)}%)`} tone={d.basis >= 0 ? 'text-green-500' : 'text-red-500'} />
+      {d.liquidations && (
+        <div className="mt-4">
+          <p className="text-[10px] font-black text-gray-500 uppercase mb-2 tracking-widest">
+            近期强平 ({d.liquidations.count} 笔, {Math.round((Date.now() - d.liquidations.since) / 60000)}m 内)
+          </p>
+          <div className="flex h-1.5 rounded-full overflow-hidden bg-gray-800 mb-1">
+            <div className="bg-red-500/80" style={{ width: `${liqTotal > 0 ? d.liquidations.longVolume / liqTotal * 100 : 50}%` }}></div>
+            <div className="bg-green-500/80 flex-grow"></div>
+          </div>
+          <div className="flex justify-between text-[9px] font-mono text-gray-500">
+            <span>多头爆仓 {formatAmount(d.liquidations.longVolume)}</span>
+            <span>空头爆仓 {formatAmount(d.liquidations.shortVolume)}</span>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DerivativesPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ExecutionConfig } from '../types';
+
+const inputClass = "w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono";
+
+const toggleClass = (on: boolean, color: 'green' | 'yellow') =>
+  `py-2 rounded-xl text-[10px] font-black border transition-all ${
+    on ? (color === 'green' ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-yellow-400/10 text-yellow-400 border-yellow-400/20') : 'bg-transparent text-gray-500 border-gray-800'
+  }`;
+
+// 默认关闭且为 dry-run + 模拟盘，真实下单需要逐项手动关闭
+const ExecutionSettingsEditor: React.FC<{
+  execution: ExecutionConfig;
+  onChange: (execution: ExecutionConfig) => void;
+}> = ({ execution, onChange }) => {
+  const update = (patch: Partial<ExecutionConfig>) => onChange({ ...execution, ...patch });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">OKX 下单 EXECUTION</label>
+        <button
+          onClick={() => update({ enabled: !execution.enabled })}
+          className={`px-3 py-1 rounded-lg text-[10px] font-black border transition-all ${
+            execution.enabled ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-transparent text-gray-500 border-gray-800'
+          }`}
+        >{execution.enabled ? '已开启 ON' : '已关闭 OFF'}</button>
+      </div>
+      {execution.enabled && (
+        <div className="space-y-2 animate-in zoom-in-95 duration-200">
+          <input type="password" value={execution.apiKey} placeholder="API Key" onChange={(e) => update({ apiKey: e.target.value })} className={inputClass} />
+          <input type="password" value={execution.secretKey} placeholder="Secret Key" onChange={(e) => update({ secretKey: e.target.value })} className={inputClass} />
+          <input type="password" value={execution.passphrase} placeholder="Passphrase" onChange={(e) => update({ passphrase: e.target.value })} className={inputClass} />
+          <input type="text" value={execution.baseUrl} placeholder="接口地址" onChange={(e) => update({ baseUrl: e.target.value })} className={inputClass} />
+          <p className="text-[10px] text-gray-600">浏览器直连 OKX 可能被 CORS 拦截，可将接口地址指向自建转发服务；密钥不会经过公共代理</p>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => update({ dryRun: !execution.dryRun })} className={toggleClass(execution.dryRun, 'yellow')}>
+              {execution.dryRun ? 'DRY-RUN' : '真实发送'}
+            </button>
+            <button onClick={() => update({ demoTrading: !execution.demoTrading })} className={toggleClass(execution.demoTrading, 'yellow')}>
+              {execution.demoTrading ? '模拟盘 DEMO' : '实盘 LIVE'}
+            </button>
+            <button onClick={() => update({ marginMode: execution.marginMode === 'isolated' ? 'cross' : 'isolated' })} className={toggleClass(true, 'green')}>
+              {execution.marginMode === 'isolated' ? '逐仓' : '全仓'}
+            </button>
+          </div>
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">单笔名义价值上限 (USDT)</span>
+            <input
+              type="number" min={1} step={100} value={execution.maxNotional}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) update({ maxNotional: value });
+              }}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionSettingsEditor;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ArrowDownUp } from 'lucide-react';
+import { InflowOutflow } from '../types';
+
+const formatVolume = (v: number) => {
+  const abs = Math.abs(v);
+  if (abs >= 1e6) return `${(v / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(v / 1e3).toFixed(1)}K`;
+  return v.toFixed(1);
+};
+
+// CVD 折线，纵轴按序列自身的最值缩放
+const CvdSparkline: React.FC<{ points: InflowOutflow['cvd'] }> = ({ points }) => {
+  if (points.length < 2) return null;
+  const width = 300;
+  const height = 60;
+  const values = points.map(p => p.cvd);
+  const min = Math.min(...values, 0);
+  const max = Math.max(...values, 0);
+  const range = max - min || 1;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (v: number) => height - ((v - min) / range) * height;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.cvd).toFixed(1)}`).join(' ');
+  const last = values[values.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-16" preserveAspectRatio="none">
+      <line x1="0" x2={width} y1={y(0)} y2={y(0)} stroke="#374151" strokeDasharray="4 4" strokeWidth="1" />
+      <path d={path} fill="none" stroke={last >= 0 ? '#22c55e' : '#ef4444'} strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+const FlowPanel: React.FC<{ inflow: InflowOutflow }> = ({ inflow }) => (
+  <section className="bg-[#1e2329] rounded-[32px] p-8 border border-gray-800 shadow-xl overflow-hidden">
+    <h2 className="text-sm font-black text-white uppercase mb-6 flex items-center justify-between">
+      主动买卖流向
+      <ArrowDownUp size={12} className="text-gray-600" />
+    </h2>
+    <div className="space-y-3">
+      {inflow.windows.map(w => {
+        const total = w.buyVolume + w.sellVolume;
+        const buyPct = total > 0 ? (w.buyVolume / total) * 100 : 50;
+        return (
+          <div key={w.window}>
+            <div className="flex justify-between text-[10px] font-black mb-1">
+              <span className="text-gray-500 uppercase">{w.window}{!w.complete && <span className="text-yellow-500/70 ml-1">(部分)</span>}</span>
+              <span className={w.netInflow >= 0 ? 'text-green-500' : 'text-red-500'}>
+                {w.netInflow >= 0 ? '+' : ''}{formatVolume(w.netInflow)}
+              </span>
+            </div>
+            <div className="flex h-1.5 rounded-full overflow-hidden bg-gray-800">
+              <div className="bg-green-500/80" style={{ width: `${buyPct}%` }}></div>
+              <div className="bg-red-500/80 flex-grow"></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+    <div className="mt-6">
+      <p className="text-[10px] font-black text-gray-500 uppercase mb-2 tracking-widest">CVD 累计成交量差</p>
+      <CvdSparkline points={inflow.cvd} />
+    </div>
+    <p className="text-[9px] font-mono text-gray-600 mt-4">
+      最近 {inflow.recentTrades.count} 笔成交: 买 {formatVolume(inflow.recentTrades.buyVolume)} / 卖 {formatVolume(inflow.recentTrades.sellVolume)}
+    </p>
+  </section>
+);
+
+export default FlowPanel;
@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { BookOpen, X, RefreshCw, Download, Trash2 } from 'lucide-react';
+import { JournalEntry, JournalOutcome, LogCallback, RecordedSignal } from '../types';
+import { loadJournal, resolvePendingEntries, computeModelStats, deleteJournalEntry, getPromptVersion } from '../services/journalService';
+
+const OUTCOME_STYLES: Record<JournalOutcome, string> = {
+  PENDING: 'text-yellow-400 bg-yellow-400/10 border-yellow-400/20',
+  TP: 'text-green-500 bg-green-500/10 border-green-500/20',
+  SL: 'text-red-500 bg-red-500/10 border-red-500/20',
+  EXPIRED: 'text-gray-400 bg-gray-500/10 border-gray-500/20',
+  SKIPPED: 'text-gray-600 bg-gray-800/40 border-gray-800'
+};
+
+const ALL = 'ALL';
+
+const JournalPanel: React.FC<{
+  addLog: LogCallback;
+  onClose: () => void;
+}> = ({ addLog, onClose }) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [symbolFilter, setSymbolFilter] = useState(ALL);
+  const [modelFilter, setModelFilter] = useState(ALL);
+  const [promptFilter, setPromptFilter] = useState(ALL);
+  const [outcomeFilter, setOutcomeFilter] = useState<JournalOutcome | typeof ALL>(ALL);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const updated = await resolvePendingEntries(addLog);
+      if (updated > 0) addLog(`[Journal] 更新了 ${updated} 条信号结果`, 'SUCCESS');
+      setEntries(await loadJournal());
+    } catch (err: any) {
+      addLog(`[Journal] 读取信号日志失败: ${err.message}`, 'ERROR');
+    } finally {
+      setLoading(false);
+    }
+  }, [addLog]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const symbols = useMemo(() => Array.from(new Set(entries.map(e => e.symbol))), [entries]);
+  const models = useMemo(() => Array.from(new Set(entries.map(e => e.model))), [entries]);
+  const promptVersions = useMemo(() => Array.from(new Set(entries.map(getPromptVersion))), [entries]);
+
+  const filtered = entries.filter(e =>
+    (symbolFilter === ALL || e.symbol === symbolFilter) &&
+    (modelFilter === ALL || e.model === modelFilter) &&
+    (promptFilter === ALL || getPromptVersion(e) === promptFilter) &&
+    (outcomeFilter === ALL || e.outcome === outcomeFilter)
+  );
+  const stats = computeModelStats(filtered);
+
+  const handleDelete = async (id: string) => {
+    await deleteJournalEntry(id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  // 导出为回测可回放的记录格式
+  const exportRecorded = () => {
+    const signals: RecordedSignal[] = filtered.map(e => ({ timestamp: e.timestamp, analysis: e.analysis }));
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(signals));
+    const anchor = document.createElement('a');
+    anchor.setAttribute("href", dataStr);
+    anchor.setAttribute("download", "signals.json");
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    addLog(`[Journal] 已导出 ${signals.length} 条信号`, 'SUCCESS');
+  };
+
+  const selectClass = "bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <BookOpen size={14} className="text-yellow-400" /> 信号日志 JOURNAL
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 items-center mb-6">
+          <select value={symbolFilter} onChange={(e) => setSymbolFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>全部合约</option>
+            {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={modelFilter} onChange={(e) => setModelFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>全部模型</option>
+            {models.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select value={promptFilter} onChange={(e) => setPromptFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>全部提示词版本</option>
+            {promptVersions.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+          <select value={outcomeFilter} onChange={(e) => setOutcomeFilter(e.target.value as JournalOutcome | typeof ALL)} className={selectClass}>
+            <option value={ALL}>全部结果</option>
+            {(Object.keys(OUTCOME_STYLES) as JournalOutcome[]).map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-yellow-400 px-4 py-2 rounded-xl text-[10px] font-black text-gray-300 disabled:opacity-50 transition-all uppercase"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} /> 更新结果
+          </button>
+          <button
+            onClick={exportRecorded}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-gray-600 px-4 py-2 rounded-xl text-[10px] font-black text-gray-300 disabled:opacity-50 transition-all uppercase"
+          >
+            <Download size={14} /> 导出回测记录
+          </button>
+        </div>
+
+        <div className="bg-[#0b0e11] rounded-2xl border border-gray-800 mb-6 overflow-x-auto">
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-gray-500 uppercase">
+              <tr>
+                <th className="text-left p-3">模型</th>
+                <th className="text-left p-3">提示词</th>
+                <th className="text-right p-3">信号</th>
+                <th className="text-right p-3">已结束</th>
+                <th className="text-right p-3">TP / SL / 过期</th>
+                <th className="text-right p-3">命中率</th>
+                <th className="text-right p-3">期望收益</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(s => (
+                <tr key={`${s.model}|${s.promptVersion}`} className="border-t border-gray-800/50">
+                  <td className="p-3 text-white font-bold">{s.model}</td>
+                  <td className="p-3 text-gray-400">{s.promptVersion}</td>
+                  <td className="p-3 text-right text-gray-400">{s.total}</td>
+                  <td className="p-3 text-right text-gray-400">{s.resolved}</td>
+                  <td className="p-3 text-right text-gray-400">{s.tp} / {s.sl} / {s.expired}</td>
+                  <td className="p-3 text-right text-white">{s.hitRate.toFixed(1)}%</td>
+                  <td className={`p-3 text-right font-bold ${s.expectancy >= 0 ? 'text-green-500' : 'text-red-500'}`}>{s.expectancy.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {stats.length === 0 && <div className="p-6 text-center text-gray-600 text-[10px] italic">暂无信号记录</div>}
+        </div>
+
+        <div className="space-y-2">
+          {filtered.map(e => (
+            <div key={e.id} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4 flex flex-wrap items-center gap-4 text-[10px] font-mono">
+              <span className={`px-2 py-0.5 rounded border font-black ${OUTCOME_STYLES[e.outcome]}`}>{e.outcome}</span>
+              <span className="text-gray-500">{new Date(e.timestamp).toLocaleString()}</span>
+              <span className="text-white font-bold">{e.symbol}</span>
+              <span className="text-gray-400">{e.model}</span>
+              <span className="text-gray-600" title="提示词版本">{getPromptVersion(e)}</span>
+              <span className={`font-black ${e.analysis.strategy.action === 'LONG' ? 'text-green-500' : e.analysis.strategy.action === 'SHORT' ? 'text-red-500' : 'text-gray-500'}`}>
+                {e.analysis.strategy.action}
+              </span>
+              <span className="text-gray-400">@ {e.price.toFixed(2)}</span>
+              {e.levels && (
+                <span className="text-gray-500">
+                  E {e.levels.entry.toFixed(2)} · TP {e.levels.tp.toFixed(2)} · SL {e.levels.sl.toFixed(2)}
+                </span>
+              )}
+              {e.pnlPercent !== undefined && (
+                <span className={`font-bold ${e.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {e.pnlPercent >= 0 ? '+' : ''}{e.pnlPercent.toFixed(2)}%
+                </span>
+              )}
+              <span className="text-gray-700 ml-auto" title="行情快照哈希">#{e.snapshotHash}</span>
+              <button onClick={() => handleDelete(e.id)} className="text-gray-600 hover:text-red-400 transition-colors">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalPanel;
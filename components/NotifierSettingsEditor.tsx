@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { LogCallback, NotifierConfig, NotifierSettings, NotifierType } from '../types';
+import { getNotifier, isNotifierConfigured, sendNotification } from '../services/notifiers';
+import { buildTestMessage } from '../services/notifiers/messages';
+
+// 可同时开启多个渠道，AI 信号会推送到所有已开启的渠道
+const NotifierSettingsEditor: React.FC<{
+  notifiers: NotifierSettings;
+  onChange: (notifiers: NotifierSettings) => void;
+  addLog: LogCallback;
+}> = ({ notifiers, onChange, addLog }) => {
+  const [selected, setSelected] = useState<NotifierType>(NotifierType.WECOM);
+  const [testing, setTesting] = useState(false);
+
+  const notifier = getNotifier(selected);
+  const config = notifiers[selected];
+
+  const update = (patch: Partial<NotifierConfig>) => {
+    onChange({ ...notifiers, [selected]: { ...config, ...patch } });
+  };
+
+  const sendTest = async () => {
+    setTesting(true);
+    await sendNotification(buildTestMessage(), [selected], notifiers, addLog);
+    setTesting(false);
+  };
+
+  return (
+    <div>
+      <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">推送通知 NOTIFY</label>
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {Object.values(NotifierType).map(t => (
+          <button
+            key={t}
+            onClick={() => setSelected(t)}
+            className={`relative py-2 rounded-xl text-[9px] font-black border transition-all ${
+              selected === t ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-transparent text-gray-500 border-gray-800 hover:border-gray-600'
+            }`}
+          >
+            {t}
+            {notifiers[t].enabled && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-green-500"></span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{notifier.name}</p>
+          <button
+            onClick={() => update({ enabled: !config.enabled })}
+            className={`px-3 py-1 rounded-lg text-[10px] font-black border transition-all ${
+              config.enabled ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-transparent text-gray-500 border-gray-800'
+            }`}
+          >{config.enabled ? '推送信号 ON' : '推送信号 OFF'}</button>
+        </div>
+        {notifier.fields.map(field => (
+          <input
+            key={field.key}
+            type={field.secret ? 'password' : 'text'}
+            value={config.values[field.key] ?? ''}
+            placeholder={`${field.label}${field.required ? '' : ' (可选)'}${field.placeholder ? ` · ${field.placeholder}` : ''}`}
+            onChange={(e) => update({ values: { ...config.values, [field.key]: e.target.value } })}
+            className="w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono"
+          />
+        ))}
+        {selected === NotifierType.EMAIL && (
+          <p className="text-[10px] text-yellow-500/80">浏览器无法直接连接 SMTP，邮件推送仅在后台服务中生效</p>
+        )}
+        <button
+          onClick={sendTest}
+          disabled={testing || !isNotifierConfigured(selected, notifiers)}
+          className="w-full py-2 rounded-xl text-[10px] font-black border border-gray-800 text-gray-400 hover:border-gray-600 disabled:opacity-50 transition-all"
+        >发送测试消息</button>
+      </div>
+    </div>
+  );
+};
+
+export default NotifierSettingsEditor;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { ParsedOrderBook, OrderBookAnalysis, BookLevel } from '../types';
+
+const WIDTH = 300;
+const HEIGHT = 120;
+// 深度图横轴展示的价格范围 (距中间价 ±%)
+const RANGE_PERCENT = 1;
+
+// 累积挂单量阶梯
+const cumulate = (levels: BookLevel[]) => {
+  let total = 0;
+  return levels.map(l => {
+    total += l.size;
+    return { price: l.price, total };
+  });
+};
+
+const DepthChart: React.FC<{ book: ParsedOrderBook; analysis: OrderBookAnalysis }> = ({ book, analysis }) => {
+  const low = analysis.mid * (1 - RANGE_PERCENT / 100);
+  const high = analysis.mid * (1 + RANGE_PERCENT / 100);
+  const bids = cumulate(book.bids.filter(l => l.price >= low));
+  const asks = cumulate(book.asks.filter(l => l.price <= high));
+  const maxTotal = Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0, 1);
+
+  const x = (price: number) => ((price - low) / (high - low)) * WIDTH;
+  const y = (total: number) => HEIGHT - (total / maxTotal) * HEIGHT;
+
+  const stepPath = (points: { price: number; total: number }[], edge: number) => {
+    if (points.length === 0) return '';
+    let d = `M${x(points[0].price).toFixed(1)},${HEIGHT}`;
+    let prevY = HEIGHT;
+    points.forEach(p => {
+      d += ` L${x(p.price).toFixed(1)},${prevY.toFixed(1)} L${x(p.price).toFixed(1)},${y(p.total).toFixed(1)}`;
+      prevY = y(p.total);
+    });
+    d += ` L${x(edge).toFixed(1)},${prevY.toFixed(1)} L${x(edge).toFixed(1)},${HEIGHT} Z`;
+    return d;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+      <path d={stepPath(bids, low)} fill="rgba(34,197,94,0.15)" stroke="#22c55e" strokeWidth="1" />
+      <path d={stepPath(asks, high)} fill="rgba(239,68,68,0.15)" stroke="#ef4444" strokeWidth="1" />
+      <line x1={x(analysis.mid)} x2={x(analysis.mid)} y1="0" y2={HEIGHT} stroke="#4b5563" strokeDasharray="3 3" strokeWidth="1" />
+      {analysis.walls
+        .filter(w => w.price >= low && w.price <= high)
+        .map(w => (
+          <line
+            key={`${w.side}-${w.price}`}
+            x1={x(w.price)} x2={x(w.price)} y1="0" y2={HEIGHT}
+            stroke={w.side === 'bid' ? '#22c55e' : '#ef4444'} strokeOpacity="0.6" strokeWidth="2"
+          />
+        ))}
+    </svg>
+  );
+};
+
+const OrderBookPanel: React.FC<{ book: ParsedOrderBook; analysis: OrderBookAnalysis }> = ({ book, analysis }) => (
+  <section className="bg-[#1e2329] rounded-[32px] p-8 border border-gray-800 shadow-xl overflow-hidden">
+    <h2 className="text-sm font-black text-white uppercase mb-6 flex items-center justify-between">
+      盘口深度
+      <BookOpen size={12} className="text-gray-600" />
+    </h2>
+    <DepthChart book={book} analysis={analysis} />
+    <div className="flex justify-between text-[9px] font-mono text-gray-600 mt-1 mb-4">
+      <span>-{RANGE_PERCENT}%</span>
+      <span>{analysis.mid.toFixed(2)}</span>
+      <span>+{RANGE_PERCENT}%</span>
+    </div>
+
+    <div className="grid grid-cols-2 gap-2 mb-4 text-[10px] font-mono">
+      <div className="p-2 rounded-lg bg-gray-800/20">
+        <p className="text-gray-500 font-black uppercase">价差</p>
+        <p className="text-gray-300">{analysis.spread.toFixed(2)} ({analysis.spreadBps.toFixed(2)} bps)</p>
+      </div>
+      <div className="p-2 rounded-lg bg-gray-800/20">
+        <p className="text-gray-500 font-black uppercase">微观价格</p>
+        <p className={analysis.microprice >= analysis.mid ? 'text-green-500' : 'text-red-500'}>{analysis.microprice.toFixed(2)}</p>
+      </div>
+    </div>
+
+    <div className="space-y-2 mb-4">
+      {analysis.bands.map(band => (
+        <div key={band.percent} className="flex items-center gap-3 text-[10px] font-black">
+          <span className="w-12 text-gray-500">±{band.percent}%</span>
+          <div className="flex-grow flex h-1.5 rounded-full overflow-hidden bg-gray-800">
+            <div className="bg-green-500/80" style={{ width: `${(band.imbalance + 1) * 50}%` }}></div>
+            <div className="bg-red-500/80 flex-grow"></div>
+          </div>
+          <span className={`w-14 text-right font-mono ${band.imbalance >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+            {band.imbalance >= 0 ? '+' : ''}{(band.imbalance * 100).toFixed(1)}%{!band.complete && '*'}
+          </span>
+        </div>
+      ))}
+    </div>
+
+    {analysis.walls.length > 0 && (
+      <div className="space-y-1">
+        <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2">挂单墙</p>
+        {analysis.walls.map(w => (
+          <div key={`${w.side}-${w.price}`} className="flex justify-between text-[10px] font-mono">
+            <span className={w.side === 'bid' ? 'text-green-500' : 'text-red-500'}>{w.side === 'bid' ? '买' : '卖'} {w.price.toFixed(2)}</span>
+            <span className="text-gray-500">{w.size.toFixed(1)} ({w.multiple.toFixed(1)}x) {w.distancePercent >= 0 ? '+' : ''}{w.distancePercent.toFixed(2)}%</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </section>
+);
+
+export default OrderBookPanel;
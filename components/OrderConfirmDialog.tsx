@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { AIAnalysis, ExchangePosition, ExecutionConfig, LogCallback } from '../types';
+import { buildOrderPlan, executeOrder, fetchExchangePositions, getOrderBlockers } from '../services/executionService';
+
+// 每一笔委托都必须经过这里由用户确认后才会发送
+const OrderConfirmDialog: React.FC<{
+  analysis: AIAnalysis;
+  symbol: string;
+  price: number;
+  execution: ExecutionConfig;
+  addLog: LogCallback;
+  onClose: () => void;
+}> = ({ analysis, symbol, price, execution, addLog, onClose }) => {
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ ordId: string | null; positions: ExchangePosition[] | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 打开时定格信号与委托，之后的扫描或价格变化不会改变用户确认的内容
+  const [order] = useState(() => ({ analysis, ...buildOrderPlan(analysis, symbol, price, execution) }));
+  const { plan, reason } = order;
+  const blockers = plan ? getOrderBlockers(plan, order.analysis, execution) : [reason!];
+
+  const confirm = async () => {
+    if (!plan) return;
+    setSending(true);
+    setError(null);
+    try {
+      const ordId = await executeOrder(plan, order.analysis, execution, addLog);
+      // 下单后回读持仓，确认交易所侧的实际状态
+      const positions = execution.dryRun ? null : await fetchExchangePositions(execution, addLog).catch((err: any) => {
+        addLog(`[Exec] 读取持仓失败: ${err.message}`, 'WARN');
+        return null;
+      });
+      setResult({ ordId, positions });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const rows = plan ? [
+    ['合约', plan.instId],
+    ['方向', `${plan.side === 'buy' ? '买入开多' : '卖出开空'} · ${plan.ordType === 'market' ? '市价' : `限价 ${plan.price}`}`],
+    ['数量', `${plan.contracts} 张 (名义 ${plan.notional.toFixed(2)} U)`],
+    ['杠杆', `${plan.leverage}x ${plan.marginMode === 'isolated' ? '逐仓' : '全仓'}`],
+    ['止盈', plan.takeProfits.map(tp => `${tp.price} (${tp.sizePercent}%)`).join(' / ')],
+    ['止损', `${plan.stopLoss}`],
+    ['环境', `${execution.demoTrading ? '模拟盘' : '实盘'}${execution.dryRun ? ' · DRY-RUN 不发送' : ''}`]
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-lg p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <AlertTriangle size={14} className="text-yellow-400" /> 确认下单 CONFIRM ORDER
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4 space-y-2 mb-4">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between text-[11px] font-mono">
+                <span className="text-gray-500">{label}</span>
+                <span className="text-white font-bold">{value}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {blockers.length > 0 && (
+          <ul className="mb-4 space-y-1">
+            {blockers.map(b => <li key={b} className="text-[11px] font-bold text-red-400">✕ {b}</li>)}
+          </ul>
+        )}
+        {error && <p className="mb-4 text-[11px] font-bold text-red-400 break-all">{error}</p>}
+
+        {result ? (
+          <div className="space-y-2 text-[11px] font-mono">
+            <p className="text-green-500 font-bold">{result.ordId ? `已提交，订单号 ${result.ordId}` : 'DRY-RUN 完成，请求已写入系统日志'}</p>
+            {result.positions?.map(p => (
+              <p key={`${p.instId}-${p.side}`} className="text-gray-400">
+                {p.instId} {p.side} {p.contracts} 张 @ {p.avgPrice} · 浮盈 {p.unrealizedPnl.toFixed(2)} · 强平 {p.liquidationPrice ?? '-'}
+              </p>
+            ))}
+            <button onClick={onClose} className="w-full mt-4 py-3 rounded-xl text-xs font-black border border-gray-800 text-gray-300 hover:border-gray-600 transition-all">关闭</button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={onClose} className="py-3 rounded-xl text-xs font-black border border-gray-800 text-gray-400 hover:border-gray-600 transition-all">取消</button>
+            <button
+              onClick={confirm}
+              disabled={sending || blockers.length > 0}
+              className="py-3 rounded-xl text-xs font-black bg-yellow-400 text-black hover:bg-yellow-300 disabled:opacity-40 transition-all"
+            >{sending ? '发送中...' : execution.dryRun ? '确认 (DRY-RUN)' : '确认下单'}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderConfirmDialog;
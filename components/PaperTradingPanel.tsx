@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Wallet, X, RotateCcw } from 'lucide-react';
+import { PaperAccount, PaperTrade } from '../types';
+import { createPaperAccount, getAccountEquity, positionMargin, unrealizedPnl, closePaperPosition } from '../services/paperTradingService';
+import { formatSymbol } from '../services/marketService';
+
+const EXIT_STYLES: Record<PaperTrade['exitReason'], string> = {
+  TP: 'text-green-500 bg-green-500/10 border-green-500/20',
+  SL: 'text-red-500 bg-red-500/10 border-red-500/20',
+  EXPIRED: 'text-gray-400 bg-gray-500/10 border-gray-500/20',
+  MANUAL: 'text-yellow-400 bg-yellow-400/10 border-yellow-400/20'
+};
+
+const pnlClass = (value: number) => value >= 0 ? 'text-green-500' : 'text-red-500';
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// 模拟盘只在浏览器本地扫描时撮合，状态保存在 localStorage
+const PaperTradingPanel: React.FC<{
+  account: PaperAccount;
+  onChange: (account: PaperAccount) => void;
+  onClose: () => void;
+}> = ({ account, onChange, onClose }) => {
+  const [initialEquity, setInitialEquity] = useState(account.initialEquity);
+
+  const equity = getAccountEquity(account);
+  const unrealized = account.positions.reduce((acc, p) => acc + unrealizedPnl(p), 0);
+  const realized = account.trades.reduce((acc, t) => acc + t.pnl, 0);
+  const wins = account.trades.filter(t => t.pnl > 0).length;
+
+  const reset = () => {
+    if (!window.confirm('清空所有模拟仓位与成交记录并重置余额？')) return;
+    onChange({ ...createPaperAccount(initialEquity), enabled: account.enabled, makerFee: account.makerFee, takerFee: account.takerFee });
+  };
+
+  const stats = [
+    { label: '账户权益', value: equity.toFixed(2), className: 'text-white' },
+    { label: '已实现盈亏', value: signed(realized), className: pnlClass(realized) },
+    { label: '浮动盈亏', value: signed(unrealized), className: pnlClass(unrealized) },
+    { label: '收益率', value: `${signed((equity / account.initialEquity - 1) * 100)}%`, className: pnlClass(equity - account.initialEquity) },
+    { label: '胜率', value: account.trades.length > 0 ? `${(wins / account.trades.length * 100).toFixed(1)}%` : '-', className: 'text-white' }
+  ];
+
+  const inputClass = "bg-[#0b0e11] border border-gray-800 rounded-xl px-3 py-2 text-xs font-mono text-white focus:border-yellow-400 outline-none w-28";
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <Wallet size={14} className="text-yellow-400" /> 模拟交易 PAPER TRADING
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 items-end mb-6">
+          <button
+            onClick={() => onChange({ ...account, enabled: !account.enabled })}
+            className={`px-4 py-2 rounded-xl text-[10px] font-black border transition-all ${
+              account.enabled ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-transparent text-gray-500 border-gray-800'
+            }`}
+          >{account.enabled ? '跟随信号 ON' : '跟随信号 OFF'}</button>
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">Maker 费率</span>
+            <input type="number" min={0} step={0.0001} value={account.makerFee} onChange={(e) => onChange({ ...account, makerFee: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">Taker 费率</span>
+            <input type="number" min={0} step={0.0001} value={account.takerFee} onChange={(e) => onChange({ ...account, takerFee: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">初始资金 (USDT)</span>
+            <input type="number" min={1} step={100} value={initialEquity} onChange={(e) => setInitialEquity(Math.max(1, Number(e.target.value)))} className={inputClass} />
+          </label>
+          <button
+            onClick={reset}
+            className="flex items-center gap-2 bg-[#0b0e11] border border-gray-800 hover:border-red-500 px-4 py-2 rounded-xl text-[10px] font-black text-gray-300 transition-all uppercase"
+          >
+            <RotateCcw size={14} /> 重置账户
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          {stats.map(s => (
+            <div key={s.label} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4">
+              <p className="text-[9px] font-black text-gray-500 uppercase mb-2">{s.label}</p>
+              <p className={`text-sm font-black font-mono ${s.className}`}>{s.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">当前持仓 ({account.positions.length})</p>
+        <div className="bg-[#0b0e11] rounded-2xl border border-gray-800 mb-6 overflow-x-auto">
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-gray-500 uppercase">
+              <tr>
+                <th className="text-left p-3">合约</th>
+                <th className="text-left p-3">方向</th>
+                <th className="text-right p-3">数量</th>
+                <th className="text-right p-3">开仓价</th>
+                <th className="text-right p-3">标记价</th>
+                <th className="text-right p-3">TP / SL</th>
+                <th className="text-right p-3">保证金</th>
+                <th className="text-right p-3">资金费</th>
+                <th className="text-right p-3">浮动盈亏</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.positions.map(p => (
+                <tr key={p.id} className="border-t border-gray-800/50">
+                  <td className="p-3 text-white font-bold">{formatSymbol(p.symbol)}</td>
+                  <td className={`p-3 font-black ${p.side === 'LONG' ? 'text-green-500' : 'text-red-500'}`}>{p.side}{p.status === 'PENDING' ? ' · 挂单' : ''}</td>
+                  <td className="p-3 text-right text-gray-400">{p.size}</td>
+                  <td className="p-3 text-right text-gray-400">{(p.entryPrice ?? p.levels.entry).toFixed(2)}</td>
+                  <td className="p-3 text-right text-gray-400">{p.markPrice.toFixed(2)}</td>
+                  <td className="p-3 text-right text-gray-400">{p.levels.tp.toFixed(2)} / {p.levels.sl.toFixed(2)}</td>
+                  <td className="p-3 text-right text-gray-400">{positionMargin(p).toFixed(2)}</td>
+                  <td className="p-3 text-right text-gray-400">{p.funding.toFixed(4)}</td>
+                  <td className={`p-3 text-right font-bold ${pnlClass(unrealizedPnl(p))}`}>{signed(unrealizedPnl(p))}</td>
+                  <td className="p-3 text-right">
+                    <button onClick={() => onChange(closePaperPosition(account, p.id))} className="text-gray-500 hover:text-red-400 transition-colors font-black">
+                      {p.status === 'PENDING' ? '撤单' : '平仓'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {account.positions.length === 0 && <div className="p-6 text-center text-gray-600 text-[10px] italic">暂无持仓</div>}
+        </div>
+
+        <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">成交记录 ({account.trades.length})</p>
+        <div className="space-y-2">
+          {account.trades.map(t => (
+            <div key={t.id} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4 flex flex-wrap items-center gap-4 text-[10px] font-mono">
+              <span className={`px-2 py-0.5 rounded border font-black ${EXIT_STYLES[t.exitReason]}`}>{t.exitReason}</span>
+              <span className="text-gray-500">{new Date(t.exitTime).toLocaleString()}</span>
+              <span className="text-white font-bold">{formatSymbol(t.symbol)}</span>
+              <span className={`font-black ${t.side === 'LONG' ? 'text-green-500' : 'text-red-500'}`}>{t.side} {t.leverage}x</span>
+              <span className="text-gray-400">{t.entryPrice.toFixed(2)} → {t.exitPrice.toFixed(2)}</span>
+              <span className="text-gray-600">费用 {t.fees.toFixed(2)} · 资金费 {t.funding.toFixed(2)}</span>
+              <span className={`font-bold ml-auto ${pnlClass(t.pnl)}`}>{signed(t.pnl)} U</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaperTradingPanel;
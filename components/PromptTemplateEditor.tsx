@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ChevronRight, Copy, Trash2 } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { BUILTIN_PROMPT_TEMPLATES, resolveTemplate } from '../services/promptBuilder';
+
+const inputClass = "w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-2 px-3 text-xs focus:border-yellow-400 outline-none text-white font-mono";
+
+// 内置模板只读；自定义模板以版本号区分，信号日志按版本统计命中率
+const PromptTemplateEditor: React.FC<{
+  templates: PromptTemplate[];
+  version: string;
+  onChange: (templates: PromptTemplate[], version: string) => void;
+}> = ({ templates, version, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [newVersion, setNewVersion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const all = [...BUILTIN_PROMPT_TEMPLATES, ...templates];
+  const current = resolveTemplate(templates, version);
+  const isBuiltin = BUILTIN_PROMPT_TEMPLATES.some(t => t.version === current.version);
+
+  const updateCurrent = (patch: Partial<PromptTemplate>) => {
+    onChange(templates.map(t => t.version === current.version ? { ...t, ...patch } : t), version);
+  };
+
+  const cloneCurrent = () => {
+    const name = newVersion.trim();
+    if (!name) {
+      setError('请填写新版本号');
+      return;
+    }
+    if (all.some(t => t.version === name)) {
+      setError(`版本 ${name} 已存在`);
+      return;
+    }
+    setError(null);
+    setNewVersion('');
+    onChange([...templates, { ...current, version: name, description: `基于 ${current.version}` }], name);
+  };
+
+  const removeCurrent = () => {
+    onChange(templates.filter(t => t.version !== current.version), BUILTIN_PROMPT_TEMPLATES[0].version);
+  };
+
+  return (
+    <div>
+      <label className="block text-[10px] font-black text-gray-500 uppercase mb-3 tracking-widest">提示词模板 PROMPT</label>
+      <select
+        value={current.version}
+        onChange={(e) => onChange(templates, e.target.value)}
+        className={`${inputClass} py-3`}
+      >
+        {all.map(t => <option key={t.version} value={t.version}>{t.version}{BUILTIN_PROMPT_TEMPLATES.includes(t) ? ' (内置)' : ''}</option>)}
+      </select>
+      <p className="text-[10px] text-gray-500 mt-2">{current.description}</p>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex justify-between items-center mt-3 text-[10px] font-black text-gray-500 uppercase tracking-widest hover:text-gray-300 transition-colors"
+      >
+        编辑模板
+        <ChevronRight className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+      </button>
+      {expanded && (
+        <div className="space-y-3 mt-3 animate-in zoom-in-95 duration-200">
+          <p className="text-[10px] text-gray-600">
+            占位符: {'{{pair}}'} {'{{symbol}}'} {'{{market}}'}。{isBuiltin ? '内置模板只读，请新建版本后修改。' : '已产生信号的模板建议新建版本再修改，以免统计混淆。'}
+          </p>
+          {!isBuiltin && (
+            <div className="grid grid-cols-3 gap-2">
+              <label className="col-span-2 block">
+                <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">说明</span>
+                <input type="text" value={current.description} onChange={(e) => updateCurrent({ description: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">K 线根数</span>
+                <input
+                  type="number" min={0} value={current.recentCandles}
+                  onChange={(e) => updateCurrent({ recentCandles: Math.max(0, Math.floor(Number(e.target.value))) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          )}
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">System</span>
+            <textarea
+              rows={8} value={current.system} readOnly={isBuiltin}
+              onChange={(e) => updateCurrent({ system: e.target.value })}
+              className={`${inputClass} resize-y ${isBuiltin ? 'text-gray-500' : ''}`}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-[9px] font-bold text-gray-600 uppercase mb-1">User</span>
+            <textarea
+              rows={3} value={current.user} readOnly={isBuiltin}
+              onChange={(e) => updateCurrent({ user: e.target.value })}
+              className={`${inputClass} resize-y ${isBuiltin ? 'text-gray-500' : ''}`}
+            />
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text" value={newVersion} placeholder="新版本号 (如 compact-v2)"
+              onChange={(e) => setNewVersion(e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={cloneCurrent} className="flex items-center gap-1.5 px-3 rounded-xl bg-gray-800/80 text-[10px] font-black text-gray-400 hover:text-white transition-colors">
+              <Copy className="w-3 h-3" /> 新建版本
+            </button>
+            {!isBuiltin && (
+              <button onClick={removeCurrent} className="px-3 rounded-xl bg-gray-800/80 text-gray-400 hover:text-red-400 transition-colors">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ShieldAlert, Scale } from 'lucide-react';
+import { RiskAssessment } from '../types';
+import { RISK_VIOLATION_LABELS } from '../services/riskService';
+import { formatDistance } from '../services/strategyService';
+
+const RiskPanel: React.FC<{ risk: RiskAssessment; price: number }> = ({ risk, price }) => {
+  const items = [
+    { label: '仓位', value: `${risk.contracts} 张` },
+    { label: '名义价值', value: `${risk.notional.toFixed(2)} U` },
+    { label: '保证金', value: `${risk.margin.toFixed(2)} U` },
+    { label: '止损亏损', value: `${risk.lossAtStop.toFixed(2)} U`, sub: `${risk.riskPercent.toFixed(2)}% 权益` },
+    { label: '预估强平', value: risk.liquidationPrice.toFixed(2), sub: formatDistance(risk.liquidationPrice, price) }
+  ];
+
+  return (
+    <div className={`bg-[#1e2329] rounded-[32px] border shadow-2xl p-8 ${risk.blocked ? 'border-red-500/40' : 'border-gray-800'}`}>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Scale size={14} className="text-yellow-400" /> 仓位与风控 RISK
+        </h3>
+        <span className={`text-[10px] font-black px-2 py-0.5 rounded-full border uppercase ${
+          risk.blocked ? 'text-red-500 bg-red-500/10 border-red-500/20'
+            : risk.violations.length > 0 ? 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20'
+            : 'text-green-500 bg-green-500/10 border-green-500/20'
+        }`}>
+          {risk.blocked ? '已拦截 · 不推送' : risk.violations.length > 0 ? '风控警告' : '通过'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {items.map(item => (
+          <div key={item.label} className="bg-[#0b0e11] rounded-2xl border border-gray-800 p-4">
+            <p className="text-[9px] font-black text-gray-500 uppercase mb-2">{item.label}</p>
+            <p className="text-sm font-black font-mono text-white">{item.value}</p>
+            {item.sub && <p className="text-[10px] font-bold font-mono text-gray-500 mt-1">{item.sub}</p>}
+          </div>
+        ))}
+      </div>
+
+      {risk.violations.length > 0 && (
+        <ul className="mt-6 space-y-1">
+          {risk.violations.map(v => (
+            <li key={v} className={`flex items-center gap-2 text-[11px] font-bold ${risk.blocked ? 'text-red-400' : 'text-yellow-500'}`}>
+              <ShieldAlert size={12} /> {RISK_VIOLATION_LABELS[v]}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RiskPanel;
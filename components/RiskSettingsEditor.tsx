@@ -0,0 +1,45 @@
+import React from 'react';
+import { RiskConfig } from '../types';
+
+const FIELDS: { key: Exclude<keyof RiskConfig, 'blockViolations'>; label: string; step: number }[] = [
+  { key: 'accountEquity', label: '账户权益 (USDT)', step: 100 },
+  { key: 'maxRiskPercent', label: '单笔风险 %', step: 0.1 },
+  { key: 'maxLeverage', label: '最大杠杆', step: 1 },
+  { key: 'contractMultiplier', label: '默认合约面值 (币/张，无合约规格时使用)', step: 0.01 }
+];
+
+// 修改后从下一轮扫描开始生效
+const RiskSettingsEditor: React.FC<{
+  risk: RiskConfig;
+  onChange: (risk: RiskConfig) => void;
+}> = ({ risk, onChange }) => (
+  <div>
+    <div className="flex justify-between items-center mb-3">
+      <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">仓位风控 RISK</label>
+      <button
+        onClick={() => onChange({ ...risk, blockViolations: !risk.blockViolations })}
+        className={`px-3 py-1 rounded-lg text-[10px] font-black border transition-all ${
+          risk.blockViolations ? 'bg-red-500/10 text-red-500 border-red-500/20' : 'bg-transparent text-gray-500 border-gray-800'
+        }`}
+      >{risk.blockViolations ? '违规拦截 BLOCK' : '仅标记 FLAG'}</button>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      {FIELDS.map(field => (
+        <label key={field.key} className="block">
+          <span className="block text-[9px] font-bold text-gray-600 mb-1 truncate">{field.label}</span>
+          <input
+            type="number" min={field.step} step={field.step} value={risk[field.key]}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!(value > 0)) return;
+              onChange({ ...risk, [field.key]: value });
+            }}
+            className="w-full bg-[#0b0e11] border border-gray-800 rounded-lg py-2 px-2 text-xs focus:border-yellow-400 outline-none text-white font-mono"
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export default RiskSettingsEditor;
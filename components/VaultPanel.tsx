@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { KeyRound, X } from 'lucide-react';
+import { AppSettings, LogCallback, SettingsBackup, VaultStatus } from '../types';
+import { createBackup, MIN_PASSPHRASE_LENGTH } from '../services/vaultService';
+
+const inputClass = "w-full bg-[#0b0e11] border border-gray-800 rounded-xl py-3 px-4 text-sm focus:border-yellow-400 outline-none text-white font-mono";
+const primaryClass = "w-full py-3 rounded-xl text-xs font-black bg-yellow-400 text-black hover:bg-yellow-300 disabled:opacity-40 transition-all";
+const secondaryClass = "w-full py-3 rounded-xl text-xs font-black border border-gray-800 text-gray-300 hover:border-gray-600 disabled:opacity-40 transition-all";
+
+// 口令只在本次操作中使用，不做保存
+const VaultPanel: React.FC<{
+  status: VaultStatus;
+  settings: AppSettings;
+  pendingBackup: SettingsBackup | null;
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onReset: () => void;
+  onRestoreBackup: (passphrase: string) => Promise<void>;
+  onCancelBackup: () => void;
+  addLog: LogCallback;
+  onClose: () => void;
+}> = ({ status, settings, pendingBackup, onCreate, onUnlock, onChangePassphrase, onLock, onReset, onRestoreBackup, onCancelBackup, addLog, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // PBKDF2 派生需要数百毫秒，期间禁用按钮
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      setBackupPassphrase('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkNewPassphrase = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`口令至少 ${MIN_PASSPHRASE_LENGTH} 位`);
+    if (passphrase !== confirmation) throw new Error('两次输入的口令不一致');
+  };
+
+  const exportBackup = () => run(async () => {
+    const backup = await createBackup(settings, backupPassphrase);
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(backup));
+    const anchor = document.createElement('a');
+    anchor.setAttribute("href", dataStr);
+    anchor.setAttribute("download", "config.backup.json");
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    addLog('[Vault] 加密完整备份导出成功', 'SUCCESS');
+  });
+
+  const newPassphraseInputs = (
+    <>
+      <input type="password" value={passphrase} placeholder={`新口令 (至少 ${MIN_PASSPHRASE_LENGTH} 位)`} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} />
+      <input type="password" value={confirmation} placeholder="再次输入口令" onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e2329] rounded-[32px] border border-gray-800 shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+            <KeyRound size={14} className="text-yellow-400" /> 密钥保险库 VAULT
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        {pendingBackup ? (
+          <div className="space-y-3">
+            <p className="text-[11px] text-gray-400">导入的文件是加密完整备份，请输入导出时设置的备份口令。</p>
+            <input type="password" value={backupPassphrase} placeholder="备份口令" onChange={(e) => setBackupPassphrase(e.target.value)} className={inputClass} />
+            <button onClick={() => run(() => onRestoreBackup(backupPassphrase))} disabled={busy || !backupPassphrase} className={primaryClass}>恢复备份</button>
+            <button onClick={onCancelBackup} disabled={busy} className={secondaryClass}>取消导入</button>
+          </div>
+        ) : status === 'NONE' ? (
+          <div className="space-y-3">
+            <p className="text-[11px] text-gray-400">当前 API Key、Webhook 等密钥以明文保存在浏览器中。设置口令后密钥将用 AES-GCM 加密保存，每次打开页面需要输入口令解锁。</p>
+            {newPassphraseInputs}
+            <button onClick={() => run(async () => { checkNewPassphrase(); await onCreate(passphrase); })} disabled={busy} className={primaryClass}>启用加密</button>
+          </div>
+        ) : status === 'LOCKED' ? (
+          <div className="space-y-3">
+            <p className="text-[11px] text-gray-400">密钥已加密保存，解锁后本次会话才能调用模型、推送与下单。</p>
+            <input
+              type="password" value={passphrase} placeholder="口令" autoFocus
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && passphrase && !busy && run(() => onUnlock(passphrase))}
+              className={inputClass}
+            />
+            <button onClick={() => run(() => onUnlock(passphrase))} disabled={busy || !passphrase} className={primaryClass}>解锁</button>
+            <button
+              onClick={() => window.confirm('清除后所有已加密的密钥将无法恢复，确定继续？') && onReset()}
+              disabled={busy}
+              className="w-full text-[10px] font-black text-gray-600 hover:text-red-400 transition-colors"
+            >忘记口令？清除保险库</button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <button onClick={onLock} className={secondaryClass}>立即锁定</button>
+            <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest pt-3">修改口令</p>
+            {newPassphraseInputs}
+            <button onClick={() => run(async () => { checkNewPassphrase(); await onChangePassphrase(passphrase); })} disabled={busy} className={secondaryClass}>更新口令</button>
+          </div>
+        )}
+
+        {status !== 'LOCKED' && !pendingBackup && (
+          <div className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+            <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">加密完整备份</p>
+            <p className="text-[10px] text-gray-600">普通导出会去除所有密钥；完整备份包含密钥，使用单独的备份口令加密。</p>
+            <input type="password" value={backupPassphrase} placeholder={`备份口令 (至少 ${MIN_PASSPHRASE_LENGTH} 位)`} onChange={(e) => setBackupPassphrase(e.target.value)} className={inputClass} />
+            <button onClick={exportBackup} disabled={busy || !backupPassphrase} className={secondaryClass}>导出加密备份</button>
+          </div>
+        )}
+
+        {busy && <p className="mt-4 text-[10px] text-gray-500">正在派生密钥...</p>}
+        {error && <p className="mt-4 text-[11px] font-bold text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default VaultPanel;
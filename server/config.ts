@@ -0,0 +1,97 @@
+import { randomBytes } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { AIModelType, AppSettings, ExchangeType } from '../types';
+import { formatSettingsIssues, parseSettings } from '../services/settingsService';
+import { applySecrets, isBackup, openBackup } from '../services/vaultService';
+
+export interface DaemonConfig {
+  settings: AppSettings;
+  configPath: string | null;
+  host: string;
+  port: number;
+  // HTTP API 需要携带 Authorization: Bearer <token>；未设置 PULSE_API_TOKEN 时每次启动随机生成
+  apiToken: string;
+  apiTokenGenerated: boolean;
+  // 连续失败时的退避上限
+  maxBackoffMs: number;
+}
+
+const DEFAULT_CONFIG_PATH = 'pulse.config.json';
+const DEFAULT_PORT = 8787;
+
+// 环境变量中的 API Key 覆盖配置文件，便于不把密钥写进文件
+const ENV_KEYS: Partial<Record<AIModelType, string>> = {
+  [AIModelType.GEMINI]: 'GEMINI_API_KEY',
+  [AIModelType.OPENAI]: 'OPENAI_API_KEY',
+  [AIModelType.POE]: 'POE_API_KEY',
+  [AIModelType.ANTHROPIC]: 'ANTHROPIC_API_KEY'
+};
+
+const argValue = (argv: string[], name: string): string | undefined => {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+};
+
+const readJson = async (path: string, required: boolean): Promise<any> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (e: any) {
+    if (e.code === 'ENOENT' && !required) return null;
+    throw new Error(`读取配置文件 ${path} 失败: ${e.message}`);
+  }
+};
+
+const validate = (raw: unknown, source: string): AppSettings => {
+  const { settings, issues } = parseSettings(raw);
+  if (issues.length > 0) throw new Error(`${source} 校验失败:\n${formatSettingsIssues(issues).map(line => `  - ${line}`).join('\n')}`);
+  return settings;
+};
+
+// 仪表盘的加密完整备份需要用 PULSE_PASSPHRASE 解密；普通导出不含密钥，需通过环境变量提供
+const readSettings = async (raw: any, configPath: string, env: NodeJS.ProcessEnv) => {
+  // 没有配置文件时全部使用默认值与环境变量
+  if (raw === null) return validate({}, '默认配置');
+  if (!isBackup(raw)) return validate(raw, `配置文件 ${configPath}`);
+  if (!env.PULSE_PASSPHRASE) throw new Error('配置文件是加密备份，请设置 PULSE_PASSPHRASE');
+  const { settings, secrets } = await openBackup(raw, env.PULSE_PASSPHRASE);
+  return applySecrets(validate(settings, `备份 ${configPath} 中的配置`), secrets);
+};
+
+// 配置文件与仪表盘 "导出配置" 的 JSON 格式相同；--config 或 PULSE_CONFIG 指定路径
+export const loadDaemonConfig = async (argv: string[], env: NodeJS.ProcessEnv): Promise<DaemonConfig> => {
+  const explicitPath = argValue(argv, '--config') ?? env.PULSE_CONFIG;
+  const configPath = explicitPath ?? DEFAULT_CONFIG_PATH;
+  const raw = await readJson(configPath, explicitPath !== undefined);
+  const settings = await readSettings(raw, configPath, env);
+
+  if (env.PULSE_WATCHLIST) settings.watchlist = env.PULSE_WATCHLIST.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  if (env.PULSE_INTERVAL_MINUTES) settings.refreshInterval = Number(env.PULSE_INTERVAL_MINUTES);
+  if (env.PULSE_EXCHANGE) {
+    if (!Object.values(ExchangeType).includes(env.PULSE_EXCHANGE as ExchangeType)) throw new Error(`未知的交易所: ${env.PULSE_EXCHANGE}`);
+    settings.exchange = env.PULSE_EXCHANGE as ExchangeType;
+  }
+  if (env.PULSE_AI_MODEL) {
+    if (!Object.values(AIModelType).includes(env.PULSE_AI_MODEL as AIModelType)) throw new Error(`未知的模型: ${env.PULSE_AI_MODEL}`);
+    settings.aiModel = env.PULSE_AI_MODEL as AIModelType;
+  }
+  if (env.PULSE_CONSENSUS) settings.consensusMode = env.PULSE_CONSENSUS === 'true';
+  Object.entries(ENV_KEYS).forEach(([model, key]) => {
+    const value = env[key];
+    if (value) settings.aiProviders = { ...settings.aiProviders, [model]: { ...settings.aiProviders[model as AIModelType], apiKey: value } };
+  });
+  // 后台服务只使用 REST 轮询
+  settings.dataMode = 'REST';
+
+  // 环境变量覆盖后再按同一套规则校验一次
+  const finalSettings = validate(settings, '环境变量覆盖后的配置');
+
+  return {
+    settings: finalSettings,
+    configPath: raw ? configPath : null,
+    host: env.PULSE_HOST ?? '127.0.0.1',
+    port: Number(env.PULSE_PORT ?? env.PORT ?? DEFAULT_PORT),
+    apiToken: env.PULSE_API_TOKEN || randomBytes(24).toString('hex'),
+    apiTokenGenerated: !env.PULSE_API_TOKEN,
+    maxBackoffMs: Number(env.PULSE_MAX_BACKOFF_MS ?? finalSettings.refreshInterval * 60 * 1000)
+  };
+};
@@ -0,0 +1,172 @@
+import {
+  AlertEvent, AlertRuleMemory, AppSettings, DaemonLog, DaemonStatus, DaemonSymbolResult, LogCallback
+} from '../types';
+import { scanSymbol } from '../services/scanService';
+import { dispatchAlert, evaluateAlerts } from '../services/alertService';
+import { isAbortError } from '../services/abort';
+
+export interface DaemonOptions {
+  settings: AppSettings;
+  maxBackoffMs: number;
+}
+
+const MAX_LOGS = 500;
+const MAX_ALERTS = 100;
+const BASE_BACKOFF_MS = 30 * 1000;
+
+const LOG_PRINTERS: Record<DaemonLog['level'], (line: string) => void> = {
+  INFO: console.log,
+  SUCCESS: console.log,
+  WARN: console.warn,
+  ERROR: console.error
+};
+
+// 后台扫描循环：按 refreshInterval 依次扫描监控列表，整轮失败时按指数退避重试
+export const createDaemon = ({ settings, maxBackoffMs }: DaemonOptions) => {
+  const intervalMs = settings.refreshInterval * 60 * 1000;
+  const startedAt = Date.now();
+  const logs: DaemonLog[] = [];
+  const alerts: AlertEvent[] = [];
+  const results: Record<string, DaemonSymbolResult> = {};
+  let alertMemory: Record<string, AlertRuleMemory> = {};
+  let seq = 0;
+  let running = false;
+  let current: { controller: AbortController; done: Promise<void> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastScanAt: number | null = null;
+  let nextScanAt: number | null = null;
+  let consecutiveFailures = 0;
+
+  const addLog: LogCallback = (message, level = 'INFO') => {
+    const entry: DaemonLog = { seq: ++seq, timestamp: Date.now(), level, message };
+    logs.push(entry);
+    if (logs.length > MAX_LOGS) logs.shift();
+    LOG_PRINTERS[level](`${new Date(entry.timestamp).toISOString()} [${level}] ${message}`);
+  };
+
+  const runAlerts = (data: DaemonSymbolResult['data']) => {
+    if (settings.alertRules.length === 0) return;
+    const result = evaluateAlerts(settings.alertRules, data, alertMemory);
+    alertMemory = result.memory;
+    result.events.forEach(event => {
+      alerts.unshift(event);
+      if (alerts.length > MAX_ALERTS) alerts.pop();
+      // 后台服务没有浏览器通知，BROWSER 渠道只会写日志
+      dispatchAlert(event, settings.notifiers, addLog);
+    });
+  };
+
+  // 单个合约失败不中断本轮；返回失败的合约数
+  const scanAll = async (signal: AbortSignal): Promise<number> => {
+    let failures = 0;
+    for (const symbol of settings.watchlist) {
+      if (signal.aborted) break;
+      try {
+        const { data, analysis } = await scanSymbol(symbol, settings, {
+          addLog,
+          signal,
+          onMarketData: data => {
+            results[symbol] = { data, analysis: results[symbol]?.analysis ?? null, updatedAt: Date.now(), error: null };
+            runAlerts(data);
+          }
+        });
+        results[symbol] = { data, analysis, updatedAt: Date.now(), error: null };
+      } catch (e: any) {
+        if (isAbortError(e)) break;
+        failures++;
+        addLog(`${symbol} 扫描失败: ${e.message}`, 'ERROR');
+        if (results[symbol]) results[symbol] = { ...results[symbol], error: e.message };
+      }
+    }
+    return failures;
+  };
+
+  const schedule = (delay: number) => {
+    if (!running) return;
+    if (timer) clearTimeout(timer);
+    nextScanAt = Date.now() + delay;
+    timer = setTimeout(() => { timer = null; runCycle(); }, delay);
+  };
+
+  const runCycle = async () => {
+    if (current || !running) return;
+    const controller = new AbortController();
+    let finish!: () => void;
+    current = { controller, done: new Promise(resolve => { finish = resolve; }) };
+    nextScanAt = null;
+    addLog(`开始扫描 ${settings.watchlist.join(', ')}`);
+
+    const failures = await scanAll(controller.signal);
+    lastScanAt = Date.now();
+    current = null;
+    finish();
+    if (controller.signal.aborted) return;
+
+    // 整轮全部失败才视为故障 (网络或 Key 失效)，部分失败按正常间隔继续
+    if (failures === settings.watchlist.length) {
+      consecutiveFailures++;
+      const delay = Math.min(BASE_BACKOFF_MS * 2 ** (consecutiveFailures - 1), maxBackoffMs);
+      addLog(`本轮扫描全部失败 (连续 ${consecutiveFailures} 次)，${Math.round(delay / 1000)}s 后重试`, 'WARN');
+      schedule(delay);
+    } else {
+      consecutiveFailures = 0;
+      schedule(intervalMs);
+    }
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    addLog(`后台服务启动: ${settings.exchange} · ${settings.watchlist.length} 个合约 · 每 ${settings.refreshInterval} 分钟`, 'SUCCESS');
+    runCycle();
+  };
+
+  // 立即开始新一轮；正在扫描时忽略
+  const triggerScan = (): boolean => {
+    if (!running || current) return false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    runCycle();
+    return true;
+  };
+
+  // 停止调度并取消进行中的请求，等待当前一轮退出
+  const stop = async () => {
+    if (!running) return;
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    nextScanAt = null;
+    if (current) {
+      addLog('正在取消进行中的扫描...', 'WARN');
+      current.controller.abort();
+      await current.done;
+    }
+    addLog('后台服务已停止', 'WARN');
+  };
+
+  const getStatus = (): DaemonStatus => ({
+    startedAt,
+    running,
+    scanning: current !== null,
+    lastScanAt,
+    nextScanAt,
+    consecutiveFailures,
+    watchlist: settings.watchlist,
+    intervalMinutes: settings.refreshInterval,
+    exchange: settings.exchange
+  });
+
+  return {
+    start,
+    stop,
+    triggerScan,
+    getStatus,
+    getResults: () => results,
+    getAlerts: () => alerts,
+    getLogs: (since: number = 0) => logs.filter(l => l.seq > since),
+    addLog
+  };
+};
+
+export type Daemon = ReturnType<typeof createDaemon>;
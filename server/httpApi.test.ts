@@ -0,0 +1,61 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Daemon } from './daemon';
+import { createHttpApi } from './httpApi';
+
+const TOKEN = 'test-token';
+
+let server: Server | null = null;
+let scans = 0;
+
+const fakeDaemon = {
+  triggerScan: () => {
+    scans++;
+    return true;
+  },
+  getResults: () => []
+} as unknown as Daemon;
+
+const listen = async () => {
+  scans = 0;
+  server = createHttpApi({ daemon: fakeDaemon, apiToken: TOKEN });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+  if (server) await new Promise<void>(resolve => server!.close(() => resolve()));
+  server = null;
+});
+
+describe('createHttpApi', () => {
+  it('不允许关闭鉴权', () => {
+    expect(() => createHttpApi({ daemon: fakeDaemon, apiToken: '' })).toThrow('访问令牌');
+  });
+
+  it('拒绝不带令牌的跨域 POST /api/scan', async () => {
+    const baseUrl = await listen();
+    // 网页表单可发出的简单请求：不触发预检，也带不上 Authorization
+    const res = await fetch(`${baseUrl}/api/scan`, {
+      method: 'POST',
+      headers: { Origin: 'https://evil.example', 'Content-Type': 'text/plain' },
+      body: ''
+    });
+    expect(res.status).toBe(401);
+    expect(scans).toBe(0);
+  });
+
+  it('拒绝令牌错误的读取请求', async () => {
+    const baseUrl = await listen();
+    const res = await fetch(`${baseUrl}/api/results`, { headers: { Authorization: 'Bearer wrong' } });
+    expect(res.status).toBe(401);
+  });
+
+  it('携带正确令牌时允许触发扫描', async () => {
+    const baseUrl = await listen();
+    const res = await fetch(`${baseUrl}/api/scan`, { method: 'POST', headers: { Authorization: `Bearer ${TOKEN}` } });
+    expect(res.status).toBe(202);
+    expect(scans).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { Daemon } from './daemon';
+
+export interface HttpApiOptions {
+  daemon: Daemon;
+  // 所有请求都必须携带，不允许为空
+  apiToken: string;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// 仪表盘在浏览器中跨域访问，需要允许任意来源；鉴权依赖 Bearer Token，
+// 任意网页发出的简单跨域请求不带令牌，会被拒绝
+const setCors = (res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+};
+
+const isAuthorized = (req: IncomingMessage, apiToken: string) =>
+  req.headers.authorization === `Bearer ${apiToken}`;
+
+// GET /api/status | /api/results | /api/alerts | /api/logs?since=<seq>，POST /api/scan
+export const createHttpApi = ({ daemon, apiToken }: HttpApiOptions) => {
+  if (!apiToken) throw new Error('HTTP API 必须设置访问令牌');
+  return createServer((req, res) => {
+    setCors(res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (!isAuthorized(req, apiToken)) return sendJson(res, 401, { error: '未授权' });
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    switch (route) {
+      case 'GET /api/status':
+        return sendJson(res, 200, daemon.getStatus());
+      case 'GET /api/results':
+        return sendJson(res, 200, daemon.getResults());
+      case 'GET /api/alerts':
+        return sendJson(res, 200, daemon.getAlerts());
+      case 'GET /api/logs':
+        return sendJson(res, 200, daemon.getLogs(Number(url.searchParams.get('since')) || 0));
+      case 'POST /api/scan':
+        return daemon.triggerScan()
+          ? sendJson(res, 202, { started: true })
+          : sendJson(res, 409, { started: false, error: '扫描正在进行中' });
+      default:
+        return sendJson(res, 404, { error: `未知接口: ${route}` });
+    }
+  });
+};
@@ -0,0 +1,41 @@
+import { loadDaemonConfig } from './config';
+import { createDaemon } from './daemon';
+import { createHttpApi } from './httpApi';
+
+// 无界面后台服务：npm run server -- --config pulse.config.json
+const main = async () => {
+  const config = await loadDaemonConfig(process.argv.slice(2), process.env);
+  const daemon = createDaemon({ settings: config.settings, maxBackoffMs: config.maxBackoffMs });
+  daemon.addLog(config.configPath ? `已加载配置文件 ${config.configPath}` : '未找到配置文件，使用默认配置与环境变量');
+  if (config.apiTokenGenerated) {
+    // 只打印到终端，不写入可经 /api/logs 读取的日志
+    console.warn(`未设置 PULSE_API_TOKEN，本次运行的 API 令牌: ${config.apiToken}`);
+  }
+
+  const server = createHttpApi({ daemon, apiToken: config.apiToken });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, resolve);
+  });
+  daemon.addLog(`HTTP API: http://${config.host}:${config.port}/api/status`, 'SUCCESS');
+  daemon.start();
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    // 第二次信号直接退出，避免卡在未响应的请求上
+    if (stopping) process.exit(1);
+    stopping = true;
+    daemon.addLog(`收到 ${signal}，正在退出...`, 'WARN');
+    await daemon.stop();
+    server.close();
+    server.closeAllConnections();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+};
+
+main().catch(e => {
+  console.error(`[FATAL] ${e.message}`);
+  process.exit(1);
+});
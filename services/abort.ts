@@ -0,0 +1,23 @@
+// 用户主动取消与超时区分开：取消不算失败，不写错误日志
+export const createAbortError = (): Error => {
+  const error = new Error('已取消');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (e: unknown): boolean => (e as Error)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// 取消时立即返回；能接收 signal 的请求应直接传入 signal，这里只兜底不支持中断的操作
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
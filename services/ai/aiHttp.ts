@@ -0,0 +1,82 @@
+const post = (url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+const toHttpError = (response: Response, data: any, text: string) => {
+  const message = data?.error?.message ?? data?.error ?? (text.slice(0, 200) || response.statusText);
+  return new Error(`HTTP ${response.status}: ${message}`);
+};
+
+// 模型接口统一的 JSON 请求，错误信息尽量取接口返回的 message
+export const postJson = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal
+): Promise<any> => {
+  const response = await post(url, headers, body, signal);
+
+  const text = await response.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // 部分本地服务出错时返回纯文本
+  }
+  if (!response.ok || data?.error) throw toHttpError(response, data, text);
+  return data;
+};
+
+// Server-Sent Events 流式请求，逐条回调解析后的 data 字段，[DONE] 与非 JSON 行跳过
+export const postSse = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal,
+  onData: (data: any) => void
+): Promise<void> => {
+  const response = await post(url, headers, body, signal);
+  if (!response.ok || !response.body) {
+    const text = await response.text();
+    let data: any = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // 同 postJson
+    }
+    throw toHttpError(response, data, text);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    let data: any;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      return;
+    }
+    if (data?.error) throw new Error(data.error.message ?? String(data.error));
+    onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+};
+
+export const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
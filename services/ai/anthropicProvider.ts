@@ -0,0 +1,42 @@
+import { AIModelType, AIProvider } from '../../types';
+import { postJson, joinUrl } from './aiHttp';
+
+const MAX_TOKENS = 4096;
+
+export const anthropicProvider: AIProvider = {
+  id: AIModelType.ANTHROPIC,
+  name: 'Anthropic',
+  requiresKey: true,
+  defaults: {
+    apiKey: '',
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-sonnet-4-5',
+    temperature: 0.7,
+    timeoutMs: 120000,
+    maxPromptTokens: 16000
+  },
+
+  async complete(request, config, signal) {
+    const data = await postJson(
+      joinUrl(config.baseUrl, '/v1/messages'),
+      {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // 浏览器直连需要显式声明
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      {
+        model: config.model,
+        max_tokens: MAX_TOKENS,
+        temperature: config.temperature,
+        system: `${request.system}\nIMPORTANT: You must only output JSON.`,
+        messages: request.messages
+      },
+      signal
+    );
+    return (data?.content ?? [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+};
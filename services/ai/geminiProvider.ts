@@ -0,0 +1,53 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIModelType, AIProvider } from '../../types';
+
+export const geminiProvider: AIProvider = {
+  id: AIModelType.GEMINI,
+  name: 'Google Gemini',
+  requiresKey: true,
+  defaults: {
+    apiKey: '',
+    baseUrl: '',
+    model: 'gemini-3-pro-preview',
+    temperature: 0.7,
+    timeoutMs: 120000,
+    maxPromptTokens: 16000
+  },
+
+  async complete(request, config, signal, onChunk) {
+    // 未填写 Key 时沿用构建时注入的 GEMINI_API_KEY
+    const ai = new GoogleGenAI({
+      apiKey: config.apiKey || process.env.API_KEY,
+      ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {})
+    });
+    const params = {
+      model: config.model,
+      contents: request.messages.map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }]
+      })),
+      config: {
+        systemInstruction: request.system,
+        responseMimeType: "application/json",
+        temperature: config.temperature,
+        abortSignal: signal
+      }
+    };
+
+    let text = '';
+    if (onChunk) {
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        const delta = chunk.text ?? '';
+        if (!delta) continue;
+        text += delta;
+        onChunk(delta);
+      }
+    } else {
+      text = (await ai.models.generateContent(params)).text ?? '';
+    }
+
+    text = text.trim();
+    if (!text) throw new Error("AI returned empty response");
+    return text;
+  }
+};
@@ -0,0 +1,53 @@
+import { AIModelType, AIProvider, AIProviderSettings } from '../../types';
+import { geminiProvider } from './geminiProvider';
+import { anthropicProvider } from './anthropicProvider';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+const TIMEOUT_MS = 120000;
+// 本地模型推理较慢，默认给更长的超时
+const LOCAL_TIMEOUT_MS = 300000;
+const PROMPT_TOKENS = 16000;
+// 本地模型上下文通常只有 4k-8k
+const LOCAL_PROMPT_TOKENS = 4000;
+
+const PROVIDERS: Record<AIModelType, AIProvider> = {
+  [AIModelType.GEMINI]: geminiProvider,
+  [AIModelType.OPENAI]: createOpenAICompatibleProvider(AIModelType.OPENAI, 'OpenAI', {
+    apiKey: '', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o', temperature: 0.7, timeoutMs: TIMEOUT_MS, maxPromptTokens: PROMPT_TOKENS
+  }, { requiresKey: true, jsonMode: true }),
+  [AIModelType.POE]: createOpenAICompatibleProvider(AIModelType.POE, 'Poe', {
+    apiKey: '', baseUrl: 'https://api.poe.com/v1', model: 'Grok-4', temperature: 0.7, timeoutMs: TIMEOUT_MS, maxPromptTokens: PROMPT_TOKENS
+  }, { requiresKey: true, jsonMode: false }),
+  [AIModelType.ANTHROPIC]: anthropicProvider,
+  [AIModelType.OLLAMA]: createOpenAICompatibleProvider(AIModelType.OLLAMA, 'Ollama', {
+    apiKey: '', baseUrl: 'http://localhost:11434/v1', model: '', temperature: 0.7, timeoutMs: LOCAL_TIMEOUT_MS, maxPromptTokens: LOCAL_PROMPT_TOKENS
+  }, { requiresKey: false, jsonMode: true }),
+  [AIModelType.LLAMACPP]: createOpenAICompatibleProvider(AIModelType.LLAMACPP, 'llama.cpp', {
+    apiKey: '', baseUrl: 'http://localhost:8080/v1', model: '', temperature: 0.7, timeoutMs: LOCAL_TIMEOUT_MS, maxPromptTokens: LOCAL_PROMPT_TOKENS
+  }, { requiresKey: false, jsonMode: true }),
+  [AIModelType.VLLM]: createOpenAICompatibleProvider(AIModelType.VLLM, 'vLLM', {
+    apiKey: '', baseUrl: 'http://localhost:8000/v1', model: '', temperature: 0.7, timeoutMs: LOCAL_TIMEOUT_MS, maxPromptTokens: LOCAL_PROMPT_TOKENS
+  }, { requiresKey: false, jsonMode: true }),
+  [AIModelType.CUSTOM]: createOpenAICompatibleProvider(AIModelType.CUSTOM, 'OpenAI 兼容', {
+    apiKey: '', baseUrl: '', model: '', temperature: 0.7, timeoutMs: TIMEOUT_MS, maxPromptTokens: PROMPT_TOKENS
+  }, { requiresKey: false, jsonMode: false })
+};
+
+export const getAIProvider = (modelType: AIModelType): AIProvider => {
+  const provider = PROVIDERS[modelType];
+  if (!provider) throw new Error(`不支持的模型服务: ${modelType}`);
+  return provider;
+};
+
+export const DEFAULT_AI_PROVIDERS = Object.fromEntries(
+  Object.values(AIModelType).map(m => [m, PROVIDERS[m].defaults])
+) as AIProviderSettings;
+
+// Gemini 可沿用构建时注入的 Key；本地服务需填写地址与模型名才视为已配置
+export const isProviderConfigured = (modelType: AIModelType, settings: AIProviderSettings): boolean => {
+  const provider = getAIProvider(modelType);
+  const config = settings[modelType];
+  if (modelType === AIModelType.GEMINI) return !!(config.apiKey || process.env.API_KEY);
+  if (provider.requiresKey) return !!config.apiKey;
+  return !!config.baseUrl && !!config.model;
+};
@@ -0,0 +1,46 @@
+import { AIModelType, AIProvider, AIProviderConfig } from '../../types';
+import { postJson, postSse, joinUrl } from './aiHttp';
+
+interface OpenAICompatibleOptions {
+  requiresKey: boolean;
+  // 不支持 response_format 的服务改为在提示词中要求只输出 JSON
+  jsonMode: boolean;
+}
+
+export const createOpenAICompatibleProvider = (
+  id: AIModelType,
+  name: string,
+  defaults: AIProviderConfig,
+  options: OpenAICompatibleOptions
+): AIProvider => ({
+  id,
+  name,
+  requiresKey: options.requiresKey,
+  defaults,
+
+  async complete(request, config, signal, onChunk) {
+    const system = options.jsonMode ? request.system : `${request.system}\nIMPORTANT: You must only output JSON.`;
+    const url = joinUrl(config.baseUrl, '/chat/completions');
+    const headers: Record<string, string> = config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+    const body = {
+      model: config.model,
+      temperature: config.temperature,
+      messages: [{ role: 'system', content: system }, ...request.messages],
+      ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {})
+    };
+
+    if (!onChunk) {
+      const data = await postJson(url, headers, body, signal);
+      return data?.choices?.[0]?.message?.content ?? '';
+    }
+
+    let text = '';
+    await postSse(url, headers, { ...body, stream: true }, signal, data => {
+      const delta: string = data?.choices?.[0]?.delta?.content ?? '';
+      if (!delta) return;
+      text += delta;
+      onChunk(delta);
+    });
+    return text;
+  }
+});
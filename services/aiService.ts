@@ -1,134 +1,111 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { FullMarketData, AIAnalysis, AIModelType } from '../types';
+import { FullMarketData, AIAnalysis, AIModelType, AIProviderSettings, ChatMessage, LogCallback, PromptTemplate } from '../types';
+import { getAIProvider, isProviderConfigured } from './ai';
+import { parseAndValidate } from './aiValidation';
+import { buildPrompt, BuiltPrompt } from './promptBuilder';
+import { createAbortError, throwIfAborted } from './abort';
 
-const SYSTEM_PROMPT = `你是一个顶级的加密货币合约交易专家。
-你会接收到 ETH 的多周期 K 线数据（15m, 1h, 4h, 1d）、技术指标、深度数据和资金流向。
-请深入分析这些数据，给出深入的研判分析，并给我深入的合约建议。
-必须 include：
-1. 当前市场情绪 (Bullish/Bearish/Neutral)
-2. 详细的技术面分析
-3. 合约建议 (LONG/SHORT/WAIT)
-4. 杠杆倍数建议
-5. 止盈止损建议
-6. 策略时效性
+// 行情快照去掉原始盘口档位，用于信号日志的输入哈希
+export const toPromptPayload = (marketData: FullMarketData) => {
+  const { orderBook, ...rest } = marketData;
+  return rest;
+};
 
-请以结构化的 JSON 格式返回，符合以下 Schema:
-{
-  "sentiment": "Bullish" | "Bearish" | "Neutral",
-  "analysis": "string",
-  "strategy": {
-    "action": "LONG" | "SHORT" | "WAIT",
-    "leverage": "string",
-    "entry": "string",
-    "tp": "string",
-    "sl": "string",
-    "validity": "string"
-  }
-}`;
+// 上一次输出未通过校验时，把原文与错误一并发回模型要求修正
+interface RepairRequest {
+  previous: string;
+  errors: string[];
+}
 
-export const analyzeWithGemini = async (marketData: FullMarketData): Promise<AIAnalysis> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `深入分析以下数据并给出建议: ${JSON.stringify(marketData)}`,
-    config: {
-      systemInstruction: SYSTEM_PROMPT,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          sentiment: { type: Type.STRING },
-          analysis: { type: Type.STRING },
-          strategy: {
-            type: Type.OBJECT,
-            properties: {
-              action: { type: Type.STRING },
-              leverage: { type: Type.STRING },
-              entry: { type: Type.STRING },
-              tp: { type: Type.STRING },
-              sl: { type: Type.STRING },
-              validity: { type: Type.STRING }
-            },
-            required: ["action", "leverage", "entry", "tp", "sl", "validity"]
-          }
-        },
-        required: ["sentiment", "analysis", "strategy"]
-      }
-    }
-  });
+const buildRepairPrompt = (repair: RepairRequest) =>
+  `你上一次的输出未通过校验，错误如下:\n${repair.errors.map(e => `- ${e}`).join('\n')}\n请修正上述问题，只输出符合 Schema 的 JSON，不要包含任何其他文字。`;
 
-  const jsonStr = response.text?.trim();
-  if (!jsonStr) throw new Error("AI returned empty response");
-  return JSON.parse(jsonStr);
-};
+// 首轮只有行情摘要；修正轮附上模型上一次的原文与错误
+const buildMessages = (prompt: BuiltPrompt, repair?: RepairRequest): ChatMessage[] => [
+  { role: 'user', content: prompt.user },
+  ...(repair ? [
+    { role: 'assistant' as const, content: repair.previous },
+    { role: 'user' as const, content: buildRepairPrompt(repair) }
+  ] : [])
+];
 
-export const analyzeWithOpenAI = async (marketData: FullMarketData, apiKey: string, model: string): Promise<AIAnalysis> => {
-  if (!apiKey) throw new Error("请先在设置中填写 OpenAI API Key");
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: `数据分析请求: ${JSON.stringify(marketData)}` }
-      ],
-      response_format: { type: 'json_object' }
-    })
-  });
+export interface AnalysisOptions {
+  // 用户取消，与超时分开处理
+  signal?: AbortSignal;
+  // 流式回调当前请求已生成的全部文本，修正重试时从头开始
+  onStream?: (text: string) => void;
+}
 
-  const data = await response.json();
-  if (data.error) throw new Error(data.error.message);
-  return JSON.parse(data.choices[0].message.content);
-};
+// 超时与取消由这里统一控制，具体协议交给各 provider
+const requestCompletion = async (
+  modelType: AIModelType,
+  prompt: BuiltPrompt,
+  providers: AIProviderSettings,
+  options: AnalysisOptions,
+  repair?: RepairRequest
+): Promise<string> => {
+  const provider = getAIProvider(modelType);
+  const config = providers[modelType];
+  if (!isProviderConfigured(modelType, providers) || !config.model) {
+    throw new Error(`请先在设置中配置 ${provider.name} 的${provider.requiresKey ? ' API Key 与' : '服务地址与'}模型名称`);
+  }
+
+  const { signal, onStream } = options;
+  throwIfAborted(signal);
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+  const timer = setTimeout(cancel, config.timeoutMs);
 
-export const analyzeWithPoe = async (marketData: FullMarketData, apiKey: string, model: string): Promise<AIAnalysis> => {
-  if (!apiKey) throw new Error("请先在设置中填写 Poe API Key");
-  // Poe uses OpenAI compatible SDK/protocol
-  const response = await fetch('https://api.poe.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: model || 'Grok-4',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT + "\nIMPORTANT: You must only output JSON." },
-        { role: 'user', content: `Market Data Snapshot: ${JSON.stringify(marketData)}` }
-      ]
-    })
-  });
+  let streamed = '';
+  const onChunk = onStream ? (delta: string) => {
+    streamed += delta;
+    onStream(streamed);
+  } : undefined;
 
-  const data = await response.json();
-  if (data.error) throw new Error(data.error.message);
-  
-  // Poe might return markdown wrapped JSON, attempt to clean it
-  let content = data.choices[0].message.content.trim();
-  if (content.startsWith('```json')) {
-    content = content.replace(/```json|```/g, '').trim();
+  try {
+    return await provider.complete(
+      { system: prompt.system, messages: buildMessages(prompt, repair) },
+      config,
+      controller.signal,
+      onChunk
+    );
+  } catch (e: any) {
+    if (signal?.aborted) throw createAbortError();
+    if (controller.signal.aborted) throw new Error(`${provider.name} 请求超时 (${Math.round(config.timeoutMs / 1000)}s)`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
   }
-  
-  return JSON.parse(content);
 };
 
+// 所有模型共用同一套校验：不合格时带着错误重试一次，仍不合格则抛出，结果不会被展示或推送
 export const runAIAnalysis = async (
   modelType: AIModelType, 
   marketData: FullMarketData, 
-  settings: { openaiKey: string, openaiModel: string, poeKey: string, poeModel: string }
+  providers: AIProviderSettings,
+  template: PromptTemplate,
+  addLog: LogCallback = () => {},
+  options: AnalysisOptions = {}
 ): Promise<AIAnalysis> => {
-  switch(modelType) {
-    case AIModelType.GEMINI:
-      return await analyzeWithGemini(marketData);
-    case AIModelType.OPENAI:
-      return await analyzeWithOpenAI(marketData, settings.openaiKey, settings.openaiModel);
-    case AIModelType.POE:
-      return await analyzeWithPoe(marketData, settings.poeKey, settings.poeModel);
-    default:
-      throw new Error("Unknown AI Model Type");
-  }
+  const price = marketData.snapshots[0].price;
+  const prompt = buildPrompt(marketData, template, providers[modelType].maxPromptTokens);
+  addLog(`[AI] ${modelType} 提示词 ${prompt.version} 约 ${prompt.estimatedTokens} tokens (K 线 ${prompt.recentCandles} 根/周期)`, prompt.overBudget ? 'WARN' : 'INFO');
+
+  // 有效期以行情快照时间为起点换算为绝对时间
+  const first = await requestCompletion(modelType, prompt, providers, options);
+  const firstResult = parseAndValidate(first, price, marketData.timestamp);
+  if (firstResult.analysis) return { ...firstResult.analysis, promptVersion: prompt.version };
+
+  addLog(`[AI] ${modelType} 输出未通过校验，携带错误重试: ${firstResult.errors.join('; ')}`, 'WARN');
+  const second = await requestCompletion(modelType, prompt, providers, options, { previous: first, errors: firstResult.errors });
+  const secondResult = parseAndValidate(second, price, marketData.timestamp);
+  if (secondResult.analysis) return { ...secondResult.analysis, promptVersion: prompt.version };
+
+  throw new Error(`AI 输出校验失败: ${secondResult.errors.join('; ')}`);
 };
+
+// 用于信号日志与统计的模型标识，例如 OPENAI/gpt-4o
+export const getModelLabel = (modelType: AIModelType, providers: AIProviderSettings): string =>
+  `${modelType}/${providers[modelType].model}`;
@@ -0,0 +1,202 @@
+import { AIAnalysis, TakeProfitLevel } from '../types';
+import { parsePrices, parseValidityMs, buildTradeStrategy } from './strategyService';
+
+const SENTIMENTS = ['Bullish', 'Bearish', 'Neutral'] as const;
+const ACTIONS = ['LONG', 'SHORT', 'WAIT'] as const;
+const MAX_LEVERAGE = 125;
+const MAX_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000;
+// 价位偏离当前价超过该比例视为模型幻觉
+const MAX_PRICE_DEVIATION = 0.5;
+
+export interface ValidationResult {
+  analysis: AIAnalysis | null;
+  errors: string[];
+}
+
+// 找到第一个括号配平的 JSON 对象，跳过字符串内的括号
+const findJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+};
+
+// 容错提取：去掉 Markdown 代码块、前后说明文字、尾随逗号与 BOM
+export const extractJson = (text: string): unknown => {
+  const cleaned = String(text ?? '')
+    .replace(/^\uFEFF/, '')
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+  const candidate = findJsonObject(cleaned);
+  if (!candidate) throw new Error('响应中未找到 JSON 对象');
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+  }
+};
+
+// 枚举值大小写不敏感，返回规范写法
+const matchEnum = <T extends string>(value: unknown, options: readonly T[]): T | null =>
+  options.find(o => o.toLowerCase() === String(value ?? '').trim().toLowerCase()) ?? null;
+
+const asText = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+// 数值字段也接受 "3,450"、"5x" 这类字符串
+const asNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') return parsePrices(value)[0] ?? null;
+  return null;
+};
+
+const asValidityMs = (strategy: Record<string, any>): number | null => {
+  const hours = asNumber(strategy.validityHours);
+  if (hours !== null) return hours * 60 * 60 * 1000;
+  return strategy.validity !== undefined ? parseValidityMs(String(strategy.validity)) : null;
+};
+
+// 未给出仓位比例时平均分配，合计不为 100 时按比例归一化
+const normalizeTakeProfits = (raw: unknown, errors: string[]): TakeProfitLevel[] => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    errors.push('takeProfits 必须是非空数组');
+    return [];
+  }
+  const levels = raw.map(item => ({
+    price: asNumber(typeof item === 'object' && item ? item.price : item),
+    sizePercent: typeof item === 'object' && item ? asNumber(item.sizePercent) : null
+  }));
+  if (levels.some(l => l.price === null || l.price <= 0)) {
+    errors.push('takeProfits[].price 必须是正数');
+    return [];
+  }
+  const sizes = levels.map(l => l.sizePercent !== null && l.sizePercent > 0 ? l.sizePercent : 100 / levels.length);
+  const total = sizes.reduce((a, b) => a + b, 0);
+  return levels.map((l, i) => ({ price: l.price!, sizePercent: sizes[i] / total * 100 }));
+};
+
+// 校验结构、枚举值与价位：做多时止盈高于入场区、止损低于入场区，做空相反
+export const validateAnalysis = (raw: unknown, price: number, now: number = Date.now()): ValidationResult => {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') return { analysis: null, errors: ['响应不是 JSON 对象'] };
+  const obj = raw as Record<string, any>;
+  const strategy = obj.strategy && typeof obj.strategy === 'object' ? obj.strategy : null;
+
+  const sentiment = matchEnum(obj.sentiment, SENTIMENTS);
+  if (!sentiment) errors.push(`sentiment 必须是 ${SENTIMENTS.join('/')}，实际为 ${JSON.stringify(obj.sentiment)}`);
+  const analysisText = asText(obj.analysis);
+  if (!analysisText) errors.push('analysis 不能为空');
+  if (!strategy) {
+    errors.push('缺少 strategy 对象');
+    return { analysis: null, errors };
+  }
+
+  const action = matchEnum(strategy.action, ACTIONS);
+  if (!action) errors.push(`strategy.action 必须是 ${ACTIONS.join('/')}，实际为 ${JSON.stringify(strategy.action)}`);
+
+  const validityMs = asValidityMs(strategy);
+  if (validityMs === null || validityMs <= 0 || validityMs > MAX_VALIDITY_MS) {
+    errors.push(`validityHours 必须是 0-${MAX_VALIDITY_MS / 3600000} 之间的小时数`);
+  }
+  const expiresAt = now + (validityMs ?? 0);
+
+  if (action === 'WAIT') {
+    if (errors.length > 0) return { analysis: null, errors };
+    return {
+      analysis: {
+        sentiment: sentiment!,
+        analysis: analysisText!,
+        strategy: { action, entry: null, takeProfits: [], stopLoss: null, leverage: 0, expiresAt, riskReward: null }
+      },
+      errors
+    };
+  }
+
+  const leverage = asNumber(strategy.leverage);
+  if (leverage === null || leverage < 1 || leverage > MAX_LEVERAGE) {
+    errors.push(`leverage 必须是 1-${MAX_LEVERAGE} 之间的数字，实际为 ${JSON.stringify(strategy.leverage)}`);
+  }
+  const entryLow = asNumber(strategy.entryLow);
+  const entryHigh = asNumber(strategy.entryHigh ?? strategy.entryLow);
+  const stopLoss = asNumber(strategy.stopLoss);
+  const takeProfits = normalizeTakeProfits(strategy.takeProfits, errors);
+  if (entryLow === null || entryHigh === null) errors.push('entryLow/entryHigh 必须是数字');
+  if (stopLoss === null) errors.push('stopLoss 必须是数字');
+  if (errors.length > 0 || !action) return { analysis: null, errors };
+
+  const entry = { low: Math.min(entryLow!, entryHigh!), high: Math.max(entryLow!, entryHigh!) };
+  const tooFar = (p: number) => p < price * (1 - MAX_PRICE_DEVIATION) || p > price * (1 + MAX_PRICE_DEVIATION);
+  if ([entry.low, entry.high, stopLoss!, ...takeProfits.map(tp => tp.price)].some(tooFar)) {
+    errors.push(`所有价位必须在当前价 ${price} 的 ±${MAX_PRICE_DEVIATION * 100}% 以内`);
+  }
+  const isLong = action === 'LONG';
+  if (takeProfits.some(tp => isLong ? tp.price <= entry.high : tp.price >= entry.low)) {
+    errors.push(`${action} 的止盈必须${isLong ? '高于' : '低于'}入场区间`);
+  }
+  if (isLong ? stopLoss! >= entry.low : stopLoss! <= entry.high) {
+    errors.push(`${action} 的止损必须${isLong ? '低于' : '高于'}入场区间`);
+  }
+  if (errors.length > 0) return { analysis: null, errors };
+
+  // 止盈按距入场由近到远排列
+  const sorted = [...takeProfits].sort((a, b) => isLong ? a.price - b.price : b.price - a.price);
+  return {
+    analysis: {
+      sentiment: sentiment!,
+      analysis: analysisText!,
+      strategy: buildTradeStrategy(action, entry, sorted, stopLoss!, leverage!, expiresAt)
+    },
+    errors
+  };
+};
+
+export const parseAndValidate = (text: string, price: number, now: number = Date.now()): ValidationResult => {
+  try {
+    return validateAnalysis(extractJson(text), price, now);
+  } catch (e: any) {
+    return { analysis: null, errors: [`JSON 解析失败: ${e.message}`] };
+  }
+};
+
+// 从尚未输出完整的 JSON 中截取 analysis 字段已生成的部分，用于流式展示
+export const previewAnalysisText = (partial: string): string => {
+  const match = partial.match(/"analysis"\s*:\s*"/);
+  if (!match || match.index === undefined) return '';
+  let text = '';
+  for (let i = match.index + match[0].length; i < partial.length; i++) {
+    const ch = partial[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      text += ch;
+      continue;
+    }
+    const next = partial[++i];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partial.slice(i + 1, i + 5);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 4;
+    } else {
+      text += ({ n: '\n', t: '\t', r: '' } as Record<string, string>)[next] ?? next;
+    }
+  }
+  return text;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { AlertCondition, AlertRule, FullMarketData, Indicators } from '../types';
+import { emptyRuleMemory, evaluateAlerts, evaluateCondition, evaluateRule } from './alertService';
+
+// 只填充规则判断会读取的字段
+const market = ({ price = 2000, rsi = 50, ema20 = 2000, ema50 = 2000, fundingRate = 0.0001 } = {}): FullMarketData => ({
+  symbol: 'ETH-USDT-SWAP',
+  snapshots: [
+    { timeframe: '15m', price, indicators: {} as Indicators },
+    {
+      timeframe: '1h',
+      price,
+      indicators: { rsi, ema20, ema50, adx: { adx: 20 }, stochRsi: { k: 50 }, macd: { histogram: 0 } } as unknown as Indicators
+    }
+  ],
+  orderBookAnalysis: { bands: [{ percent: 0.5, imbalance: 0.4 }] },
+  derivatives: { fundingRate }
+} as unknown as FullMarketData);
+
+const rule = (conditions: AlertCondition[], patch: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'r1',
+  name: '测试规则',
+  enabled: true,
+  symbol: null,
+  logic: 'AND',
+  conditions,
+  cooldownMinutes: 30,
+  channels: ['BROWSER'],
+  ...patch
+});
+
+const PRICE_ABOVE: AlertCondition = { type: 'PRICE_CROSS', direction: 'ABOVE', level: 2000 };
+const PRICE_BELOW: AlertCondition = { type: 'PRICE_CROSS', direction: 'BELOW', level: 2000 };
+const RSI_ABOVE: AlertCondition = { type: 'INDICATOR', timeframe: '1h', indicator: 'RSI', operator: 'ABOVE', value: 70 };
+const GOLDEN: AlertCondition = { type: 'EMA_CROSS', timeframe: '1h', direction: 'GOLDEN' };
+
+describe('穿越类条件', () => {
+  it('价格由下向上穿越时触发上穿条件', () => {
+    expect(evaluateCondition(PRICE_ABOVE, market({ price: 2010 }), 1990).matched).toBe(true);
+    expect(evaluateCondition(PRICE_ABOVE, market({ price: 2020 }), 2010).matched).toBe(false);
+    expect(evaluateCondition(PRICE_BELOW, market({ price: 2010 }), 1990).matched).toBe(false);
+  });
+
+  it('价格由上向下穿越时触发下穿条件', () => {
+    expect(evaluateCondition(PRICE_BELOW, market({ price: 1990 }), 2010).matched).toBe(true);
+    expect(evaluateCondition(PRICE_ABOVE, market({ price: 1990 }), 2010).matched).toBe(false);
+  });
+
+  it('没有上一次观测值时不触发', () => {
+    const result = evaluateCondition(PRICE_ABOVE, market({ price: 2010 }), null);
+    expect(result.matched).toBe(false);
+    expect(result.observed).toBe(2010);
+  });
+
+  it('EMA20 上穿 EMA50 时触发金叉', () => {
+    expect(evaluateCondition(GOLDEN, market({ ema20: 2001, ema50: 2000 }), -1).matched).toBe(true);
+    expect(evaluateCondition(GOLDEN, market({ ema20: 2001, ema50: 2000 }), 2).matched).toBe(false);
+    expect(evaluateCondition({ ...GOLDEN, direction: 'DEATH' }, market({ ema20: 1999, ema50: 2000 }), 1).matched).toBe(true);
+  });
+
+  it('规则在连续两次判断之间记住观测值', () => {
+    const r = rule([PRICE_ABOVE]);
+    const first = evaluateRule(r, market({ price: 1990 }), emptyRuleMemory(), 0);
+    expect(first.event).toBeNull();
+    const second = evaluateRule(r, market({ price: 2010 }), first.memory, 1000);
+    expect(second.event?.reasons).toEqual(['价格 2010 上穿 2000']);
+  });
+});
+
+describe('条件组合', () => {
+  const hot = market({ rsi: 75, fundingRate: 0.0001 });
+
+  it('AND 需要全部条件满足', () => {
+    const funding: AlertCondition = { type: 'FUNDING', operator: 'ABOVE', value: 0.05 };
+    expect(evaluateRule(rule([RSI_ABOVE, funding]), hot, emptyRuleMemory()).event).toBeNull();
+    expect(evaluateRule(rule([RSI_ABOVE, { ...funding, value: 0.005 }]), hot, emptyRuleMemory()).event).not.toBeNull();
+  });
+
+  it('OR 任一条件满足即可，事件只列出满足的条件', () => {
+    const imbalance: AlertCondition = { type: 'BOOK_IMBALANCE', bandPercent: 0.5, operator: 'BELOW', value: -0.3 };
+    const { event } = evaluateRule(rule([RSI_ABOVE, imbalance], { logic: 'OR' }), hot, emptyRuleMemory());
+    expect(event?.reasons).toHaveLength(1);
+    expect(event?.reasons[0]).toContain('RSI');
+  });
+
+  it('没有条件的规则不触发', () => {
+    expect(evaluateRule(rule([], { logic: 'OR' }), hot, emptyRuleMemory()).event).toBeNull();
+  });
+});
+
+describe('冷却期', () => {
+  const r = rule([RSI_ABOVE], { cooldownMinutes: 10 });
+  const hot = market({ rsi: 80 });
+
+  it('冷却期内再次满足条件不触发，过后恢复', () => {
+    const first = evaluateRule(r, hot, emptyRuleMemory(), 0);
+    expect(first.memory.lastFiredAt).toBe(0);
+    const during = evaluateRule(r, hot, first.memory, 9 * 60 * 1000);
+    expect(during.event).toBeNull();
+    expect(during.memory.lastFiredAt).toBe(0);
+    expect(evaluateRule(r, hot, during.memory, 10 * 60 * 1000).event).not.toBeNull();
+  });
+
+  it('冷却状态按合约分别记录', () => {
+    const btc = { ...hot, symbol: 'BTC-USDT-SWAP' };
+    const first = evaluateAlerts([r], hot, {}, 0);
+    expect(first.events).toHaveLength(1);
+    expect(evaluateAlerts([r], hot, first.memory, 1000).events).toHaveLength(0);
+    expect(evaluateAlerts([r], btc, first.memory, 1000).events).toHaveLength(1);
+  });
+
+  it('停用或限定其他合约的规则不参与判断', () => {
+    expect(evaluateAlerts([{ ...r, enabled: false }], hot, {}, 0).events).toHaveLength(0);
+    expect(evaluateAlerts([{ ...r, symbol: 'BTC-USDT-SWAP' }], hot, {}, 0).events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  AlertChannel, AlertCondition, AlertConditionType, AlertEvent, AlertIndicator, AlertRule, AlertRuleMemory, FullMarketData, Indicators,
+  LogCallback, NotifierSettings, NotifierType
+} from '../types';
+import { formatSymbol } from './marketService';
+import { getNotifier, sendNotification } from './notifiers';
+import { buildAlertMessage } from './notifiers/messages';
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  PRICE_CROSS: '价格穿越',
+  INDICATOR: '指标阈值',
+  EMA_CROSS: 'EMA 交叉',
+  FUNDING: '资金费率',
+  BOOK_IMBALANCE: '盘口失衡'
+};
+
+export const ALERT_CHANNELS: AlertChannel[] = ['BROWSER', ...Object.values(NotifierType)];
+
+export const getAlertChannelLabel = (channel: AlertChannel) =>
+  channel === 'BROWSER' ? '浏览器通知' : getNotifier(channel).name;
+
+const INDICATOR_READERS: Record<AlertIndicator, (i: Indicators) => number> = {
+  RSI: i => i.rsi,
+  ADX: i => i.adx.adx,
+  STOCH_K: i => i.stochRsi.k,
+  MACD_HIST: i => i.macd.histogram
+};
+
+export const ALERT_INDICATORS = Object.keys(INDICATOR_READERS) as AlertIndicator[];
+
+export const createAlertCondition = (type: AlertConditionType, price: number = 0): AlertCondition => {
+  switch (type) {
+    case 'PRICE_CROSS': return { type, direction: 'ABOVE', level: Math.round(price) };
+    case 'INDICATOR': return { type, timeframe: '1h', indicator: 'RSI', operator: 'ABOVE', value: 70 };
+    case 'EMA_CROSS': return { type, timeframe: '4h', direction: 'GOLDEN' };
+    case 'FUNDING': return { type, operator: 'ABOVE', value: 0.05 };
+    case 'BOOK_IMBALANCE': return { type, bandPercent: 0.5, operator: 'ABOVE', value: 0.3 };
+  }
+};
+
+export const createAlertRule = (price: number = 0): AlertRule => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '新规则',
+  enabled: true,
+  symbol: null,
+  logic: 'AND',
+  conditions: [createAlertCondition('PRICE_CROSS', price)],
+  cooldownMinutes: 30,
+  channels: ['BROWSER']
+});
+
+interface ConditionResult {
+  matched: boolean;
+  // 需要留到下一次判断的观测值 (仅穿越类条件)
+  observed: number | null;
+  reason: string;
+}
+
+const compare = (value: number, operator: 'ABOVE' | 'BELOW', threshold: number) =>
+  operator === 'ABOVE' ? value > threshold : value < threshold;
+
+const symbolOf = (operator: 'ABOVE' | 'BELOW') => operator === 'ABOVE' ? '>' : '<';
+
+const fmt = (v: number) => String(parseFloat(v.toPrecision(6)));
+
+// 穿越类条件在第一次判断 (没有上一次观测值) 时不触发
+export const evaluateCondition = (
+  condition: AlertCondition,
+  data: FullMarketData,
+  previous: number | null
+): ConditionResult => {
+  const price = data.snapshots[0].price;
+  switch (condition.type) {
+    case 'PRICE_CROSS': {
+      const { level, direction } = condition;
+      const matched = previous !== null && (direction === 'ABOVE'
+        ? previous < level && price >= level
+        : previous > level && price <= level);
+      return { matched, observed: price, reason: `价格 ${fmt(price)} ${direction === 'ABOVE' ? '上穿' : '下穿'} ${fmt(level)}` };
+    }
+    case 'INDICATOR': {
+      const snapshot = data.snapshots.find(s => s.timeframe === condition.timeframe);
+      if (!snapshot) return { matched: false, observed: null, reason: '' };
+      const value = INDICATOR_READERS[condition.indicator](snapshot.indicators);
+      return {
+        matched: compare(value, condition.operator, condition.value),
+        observed: null,
+        reason: `${condition.timeframe} ${condition.indicator} ${fmt(value)} ${symbolOf(condition.operator)} ${fmt(condition.value)}`
+      };
+    }
+    case 'EMA_CROSS': {
+      const snapshot = data.snapshots.find(s => s.timeframe === condition.timeframe);
+      if (!snapshot) return { matched: false, observed: null, reason: '' };
+      const diff = snapshot.indicators.ema20 - snapshot.indicators.ema50;
+      const matched = previous !== null && (condition.direction === 'GOLDEN'
+        ? previous <= 0 && diff > 0
+        : previous >= 0 && diff < 0);
+      return { matched, observed: diff, reason: `${condition.timeframe} EMA20 ${condition.direction === 'GOLDEN' ? '上穿' : '下穿'} EMA50` };
+    }
+    case 'FUNDING': {
+      if (!data.derivatives) return { matched: false, observed: null, reason: '' };
+      const rate = data.derivatives.fundingRate * 100;
+      return {
+        matched: compare(rate, condition.operator, condition.value),
+        observed: null,
+        reason: `资金费率 ${rate.toFixed(4)}% ${symbolOf(condition.operator)} ${fmt(condition.value)}%`
+      };
+    }
+    case 'BOOK_IMBALANCE': {
+      const band = data.orderBookAnalysis.bands.find(b => b.percent === condition.bandPercent);
+      if (!band) return { matched: false, observed: null, reason: '' };
+      return {
+        matched: compare(band.imbalance, condition.operator, condition.value),
+        observed: null,
+        reason: `±${band.percent}% 盘口失衡 ${band.imbalance.toFixed(2)} ${symbolOf(condition.operator)} ${fmt(condition.value)}`
+      };
+    }
+  }
+};
+
+export const emptyRuleMemory = (): AlertRuleMemory => ({ lastFiredAt: null, previous: {} });
+
+// 条件满足且不在冷却期内时返回告警事件；无论是否触发都会更新观测值
+export const evaluateRule = (
+  rule: AlertRule,
+  data: FullMarketData,
+  memory: AlertRuleMemory,
+  now: number = Date.now()
+): { event: AlertEvent | null; memory: AlertRuleMemory } => {
+  // 以条件内容为键，规则被编辑后旧的观测值不会套用到新条件上
+  const keys = rule.conditions.map(c => JSON.stringify(c));
+  const results = rule.conditions.map((c, i) => evaluateCondition(c, data, memory.previous[keys[i]] ?? null));
+  const nextMemory: AlertRuleMemory = {
+    ...memory,
+    previous: Object.fromEntries(keys.map((k, i) => [k, results[i].observed]))
+  };
+
+  const matched = results.length > 0 && (rule.logic === 'AND' ? results.every(r => r.matched) : results.some(r => r.matched));
+  const coolingDown = memory.lastFiredAt !== null && now - memory.lastFiredAt < rule.cooldownMinutes * 60 * 1000;
+  if (!matched || coolingDown) return { event: null, memory: nextMemory };
+
+  return {
+    event: {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      symbol: data.symbol,
+      exchange: data.exchange,
+      timestamp: now,
+      price: data.snapshots[0].price,
+      reasons: results.filter(r => r.matched).map(r => r.reason),
+      channels: rule.channels
+    },
+    memory: { ...nextMemory, lastFiredAt: now }
+  };
+};
+
+export const ruleMemoryKey = (ruleId: string, symbol: string) => `${ruleId}|${symbol}`;
+
+// 对单个合约的行情依次判断所有适用规则，返回触发的事件与更新后的状态
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  data: FullMarketData,
+  memory: Record<string, AlertRuleMemory>,
+  now: number = Date.now()
+): { events: AlertEvent[]; memory: Record<string, AlertRuleMemory> } => {
+  const nextMemory = { ...memory };
+  const events: AlertEvent[] = [];
+  rules
+    .filter(r => r.enabled && (r.symbol === null || r.symbol === data.symbol))
+    .forEach(rule => {
+      const key = ruleMemoryKey(rule.id, data.symbol);
+      const result = evaluateRule(rule, data, nextMemory[key] ?? emptyRuleMemory(), now);
+      nextMemory[key] = result.memory;
+      if (result.event) events.push(result.event);
+    });
+  return { events, memory: nextMemory };
+};
+
+// 浏览器通知需要用户授权，未授权时只写日志
+const notifyBrowser = (event: AlertEvent): boolean => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  new Notification(`${formatSymbol(event.symbol)} ${event.ruleName}`, { body: event.reasons.join('\n') });
+  return true;
+};
+
+// 单个渠道失败不影响其余渠道
+export const dispatchAlert = async (event: AlertEvent, notifiers: NotifierSettings, addLog: LogCallback) => {
+  addLog(`[Alert] ${event.symbol} ${event.ruleName}: ${event.reasons.join('; ')}`, 'WARN');
+  if (event.channels.includes('BROWSER') && !notifyBrowser(event)) {
+    addLog('[Alert] 浏览器通知未授权，仅记录日志', 'WARN');
+  }
+  const types = event.channels.filter((c): c is NotifierType => c !== 'BROWSER');
+  if (types.length > 0) await sendNotification(buildAlertMessage(event), types, notifiers, addLog);
+};
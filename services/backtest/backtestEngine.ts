@@ -0,0 +1,344 @@
+import {
+  Kline, FullMarketData, AIAnalysis, IndicatorConfig, BacktestConfig, BacktestReport,
+  BacktestTrade, EquityPoint, LogCallback, ExchangeType, FlowWindowLabel, StrategyLevels
+} from '../../types';
+import { getIndicators } from '../indicatorService';
+import { TIMEFRAMES, TIMEFRAME_MS } from '../marketService';
+import { getStrategyLevels, isMarketEntry, buildTradeStrategy, resolveExit } from '../strategyService';
+import { loadHistoricalKlines } from './historyLoader';
+
+// 指标计算所需的预热 K 线数量，与实盘快照保持一致
+const WARMUP_CANDLES = 100;
+const SIGNAL_TIMEFRAME = '1h';
+const FILL_TIMEFRAME = '15m';
+const FUNDING_INTERVAL = 8 * 60 * 60 * 1000;
+
+type SignalSource = (data: FullMarketData) => Promise<AIAnalysis | null>;
+
+interface Position {
+  side: 'LONG' | 'SHORT';
+  entryTime: number;
+  entryPrice: number;
+  size: number;
+  leverage: number;
+  levels: StrategyLevels;
+  fees: number;
+  funding: number;
+}
+
+interface PendingOrder {
+  side: 'LONG' | 'SHORT';
+  levels: StrategyLevels;
+  expiry: number;
+  market: boolean;
+}
+
+// 二分查找最后一根在 at 之前已收盘的 K 线
+const closedUntil = (klines: Kline[], tfMs: number, at: number) => {
+  let lo = 0;
+  let hi = klines.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (klines[mid].timestamp + tfMs <= at) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// 历史数据中没有盘口、逐笔成交与合约数据，对应字段以中性值填充
+export const buildHistoricalMarketData = (
+  symbol: string,
+  candles: Record<string, Kline[]>,
+  at: number,
+  indicatorConfig: IndicatorConfig
+): FullMarketData | null => {
+  const snapshots = [];
+  for (const tf of TIMEFRAMES) {
+    const end = closedUntil(candles[tf] || [], TIMEFRAME_MS[tf], at);
+    const klines = (candles[tf] || []).slice(Math.max(0, end - WARMUP_CANDLES), end);
+    if (klines.length < 30) return null;
+    snapshots.push({
+      timeframe: tf,
+      price: klines[klines.length - 1].close,
+      kline: klines,
+      indicators: getIndicators(klines, indicatorConfig)
+    });
+  }
+
+  const price = snapshots[0].price;
+  const hourly = snapshots.find(s => s.timeframe === '1h')!.kline.slice(-24);
+  const emptyWindow = (window: FlowWindowLabel) => ({ window, buyVolume: 0, sellVolume: 0, netInflow: 0, complete: false });
+
+  return {
+    symbol,
+    exchange: ExchangeType.OKX,
+    snapshots,
+    orderBook: { bids: [], asks: [] },
+    orderBookAnalysis: {
+      bestBid: price,
+      bestAsk: price,
+      mid: price,
+      spread: 0,
+      spreadBps: 0,
+      microprice: price,
+      bands: [],
+      walls: []
+    },
+    ticker: {
+      last: price,
+      open24h: hourly[0].open,
+      high24h: Math.max(...hourly.map(k => k.high)),
+      low24h: Math.min(...hourly.map(k => k.low)),
+      vol24h: hourly.reduce((acc, k) => acc + k.volume, 0)
+    },
+    inflow: {
+      netInflow: 0,
+      buyVolume: 0,
+      sellVolume: 0,
+      window: '24h',
+      windows: (['5m', '1h', '4h', '24h'] as FlowWindowLabel[]).map(emptyWindow),
+      cvd: [],
+      recentTrades: { buyVolume: 0, sellVolume: 0, netInflow: 0, count: 0, from: 0, to: 0 }
+    },
+    derivatives: null,
+    instrument: null,
+    timestamp: at
+  };
+};
+
+const RULES_VALIDITY_MS = 4 * 60 * 60 * 1000;
+
+const makeAnalysis = (action: 'LONG' | 'SHORT', price: number, atr: number, at: number, reason: string): AIAnalysis => {
+  const dir = action === 'LONG' ? 1 : -1;
+  return {
+    sentiment: action === 'LONG' ? 'Bullish' : 'Bearish',
+    analysis: reason,
+    strategy: buildTradeStrategy(
+      action,
+      { low: price, high: price },
+      [{ price: price + dir * atr * 3, sizePercent: 100 }],
+      price - dir * atr * 1.5,
+      3,
+      at + RULES_VALIDITY_MS
+    )
+  };
+};
+
+// 规则策略：4h SuperTrend 定方向，1h 均线排列 + MACD 确认，ATR 设置止盈止损
+const rulesStrategy: SignalSource = async (data) => {
+  const h1 = data.snapshots.find(s => s.timeframe === '1h')!;
+  const h4 = data.snapshots.find(s => s.timeframe === '4h')!;
+  const { ema20, ema50, rsi, macd, atr } = h1.indicators;
+  if (atr <= 0) return null;
+
+  if (h4.indicators.superTrend.direction === 'UP' && h1.price > ema20 && ema20 > ema50 && rsi < 70 && macd.histogram > 0) {
+    return makeAnalysis('LONG', h1.price, atr, data.timestamp, 'RULES: 4h 上升趋势，1h 多头排列');
+  }
+  if (h4.indicators.superTrend.direction === 'DOWN' && h1.price < ema20 && ema20 < ema50 && rsi > 30 && macd.histogram < 0) {
+    return makeAnalysis('SHORT', h1.price, atr, data.timestamp, 'RULES: 4h 下降趋势，1h 空头排列');
+  }
+  return null;
+};
+
+// 回放记录的 AI 结果：取该信号周期内最新的一条
+const recordedStrategy = (config: BacktestConfig): SignalSource => {
+  const signals = [...(config.recordedSignals || [])].sort((a, b) => a.timestamp - b.timestamp);
+  return async (data) => {
+    const windowStart = data.timestamp - TIMEFRAME_MS[SIGNAL_TIMEFRAME];
+    const inWindow = signals.filter(s => s.timestamp > windowStart && s.timestamp <= data.timestamp);
+    return inWindow.length > 0 ? inWindow[inWindow.length - 1].analysis : null;
+  };
+};
+
+// 固定种子的随机"模拟 AI"，用于验证流水线并作为随机入场基准
+const mockStrategy = (): SignalSource => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  return async (data) => {
+    const h1 = data.snapshots.find(s => s.timeframe === '1h')!;
+    const roll = random();
+    if (roll < 0.8 || h1.indicators.atr <= 0) return null;
+    return makeAnalysis(roll < 0.9 ? 'LONG' : 'SHORT', h1.price, h1.indicators.atr, data.timestamp, 'MOCK: 随机信号');
+  };
+};
+
+const getSignalSource = (config: BacktestConfig): SignalSource => {
+  switch (config.strategy) {
+    case 'RULES': return rulesStrategy;
+    case 'RECORDED': return recordedStrategy(config);
+    case 'MOCK': return mockStrategy();
+    default: throw new Error(`未知回测策略: ${config.strategy}`);
+  }
+};
+
+const computeMetrics = (config: BacktestConfig, trades: BacktestTrade[], equityCurve: EquityPoint[], signals: number): BacktestReport => {
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? config.initialEquity;
+  const wins = trades.filter(t => t.pnl > 0);
+  const grossWin = wins.reduce((acc, t) => acc + t.pnl, 0);
+  const grossLoss = trades.filter(t => t.pnl <= 0).reduce((acc, t) => acc - t.pnl, 0);
+
+  let peak = config.initialEquity;
+  let maxDrawdown = 0;
+  equityCurve.forEach(p => {
+    peak = Math.max(peak, p.equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - p.equity) / peak);
+  });
+
+  // 按信号周期的收益率年化
+  const returns = equityCurve.slice(1).map((p, i) => p.equity / equityCurve[i].equity - 1);
+  const mean = returns.reduce((a, b) => a + b, 0) / (returns.length || 1);
+  const std = Math.sqrt(returns.reduce((acc, r) => acc + Math.pow(r - mean, 2), 0) / (returns.length || 1));
+  const periodsPerYear = (365 * 24 * 60 * 60 * 1000) / TIMEFRAME_MS[SIGNAL_TIMEFRAME];
+
+  return {
+    config,
+    trades,
+    equityCurve,
+    signals,
+    totalPnl: finalEquity - config.initialEquity,
+    returnPercent: (finalEquity / config.initialEquity - 1) * 100,
+    winRate: trades.length > 0 ? wins.length / trades.length * 100 : 0,
+    maxDrawdown: maxDrawdown * 100,
+    sharpe: std > 0 ? mean / std * Math.sqrt(periodsPerYear) : 0,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? Infinity : 0,
+    totalFees: trades.reduce((acc, t) => acc + t.fees, 0),
+    totalFunding: trades.reduce((acc, t) => acc + t.funding, 0)
+  };
+};
+
+export const runBacktest = async (
+  config: BacktestConfig,
+  indicatorConfig: IndicatorConfig,
+  addLog: LogCallback,
+  onProgress: (task: string, percentage: number) => void = () => {}
+): Promise<BacktestReport> => {
+  // 1. 加载历史数据 (含预热区间)
+  const candles: Record<string, Kline[]> = {};
+  for (let i = 0; i < TIMEFRAMES.length; i++) {
+    const tf = TIMEFRAMES[i];
+    const warmupStart = config.startTime - TIMEFRAME_MS[tf] * WARMUP_CANDLES;
+    onProgress(`加载 ${tf} 历史数据`, i * 10);
+    candles[tf] = await loadHistoricalKlines(config.symbol, tf, warmupStart, config.endTime, addLog,
+      loaded => onProgress(`加载 ${tf} 历史数据 (${loaded})`, i * 10));
+    addLog(`[Backtest] ${tf} 历史 K 线 ${candles[tf].length} 根`);
+  }
+
+  const fills = candles[FILL_TIMEFRAME].filter(k => k.timestamp >= config.startTime && k.timestamp < config.endTime);
+  if (fills.length === 0) throw new Error('回测区间内没有可用的历史数据');
+
+  // 2. 逐根 15m K 线模拟撮合，每根 1h 收盘时生成信号
+  const signalSource = getSignalSource(config);
+  const fillMs = TIMEFRAME_MS[FILL_TIMEFRAME];
+  const signalMs = TIMEFRAME_MS[SIGNAL_TIMEFRAME];
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [{ timestamp: config.startTime, equity: config.initialEquity }];
+  let equity = config.initialEquity;
+  let position: Position | null = null;
+  let pending: PendingOrder | null = null;
+  let signals = 0;
+
+  const openPosition = (order: PendingOrder, price: number, time: number, fee: number) => {
+    const leverage = Math.min(order.levels.leverage, config.maxLeverage);
+    const notional = equity * config.allocation * leverage;
+    const size = notional / price;
+    const fees = notional * fee;
+    equity -= fees;
+    position = { side: order.side, entryTime: time, entryPrice: price, size, leverage, levels: order.levels, fees, funding: 0 };
+  };
+
+  const closePosition = (price: number, time: number, reason: BacktestTrade['exitReason'], fee: number) => {
+    const pos = position!;
+    const dir = pos.side === 'LONG' ? 1 : -1;
+    const exitFee = pos.size * price * fee;
+    const gross = (price - pos.entryPrice) * pos.size * dir;
+    equity += gross - exitFee;
+    trades.push({
+      side: pos.side,
+      entryTime: pos.entryTime,
+      entryPrice: pos.entryPrice,
+      exitTime: time,
+      exitPrice: price,
+      exitReason: reason,
+      size: pos.size,
+      leverage: pos.leverage,
+      fees: pos.fees + exitFee,
+      funding: pos.funding,
+      pnl: gross - pos.fees - exitFee - pos.funding
+    });
+    position = null;
+  };
+
+  for (let i = 0; i < fills.length; i++) {
+    const k = fills[i];
+    const closeTime = k.timestamp + fillMs;
+
+    // 挂单成交 / 过期；市价单按开盘价成交，整根 K 线都在成交之后，限价单成交的 K 线按 resolveExit 的保守规则处理
+    let limitFilled = false;
+    if (pending) {
+      if (k.timestamp >= pending.expiry) {
+        pending = null;
+      } else if (pending.market) {
+        openPosition(pending, k.open, k.timestamp, config.takerFee);
+        pending = null;
+      } else if (k.low <= pending.levels.entry && k.high >= pending.levels.entry) {
+        openPosition(pending, pending.levels.entry, k.timestamp, config.makerFee);
+        pending = null;
+        limitFilled = true;
+      }
+    }
+
+    if (position) {
+      const pos: Position = position;
+      const exit = resolveExit(k, pos.side, pos.levels, limitFilled);
+      if (exit) closePosition(exit.price, k.timestamp, exit.reason, exit.reason === 'SL' ? config.takerFee : config.makerFee);
+    }
+
+    // 资金费结算
+    if (position && Math.floor(closeTime / FUNDING_INTERVAL) > Math.floor(k.timestamp / FUNDING_INTERVAL)) {
+      const pos: Position = position;
+      const funding = pos.size * k.close * config.fundingRate * (pos.side === 'LONG' ? 1 : -1);
+      pos.funding += funding;
+      equity -= funding;
+    }
+
+    if (closeTime % signalMs === 0) {
+      const pos = position as Position | null;
+      const unrealized = pos ? (k.close - pos.entryPrice) * pos.size * (pos.side === 'LONG' ? 1 : -1) : 0;
+      equityCurve.push({ timestamp: closeTime, equity: equity + unrealized });
+
+      if (!pos && !pending) {
+        const data = buildHistoricalMarketData(config.symbol, candles, closeTime, indicatorConfig);
+        const analysis = data ? await signalSource(data) : null;
+        const levels = analysis ? getStrategyLevels(analysis) : null;
+        if (analysis && levels && analysis.strategy.action !== 'WAIT') {
+          signals++;
+          pending = {
+            side: analysis.strategy.action,
+            levels,
+            expiry: levels.expiresAt,
+            market: isMarketEntry(analysis.strategy.entry!, k.close)
+          };
+        }
+      }
+
+      // 定期让出主线程，避免界面卡死
+      if (equityCurve.length % 50 === 0) {
+        onProgress('回放策略信号', 40 + Math.round(i / fills.length * 60));
+        await new Promise(r => setTimeout(r, 0));
+      }
+    }
+  }
+
+  if (position) {
+    const last = fills[fills.length - 1];
+    closePosition(last.close, last.timestamp + fillMs, 'END', config.takerFee);
+    equityCurve.push({ timestamp: last.timestamp + fillMs, equity });
+  }
+
+  const report = computeMetrics(config, trades, equityCurve, signals);
+  addLog(`[Backtest] 完成: ${trades.length} 笔交易，收益 ${report.returnPercent.toFixed(2)}%`, 'SUCCESS');
+  return report;
+};
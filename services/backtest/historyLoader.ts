@@ -0,0 +1,86 @@
+import { Kline, LogCallback } from '../../types';
+import { okxProvider } from '../exchanges/okxProvider';
+import { jitter } from '../exchanges/httpClient';
+import { TIMEFRAME_MS } from '../marketService';
+import { idbGet, idbPut, STORES } from '../storage';
+
+const PAGE_SIZE = 100;
+
+const cacheKey = (symbol: string, timeframe: string) => `okx:${symbol}:${timeframe}`;
+
+const mergeKlines = (a: Kline[], b: Kline[]): Kline[] => {
+  const byTs = new Map<number, Kline>();
+  a.forEach(k => byTs.set(k.timestamp, k));
+  b.forEach(k => byTs.set(k.timestamp, k));
+  return Array.from(byTs.values()).sort((x, y) => x.timestamp - y.timestamp);
+};
+
+const readCache = async (key: string, log: LogCallback): Promise<Kline[]> => {
+  try {
+    return (await idbGet<Kline[]>(STORES.CANDLES, key)) ?? [];
+  } catch (e: any) {
+    log(`[Backtest] 读取本地缓存失败: ${e.message}`, 'WARN');
+    return [];
+  }
+};
+
+// 从 upper 开始向前翻页，直到覆盖 lower
+const pageBackwards = async (
+  symbol: string,
+  timeframe: string,
+  upper: number,
+  lower: number,
+  log: LogCallback,
+  onPage: (loaded: number) => void
+): Promise<Kline[]> => {
+  let cursor = upper;
+  let result: Kline[] = [];
+  while (cursor > lower) {
+    const page = await okxProvider.fetchHistoryKlines!(symbol, timeframe, cursor, PAGE_SIZE, log);
+    if (page.length === 0) break;
+    result = mergeKlines(page, result);
+    onPage(result.length);
+    const oldest = page[0].timestamp;
+    if (oldest >= cursor) break;
+    cursor = oldest;
+    await jitter(200);
+  }
+  return result;
+};
+
+// 加载 [startTime, endTime] 区间的历史 K 线，已缓存的部分不再重复请求
+export const loadHistoricalKlines = async (
+  symbol: string,
+  timeframe: string,
+  startTime: number,
+  endTime: number,
+  log: LogCallback,
+  onPage: (loaded: number) => void = () => {}
+): Promise<Kline[]> => {
+  const key = cacheKey(symbol, timeframe);
+  const tfMs = TIMEFRAME_MS[timeframe];
+  let cached = await readCache(key, log);
+  const first = cached[0]?.timestamp;
+  const last = cached[cached.length - 1]?.timestamp;
+
+  if (cached.length === 0) {
+    cached = await pageBackwards(symbol, timeframe, endTime + tfMs, startTime, log, onPage);
+  } else {
+    if (first > startTime) {
+      cached = mergeKlines(await pageBackwards(symbol, timeframe, first, startTime, log, onPage), cached);
+    }
+    if (last + tfMs < endTime) {
+      cached = mergeKlines(cached, await pageBackwards(symbol, timeframe, endTime + tfMs, last, log, onPage));
+    }
+  }
+
+  // 最新一根可能尚未收盘，不写入缓存
+  const closed = cached.filter(k => k.timestamp + tfMs <= Date.now());
+  try {
+    await idbPut(STORES.CANDLES, closed, key);
+  } catch (e: any) {
+    log(`[Backtest] 写入本地缓存失败: ${e.message}`, 'WARN');
+  }
+
+  return closed.filter(k => k.timestamp >= startTime && k.timestamp <= endTime);
+};
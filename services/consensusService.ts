@@ -0,0 +1,78 @@
+import { AIAnalysis, AIModelType, AIProviderSettings, FullMarketData, LogCallback, ModelOpinion, PromptTemplate, TradeStrategy } from '../types';
+import { runAIAnalysis, getModelLabel } from './aiService';
+import { isProviderConfigured } from './ai';
+import { throwIfAborted } from './abort';
+
+export const getConfiguredModels = (providers: AIProviderSettings): AIModelType[] =>
+  Object.values(AIModelType).filter(m => isProviderConfigured(m, providers));
+
+const waitStrategy = (expiresAt: number): TradeStrategy => ({
+  action: 'WAIT',
+  entry: null,
+  takeProfits: [],
+  stopLoss: null,
+  leverage: 0,
+  expiresAt,
+  riskReward: null
+});
+
+// 按 action 多数票合并：方向一致时沿用其中杠杆最低 (最保守) 的方案，无多数时降级为观望
+export const mergeOpinions = (opinions: ModelOpinion[]): AIAnalysis => {
+  const valid = opinions.filter((o): o is ModelOpinion & { analysis: AIAnalysis } => o.analysis !== null);
+  if (valid.length === 0) throw new Error(`所有模型均未返回有效结果: ${opinions.map(o => `${o.model}: ${o.error}`).join('; ')}`);
+
+  const tally = new Map<TradeStrategy['action'], number>();
+  valid.forEach(o => tally.set(o.analysis.strategy.action, (tally.get(o.analysis.strategy.action) ?? 0) + 1));
+  const [topAction, votes] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0];
+  const hasMajority = votes > valid.length / 2;
+  const consensus = {
+    votes,
+    responded: valid.length,
+    confidence: Math.round(votes / valid.length * 100),
+    isConsensus: hasMajority && votes >= 2,
+    opinions
+  };
+
+  if (!hasMajority) {
+    return {
+      sentiment: 'Neutral',
+      analysis: `模型意见分歧 (${valid.map(o => `${o.model}: ${o.analysis.strategy.action}`).join(', ')})，暂不给出方向。`,
+      strategy: waitStrategy(Math.min(...valid.map(o => o.analysis.strategy.expiresAt))),
+      consensus,
+      promptVersion: valid[0].analysis.promptVersion
+    };
+  }
+
+  const agreeing = valid.filter(o => o.analysis.strategy.action === topAction);
+  const base = [...agreeing].sort((a, b) => a.analysis.strategy.leverage - b.analysis.strategy.leverage)[0];
+  return {
+    ...base.analysis,
+    analysis: `[${base.model}] ${base.analysis.analysis}`,
+    consensus
+  };
+};
+
+// 同一份行情并行发送给所有已配置的模型，单个模型失败不影响其余结果
+export const runConsensusAnalysis = async (
+  marketData: FullMarketData,
+  providers: AIProviderSettings,
+  template: PromptTemplate,
+  addLog: LogCallback,
+  signal?: AbortSignal
+): Promise<AIAnalysis> => {
+  const models = getConfiguredModels(providers);
+  if (models.length === 0) throw new Error('共识模式需要至少配置一个模型的 API Key');
+  addLog(`[AI] 共识模式: 并行调用 ${models.join(', ')}`);
+
+  // 多个模型同时输出时不做流式展示，只透传取消信号
+  const results = await Promise.allSettled(models.map(m => runAIAnalysis(m, marketData, providers, template, addLog, { signal })));
+  throwIfAborted(signal);
+  const opinions: ModelOpinion[] = results.map((r, i) => {
+    const model = getModelLabel(models[i], providers);
+    if (r.status === 'fulfilled') return { model, analysis: r.value };
+    addLog(`[AI] ${model} 调用失败: ${r.reason?.message ?? r.reason}`, 'WARN');
+    return { model, analysis: null, error: r.reason?.message ?? String(r.reason) };
+  });
+
+  return mergeOpinions(opinions);
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { decryptText, deriveAesKey, encryptText, randomSalt } from './crypto';
+
+// 测试只验证编码与加解密往返，降低迭代次数以缩短耗时
+const ITERATIONS = 1000;
+
+describe('encryptText / decryptText', () => {
+  it('数 MB 的备份可以加密并原样解密', async () => {
+    const plaintext = JSON.stringify(Array.from({ length: 40000 }, (_, i) => ({ id: `entry-${i}`, note: '信号日志 journal '.repeat(4) })));
+    expect(plaintext.length).toBeGreaterThan(3_000_000);
+
+    const salt = randomSalt();
+    const key = await deriveAesKey('passphrase', salt, ITERATIONS);
+    const payload = await encryptText(plaintext, key, salt, ITERATIONS);
+    expect(await decryptText(payload, key)).toBe(plaintext);
+  });
+});
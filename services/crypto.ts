@@ -0,0 +1,59 @@
+import { EncryptedPayload } from '../types';
+
+// WebCrypto 封装，浏览器与 Node 通用
+
+// 分块拼接二进制串：展开参数一次传入过多字节会超出调用栈，加密的完整备份可达数 MB
+const BASE64_CHUNK = 0x8000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+
+// 钉钉、飞书加签与 OKX 私有接口签名均为 HMAC-SHA256 后 Base64
+export const hmacSha256Base64 = async (key: string, data: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+  return toBase64(signature);
+};
+
+// OWASP 建议的 PBKDF2-SHA256 迭代次数
+export const PBKDF2_ITERATIONS = 310000;
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomSalt = () => crypto.getRandomValues(new Uint8Array(16));
+
+export const deriveAesKey = async (passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// 同一把密钥可重复加密，每次使用新的随机 IV
+export const encryptText = async (plaintext: string, key: CryptoKey, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext)));
+  return { version: 1, kdf: 'PBKDF2-SHA256', iterations, salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+};
+
+export const payloadSalt = (payload: EncryptedPayload) => fromBase64(payload.salt);
+
+// AES-GCM 校验失败说明口令错误或数据被篡改
+export const decryptText = async (payload: EncryptedPayload, key: CryptoKey): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('口令错误或数据已损坏');
+  }
+};
@@ -0,0 +1,36 @@
+import { AlertEvent, DaemonLog, DaemonStatus, DaemonSymbolResult } from '../types';
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+export interface DaemonClient {
+  getStatus(): Promise<DaemonStatus>;
+  getResults(): Promise<Record<string, DaemonSymbolResult>>;
+  getLogs(since: number): Promise<DaemonLog[]>;
+  getAlerts(): Promise<AlertEvent[]>;
+  // 返回 false 表示后台正在扫描
+  triggerScan(): Promise<boolean>;
+}
+
+// 仪表盘连接后台服务 (server/index.ts) 的 HTTP API，直连不经过 CORS 代理
+export const createDaemonClient = (baseUrl: string, token: string): DaemonClient => {
+  const root = baseUrl.trim().replace(/\/+$/, '');
+
+  const request = async <T>(path: string, method: 'GET' | 'POST' = 'GET'): Promise<{ status: number; body: T }> => {
+    const response = await fetch(`${root}${path}`, {
+      method,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (response.status === 401) throw new Error('后台服务拒绝访问，请检查 Token');
+    if (!response.ok && response.status !== 409) throw new Error(`后台服务返回 HTTP ${response.status}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  return {
+    getStatus: async () => (await request<DaemonStatus>('/api/status')).body,
+    getResults: async () => (await request<Record<string, DaemonSymbolResult>>('/api/results')).body,
+    getLogs: async (since) => (await request<DaemonLog[]>(`/api/logs?since=${since}`)).body,
+    getAlerts: async () => (await request<AlertEvent[]>('/api/alerts')).body,
+    triggerScan: async () => (await request('/api/scan', 'POST')).status === 202
+  };
+};
@@ -0,0 +1,125 @@
+import { Kline, MarketDataProvider, ExchangeType, OrderBook, Ticker, Trade, TakerBucket, DerivativesData, LogCallback } from '../../types';
+import { fetchWithRetry, splitSymbol, tryOrNull, buildBasis, openInterestChange } from './httpClient';
+
+// Binance U 本位合约 API 基础路径
+const BINANCE_BASE = 'https://fapi.binance.com/fapi/v1';
+// 合约统计数据使用单独的路径
+const BINANCE_DATA_BASE = 'https://fapi.binance.com/futures/data';
+
+// Binance 出错时返回 { code, msg }，成功时直接返回数据
+const unwrapBinance = (data: any) => {
+  if (data && !Array.isArray(data) && typeof data.code === 'number' && data.msg) {
+    throw new Error(`Binance API 错误: ${data.msg} (Code: ${data.code})`);
+  }
+  return data;
+};
+
+const request = (path: string, log: LogCallback, signal?: AbortSignal) => fetchWithRetry(`${BINANCE_BASE}${path}`, unwrapBinance, log, signal);
+const requestData = (path: string, log: LogCallback, signal?: AbortSignal) => fetchWithRetry(`${BINANCE_DATA_BASE}${path}`, unwrapBinance, log, signal);
+
+// ETH-USDT-SWAP -> ETHUSDT
+const toBinanceSymbol = (symbol: string) => {
+  const { base, quote } = splitSymbol(symbol);
+  return `${base}${quote}`;
+};
+
+// Binance 深度只接受固定档位
+const BINANCE_DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000];
+
+export const binanceProvider: MarketDataProvider = {
+  id: ExchangeType.BINANCE,
+  name: 'Binance',
+
+  async fetchKlines(symbol: string, timeframe: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]> {
+    // Binance klines: [openTime, o, h, l, c, vol, closeTime, quoteVol, trades, ...]，最旧在前
+    const klinesData = await request(`/klines?symbol=${toBinanceSymbol(symbol)}&interval=${timeframe}&limit=${limit}`, log, signal);
+    if (!Array.isArray(klinesData)) {
+      throw new Error(`${timeframe} 周期数据格式非法`);
+    }
+
+    return klinesData.map((d: any) => ({
+      timestamp: d[0],
+      open: parseFloat(d[1]),
+      high: parseFloat(d[2]),
+      low: parseFloat(d[3]),
+      close: parseFloat(d[4]),
+      volume: parseFloat(d[5]),
+    }));
+  },
+
+  async fetchOrderBook(symbol: string, depth: number, log: LogCallback, signal?: AbortSignal): Promise<OrderBook> {
+    const limit = BINANCE_DEPTH_LIMITS.find(l => l >= depth) ?? 1000;
+    const book = await request(`/depth?symbol=${toBinanceSymbol(symbol)}&limit=${limit}`, log, signal);
+    return {
+      bids: (book.bids || []).slice(0, depth),
+      asks: (book.asks || []).slice(0, depth)
+    };
+  },
+
+  async fetchTicker(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<Ticker> {
+    const ticker = await request(`/ticker/24hr?symbol=${toBinanceSymbol(symbol)}`, log, signal);
+    return {
+      last: parseFloat(ticker.lastPrice || 0),
+      open24h: parseFloat(ticker.openPrice || 0),
+      high24h: parseFloat(ticker.highPrice || 0),
+      low24h: parseFloat(ticker.lowPrice || 0),
+      vol24h: parseFloat(ticker.volume || 0)
+    };
+  },
+
+  async fetchTrades(symbol: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Trade[]> {
+    const trades = await request(`/trades?symbol=${toBinanceSymbol(symbol)}&limit=${Math.min(limit, 1000)}`, log, signal);
+    // isBuyerMaker 为 true 表示主动卖出
+    return trades.map((d: any) => ({
+      tradeId: String(d.id),
+      timestamp: d.time,
+      price: parseFloat(d.price),
+      size: parseFloat(d.qty),
+      side: d.isBuyerMaker ? 'sell' : 'buy'
+    }));
+  },
+
+  async fetchTakerVolume(symbol: string, period: '5m' | '1h', limit: number, log: LogCallback, signal?: AbortSignal): Promise<TakerBucket[]> {
+    const rows = await requestData(`/takerlongshortRatio?symbol=${toBinanceSymbol(symbol)}&period=${period}&limit=${limit}`, log, signal);
+    return rows
+      .map((d: any) => ({
+        timestamp: d.timestamp,
+        buyVolume: parseFloat(d.buyVol),
+        sellVolume: parseFloat(d.sellVol)
+      }))
+      .sort((a: TakerBucket, b: TakerBucket) => a.timestamp - b.timestamp);
+  },
+
+  // Binance 已下线公开的强平订单 REST 接口，liquidations 恒为 null
+  async fetchDerivatives(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<DerivativesData> {
+    const pair = toBinanceSymbol(symbol);
+    const premium = await request(`/premiumIndex?symbol=${pair}`, log, signal);
+    const oi = await request(`/openInterest?symbol=${pair}`, log, signal);
+    // 持仓历史为最旧在前
+    const oiHistory = await tryOrNull(() => requestData(`/openInterestHist?symbol=${pair}&period=1h&limit=25`, log, signal));
+    const topRatio = await tryOrNull(() => requestData(`/topLongShortAccountRatio?symbol=${pair}&period=5m&limit=1`, log, signal));
+
+    const openInterest = parseFloat(oi.openInterest || 0);
+    const markPrice = parseFloat(premium.markPrice || 0);
+    const indexPrice = parseFloat(premium.indexPrice || 0);
+    const latestHist = oiHistory?.[oiHistory.length - 1];
+    return {
+      // lastFundingRate 即本期实时预测费率
+      fundingRate: parseFloat(premium.lastFundingRate || 0),
+      nextFundingRate: null,
+      nextFundingTime: premium.nextFundingTime || 0,
+      openInterest,
+      openInterestUsd: latestHist ? parseFloat(latestHist.sumOpenInterestValue) : null,
+      openInterestChange: oiHistory?.length ? openInterestChange(openInterest, parseFloat(oiHistory[0].sumOpenInterest)) : null,
+      longShortRatio: topRatio?.[0] ? parseFloat(topRatio[0].longShortRatio) : null,
+      markPrice,
+      indexPrice,
+      ...buildBasis(markPrice, indexPrice),
+      liquidations: null
+    };
+  },
+
+  getTradeUrl(symbol: string) {
+    return `https://www.binance.com/zh-CN/futures/${toBinanceSymbol(symbol)}`;
+  }
+};
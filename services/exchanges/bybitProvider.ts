@@ -0,0 +1,131 @@
+import { Kline, MarketDataProvider, ExchangeType, OrderBook, Ticker, Trade, DerivativesData, LogCallback, InstrumentSpec } from '../../types';
+import { fetchWithRetry, splitSymbol, tryOrNull, buildBasis, openInterestChange } from './httpClient';
+
+// Bybit V5 API 基础路径 (category=linear 为 USDT 永续)
+const BYBIT_BASE = 'https://api.bybit.com/v5/market';
+
+const unwrapBybit = (data: any) => {
+  if (data.retCode !== 0) {
+    throw new Error(`Bybit API 错误: ${data.retMsg} (Code: ${data.retCode})`);
+  }
+  return data.result;
+};
+
+const request = (path: string, log: LogCallback, signal?: AbortSignal) => fetchWithRetry(`${BYBIT_BASE}${path}`, unwrapBybit, log, signal);
+
+// ETH-USDT-SWAP -> ETHUSDT
+const toBybitSymbol = (symbol: string) => {
+  const { base, quote } = splitSymbol(symbol);
+  return `${base}${quote}`;
+};
+
+// 将前端周期映射为 Bybit 周期参数 (分钟数或 D)
+const mapInterval = (tf: string) => {
+  switch(tf) {
+    case '15m': return '15';
+    case '1h': return '60';
+    case '4h': return '240';
+    case '1d': return 'D';
+    default: return '60';
+  }
+};
+
+export const bybitProvider: MarketDataProvider = {
+  id: ExchangeType.BYBIT,
+  name: 'Bybit',
+
+  async fetchKlines(symbol: string, timeframe: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]> {
+    // Bybit kline: [startTime, o, h, l, c, volume, turnover]，最新在前
+    const result = await request(`/kline?category=linear&symbol=${toBybitSymbol(symbol)}&interval=${mapInterval(timeframe)}&limit=${limit}`, log, signal);
+    if (!Array.isArray(result?.list)) {
+      throw new Error(`${timeframe} 周期数据格式非法`);
+    }
+
+    return result.list.map((d: any) => ({
+      timestamp: parseInt(d[0]),
+      open: parseFloat(d[1]),
+      high: parseFloat(d[2]),
+      low: parseFloat(d[3]),
+      close: parseFloat(d[4]),
+      volume: parseFloat(d[5]),
+    })).reverse();
+  },
+
+  async fetchOrderBook(symbol: string, depth: number, log: LogCallback, signal?: AbortSignal): Promise<OrderBook> {
+    const book = await request(`/orderbook?category=linear&symbol=${toBybitSymbol(symbol)}&limit=${depth}`, log, signal);
+    return {
+      bids: book.b || [],
+      asks: book.a || []
+    };
+  },
+
+  async fetchTicker(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<Ticker> {
+    const result = await request(`/tickers?category=linear&symbol=${toBybitSymbol(symbol)}`, log, signal);
+    const ticker = result?.list?.[0] || {};
+    return {
+      last: parseFloat(ticker.lastPrice || 0),
+      open24h: parseFloat(ticker.prevPrice24h || 0),
+      high24h: parseFloat(ticker.highPrice24h || 0),
+      low24h: parseFloat(ticker.lowPrice24h || 0),
+      vol24h: parseFloat(ticker.volume24h || 0)
+    };
+  },
+
+  // Bybit 没有公开的主动买卖量统计接口，仅提供逐笔成交
+  async fetchTrades(symbol: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Trade[]> {
+    const result = await request(`/recent-trade?category=linear&symbol=${toBybitSymbol(symbol)}&limit=${Math.min(limit, 1000)}`, log, signal);
+    return (result?.list || []).map((d: any) => ({
+      tradeId: d.execId,
+      timestamp: parseInt(d.time),
+      price: parseFloat(d.price),
+      size: parseFloat(d.size),
+      side: d.side === 'Buy' ? 'buy' : 'sell'
+    })).reverse();
+  },
+
+  // Bybit 的多空比为全体账户口径，强平数据仅在 WebSocket 提供
+  async fetchDerivatives(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<DerivativesData> {
+    const pair = toBybitSymbol(symbol);
+    const result = await request(`/tickers?category=linear&symbol=${pair}`, log, signal);
+    const ticker = result?.list?.[0] || {};
+    // 持仓历史为最新在前
+    const oiHistory = await tryOrNull(() => request(`/open-interest?category=linear&symbol=${pair}&intervalTime=1h&limit=25`, log, signal));
+    const ratio = await tryOrNull(() => request(`/account-ratio?category=linear&symbol=${pair}&period=5min&limit=1`, log, signal));
+
+    const openInterest = parseFloat(ticker.openInterest || 0);
+    const markPrice = parseFloat(ticker.markPrice || 0);
+    const indexPrice = parseFloat(ticker.indexPrice || 0);
+    const history = oiHistory?.list || [];
+    const latestRatio = ratio?.list?.[0];
+    return {
+      fundingRate: parseFloat(ticker.fundingRate || 0),
+      nextFundingRate: null,
+      nextFundingTime: parseInt(ticker.nextFundingTime || 0),
+      openInterest,
+      openInterestUsd: ticker.openInterestValue ? parseFloat(ticker.openInterestValue) : null,
+      openInterestChange: history.length ? openInterestChange(openInterest, parseFloat(history[history.length - 1].openInterest)) : null,
+      longShortRatio: latestRatio && parseFloat(latestRatio.sellRatio) > 0 ? parseFloat(latestRatio.buyRatio) / parseFloat(latestRatio.sellRatio) : null,
+      markPrice,
+      indexPrice,
+      ...buildBasis(markPrice, indexPrice),
+      liquidations: null
+    };
+  },
+
+  // Bybit 线性合约以币为下单单位，相当于面值为 1 的合约
+  async fetchInstrument(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<InstrumentSpec> {
+    const result = await request(`/instruments-info?category=linear&symbol=${toBybitSymbol(symbol)}`, log, signal);
+    const inst = result?.list?.[0];
+    if (!inst) throw new Error(`Bybit 未找到合约 ${symbol}`);
+    return {
+      ctVal: 1,
+      lotSz: parseFloat(inst.lotSizeFilter.qtyStep),
+      minSz: parseFloat(inst.lotSizeFilter.minOrderQty),
+      tickSz: parseFloat(inst.priceFilter.tickSize)
+    };
+  },
+
+  getTradeUrl(symbol: string) {
+    return `https://www.bybit.com/trade/usdt/${toBybitSymbol(symbol)}`;
+  }
+};
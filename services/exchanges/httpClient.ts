@@ -0,0 +1,98 @@
+import { LogCallback } from '../../types';
+import { abortable, createAbortError, throwIfAborted } from '../abort';
+
+// 经过验证的相对稳定的公共代理列表
+const CORS_PROXIES = [
+  'https://api.allorigins.win/raw?url=',
+  'https://corsproxy.io/?',
+  'https://api.codetabs.com/v1/proxy?quest=',
+];
+
+// Node 环境 (后台服务) 没有 CORS 限制，直接请求交易所接口
+const DIRECT = typeof window === 'undefined';
+
+// 辅助：随机延迟
+export const jitter = (ms: number) => new Promise(r => setTimeout(r, ms + Math.random() * 500));
+
+// 各交易所的响应包装不同，由调用方负责校验业务错误码并取出数据
+export type ResponseUnwrapper = (data: any) => any;
+
+export async function fetchWithRetry(
+  targetUrl: string,
+  unwrap: ResponseUnwrapper,
+  logCallback: LogCallback,
+  signal?: AbortSignal,
+  retryCount = 3
+): Promise<any> {
+  let lastError: any = null;
+
+  for (let attempt = 0; attempt <= retryCount; attempt++) {
+    throwIfAborted(signal);
+    const proxy = CORS_PROXIES[attempt % CORS_PROXIES.length];
+    const requestUrl = DIRECT ? targetUrl : `${proxy}${encodeURIComponent(targetUrl)}`;
+    
+    try {
+      if (attempt > 0) {
+        logCallback(DIRECT ? `重试第 ${attempt} 次` : `重试第 ${attempt} 次: 切换至代理 ${new URL(proxy).hostname}`, 'WARN');
+        await abortable(jitter(1000 * attempt), signal);
+      }
+
+      // 超时与外部取消共用一个 controller，取消时底层请求一并中断
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 12000);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const res = await fetch(requestUrl, { signal: controller.signal }).finally(() => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      });
+
+      if (!res.ok) {
+        throw new Error(`代理/API 返回错误状态: ${res.status}`);
+      }
+
+      const text = await res.text();
+      let data: any;
+
+      try {
+        data = JSON.parse(text);
+      } catch (e) {
+        throw new Error('返回内容非合法 JSON (可能是代理拦截)');
+      }
+
+      return unwrap(data);
+    } catch (e: any) {
+      // 用户取消不再重试，也不算失败
+      if (signal?.aborted) throw createAbortError();
+      logCallback(`尝试 ${attempt + 1} 失败: ${e.message}`, 'WARN');
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
+
+// 次要数据获取失败时返回 null，不中断整体流程
+export const tryOrNull = async <T>(fn: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await fn();
+  } catch (e) {
+    return null;
+  }
+};
+
+// 计算基差
+export const buildBasis = (markPrice: number, indexPrice: number) => ({
+  basis: markPrice - indexPrice,
+  basisPercent: indexPrice > 0 ? (markPrice - indexPrice) / indexPrice * 100 : 0
+});
+
+// 计算 24h 持仓量变化百分比
+export const openInterestChange = (latest: number, dayAgo: number | undefined) =>
+  dayAgo && dayAgo > 0 ? (latest - dayAgo) / dayAgo * 100 : null;
+
+// 将 OKX 风格合约 ID (ETH-USDT-SWAP) 拆成基础币与计价币
+export const splitSymbol = (symbol: string) => {
+  const [base, quote = 'USDT'] = symbol.split('-');
+  return { base, quote };
+};
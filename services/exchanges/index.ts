@@ -0,0 +1,16 @@
+import { ExchangeType, MarketDataProvider } from '../../types';
+import { okxProvider } from './okxProvider';
+import { binanceProvider } from './binanceProvider';
+import { bybitProvider } from './bybitProvider';
+
+const PROVIDERS: Record<ExchangeType, MarketDataProvider> = {
+  [ExchangeType.OKX]: okxProvider,
+  [ExchangeType.BINANCE]: binanceProvider,
+  [ExchangeType.BYBIT]: bybitProvider
+};
+
+export const getMarketProvider = (exchange: ExchangeType): MarketDataProvider => {
+  const provider = PROVIDERS[exchange];
+  if (!provider) throw new Error(`不支持的交易所: ${exchange}`);
+  return provider;
+};
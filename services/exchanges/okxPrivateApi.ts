@@ -0,0 +1,129 @@
+import { ExchangePosition, InstrumentSpec, OrderPlan } from '../../types';
+import { hmacSha256Base64 } from '../crypto';
+
+export interface OkxCredentials {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+  baseUrl: string;
+  demoTrading: boolean;
+}
+
+// long_short_mode 下单与设置逐仓杠杆时需要 posSide
+export type OkxPositionMode = 'long_short_mode' | 'net_mode';
+
+export interface OkxPrivateApi {
+  getInstrument(instId: string): Promise<InstrumentSpec>;
+  getPositionMode(): Promise<OkxPositionMode>;
+  setLeverage(plan: OrderPlan, posMode: OkxPositionMode): Promise<void>;
+  // 返回交易所订单号
+  placeOrder(plan: OrderPlan, posMode: OkxPositionMode, clOrdId: string): Promise<string>;
+  getPositions(): Promise<ExchangePosition[]>;
+}
+
+export type OkxRequestLogger = (method: string, path: string, body: unknown, response: unknown) => void;
+
+const num = (value: string | undefined): number | null => value === undefined || value === '' ? null : parseFloat(value);
+
+const posSideOf = (plan: OrderPlan, posMode: OkxPositionMode) =>
+  posMode === 'long_short_mode' ? { posSide: plan.side === 'buy' ? 'long' : 'short' } : {};
+
+// OKX V5 私有接口：签名 = Base64(HMAC-SHA256(timestamp + method + requestPath + body, secretKey))
+// 请求直接发往 baseUrl，不经过公共 CORS 代理，避免密钥外泄
+export const createOkxPrivateApi = (credentials: OkxCredentials, logRequest: OkxRequestLogger = () => {}): OkxPrivateApi => {
+  const baseUrl = credentials.baseUrl.trim().replace(/\/+$/, '');
+
+  const request = async (method: 'GET' | 'POST', path: string, body?: object): Promise<any[]> => {
+    const timestamp = new Date().toISOString();
+    const payload = body ? JSON.stringify(body) : '';
+    const sign = await hmacSha256Base64(credentials.secretKey, `${timestamp}${method}${path}${payload}`);
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'OK-ACCESS-KEY': credentials.apiKey,
+        'OK-ACCESS-SIGN': sign,
+        'OK-ACCESS-TIMESTAMP': timestamp,
+        'OK-ACCESS-PASSPHRASE': credentials.passphrase,
+        ...(credentials.demoTrading ? { 'x-simulated-trading': '1' } : {})
+      },
+      body: payload || undefined
+    });
+    const text = await response.text();
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`OKX 返回非 JSON 响应 (HTTP ${response.status}): ${text.slice(0, 200)}`);
+    }
+    logRequest(method, path, body ?? null, data);
+    // 批量类接口整体 code 为 0 时，单条结果仍可能通过 sCode 报错
+    const item = data.data?.[0];
+    if (data.code !== '0') throw new Error(`OKX API 错误: ${item?.sMsg || data.msg} (Code: ${item?.sCode || data.code})`);
+    if (item?.sCode && item.sCode !== '0') throw new Error(`OKX API 错误: ${item.sMsg} (Code: ${item.sCode})`);
+    return data.data;
+  };
+
+  return {
+    getInstrument: async (instId) => {
+      const [inst] = await request('GET', `/api/v5/public/instruments?instType=SWAP&instId=${instId}`);
+      if (!inst) throw new Error(`OKX 未找到合约 ${instId}`);
+      return { ctVal: parseFloat(inst.ctVal), lotSz: parseFloat(inst.lotSz), minSz: parseFloat(inst.minSz), tickSz: parseFloat(inst.tickSz) };
+    },
+
+    getPositionMode: async () => {
+      const [config] = await request('GET', '/api/v5/account/config');
+      return config.posMode;
+    },
+
+    setLeverage: async (plan, posMode) => {
+      await request('POST', '/api/v5/account/set-leverage', {
+        instId: plan.instId,
+        lever: String(plan.leverage),
+        mgnMode: plan.marginMode,
+        ...(plan.marginMode === 'isolated' ? posSideOf(plan, posMode) : {})
+      });
+    },
+
+    placeOrder: async (plan, posMode, clOrdId) => {
+      // 止盈止损随委托一起提交，成交后由交易所挂出，均以市价触发平仓
+      // 多档止盈时每档带各自的平仓张数，止损在各档上保持一致
+      const split = plan.takeProfits.length > 1;
+      const [order] = await request('POST', '/api/v5/trade/order', {
+        instId: plan.instId,
+        tdMode: plan.marginMode,
+        side: plan.side,
+        ordType: plan.ordType,
+        sz: String(plan.contracts),
+        ...(plan.price !== null ? { px: String(plan.price) } : {}),
+        ...posSideOf(plan, posMode),
+        clOrdId,
+        attachAlgoOrds: plan.takeProfits.map(tp => ({
+          tpTriggerPx: String(tp.price),
+          tpOrdPx: '-1',
+          slTriggerPx: String(plan.stopLoss),
+          slOrdPx: '-1',
+          ...(split ? { sz: String(tp.contracts) } : {})
+        }))
+      });
+      return order.ordId;
+    },
+
+    getPositions: async () => {
+      const rows = await request('GET', '/api/v5/account/positions?instType=SWAP');
+      return rows
+        .filter((p: any) => parseFloat(p.pos) !== 0)
+        .map((p: any): ExchangePosition => ({
+          instId: p.instId,
+          side: p.posSide === 'long' ? 'LONG' : p.posSide === 'short' ? 'SHORT' : 'NET',
+          contracts: parseFloat(p.pos),
+          avgPrice: num(p.avgPx) ?? 0,
+          markPrice: num(p.markPx) ?? 0,
+          unrealizedPnl: num(p.upl) ?? 0,
+          leverage: num(p.lever) ?? 0,
+          liquidationPrice: num(p.liqPx),
+          marginMode: p.mgnMode
+        }));
+    }
+  };
+};
@@ -0,0 +1,160 @@
+import { Kline, MarketDataProvider, ExchangeType, OrderBook, Ticker, Trade, TakerBucket, DerivativesData, LiquidationStats, LogCallback, InstrumentSpec } from '../../types';
+import { fetchWithRetry, tryOrNull, buildBasis, openInterestChange, splitSymbol } from './httpClient';
+
+// OKX V5 API 基础路径
+const OKX_BASE = 'https://www.okx.com/api/v5';
+
+// OKX API 特有的错误处理
+const unwrapOkx = (data: any) => {
+  if (data.code !== "0") {
+    throw new Error(`OKX API 错误: ${data.msg} (Code: ${data.code})`);
+  }
+  return data.data;
+};
+
+const request = (path: string, log: LogCallback, signal?: AbortSignal) => fetchWithRetry(`${OKX_BASE}${path}`, unwrapOkx, log, signal);
+
+// 将前端周期映射为 OKX 周期参数
+const mapInterval = (tf: string) => {
+  switch(tf) {
+    case '15m': return '15m';
+    case '1h': return '1H';
+    case '4h': return '4H';
+    case '1d': return '1Dutc';
+    default: return '1H';
+  }
+};
+
+// OKX candles: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+// OKX 返回的是最新在前，需要反转以适配指标计算逻辑
+const toKlines = (rows: any[]): Kline[] => rows.map((d: any) => ({
+  timestamp: parseInt(d[0]),
+  open: parseFloat(d[1]),
+  high: parseFloat(d[2]),
+  low: parseFloat(d[3]),
+  close: parseFloat(d[4]),
+  volume: parseFloat(d[5]),
+})).reverse();
+
+export const okxProvider: MarketDataProvider = {
+  id: ExchangeType.OKX,
+  name: 'OKX',
+
+  async fetchKlines(symbol: string, timeframe: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]> {
+    const klinesData = await request(`/market/candles?instId=${symbol}&bar=${mapInterval(timeframe)}&limit=${limit}`, log, signal);
+    if (!Array.isArray(klinesData)) {
+      throw new Error(`${timeframe} 周期数据格式非法`);
+    }
+
+    return toKlines(klinesData);
+  },
+
+  async fetchHistoryKlines(symbol: string, timeframe: string, before: number, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]> {
+    // after 参数表示返回早于该时间戳的数据，最新在前
+    const klinesData = await request(`/market/history-candles?instId=${symbol}&bar=${mapInterval(timeframe)}&after=${before}&limit=${Math.min(limit, 100)}`, log, signal);
+    if (!Array.isArray(klinesData)) {
+      throw new Error(`${timeframe} 历史数据格式非法`);
+    }
+    return toKlines(klinesData);
+  },
+
+  async fetchOrderBook(symbol: string, depth: number, log: LogCallback, signal?: AbortSignal): Promise<OrderBook> {
+    // OKX books: [price, size, 废弃字段, 订单数]
+    const books = await request(`/market/books?instId=${symbol}&sz=${depth}`, log, signal);
+    const toLevels = (levels: any[] = []) => levels.map(l => [l[0], l[1]] as [string, string]);
+    return {
+      bids: toLevels(books[0]?.bids),
+      asks: toLevels(books[0]?.asks)
+    };
+  },
+
+  async fetchTicker(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<Ticker> {
+    const tickerArr = await request(`/market/ticker?instId=${symbol}`, log, signal);
+    const ticker = tickerArr[0] || {};
+    return {
+      last: parseFloat(ticker.last || 0),
+      open24h: parseFloat(ticker.open24h || 0),
+      high24h: parseFloat(ticker.high24h || 0),
+      low24h: parseFloat(ticker.low24h || 0),
+      vol24h: parseFloat(ticker.vol24h || 0)
+    };
+  },
+
+  async fetchTrades(symbol: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Trade[]> {
+    const trades = await request(`/market/trades?instId=${symbol}&limit=${Math.min(limit, 500)}`, log, signal);
+    return trades.map((d: any) => ({
+      tradeId: d.tradeId,
+      timestamp: parseInt(d.ts),
+      price: parseFloat(d.px),
+      size: parseFloat(d.sz),
+      side: d.side
+    })).reverse();
+  },
+
+  async fetchTakerVolume(symbol: string, period: '5m' | '1h', limit: number, log: LogCallback, signal?: AbortSignal): Promise<TakerBucket[]> {
+    // unit=1 以张为单位，与逐笔成交 sz 保持一致；返回 [ts, sellVol, buyVol]，最新在前
+    const rows = await request(`/rubik/stat/taker-volume-contract?instId=${symbol}&period=${period === '1h' ? '1H' : '5m'}&unit=1&limit=${limit}`, log, signal);
+    return rows.map((d: any) => ({
+      timestamp: parseInt(d[0]),
+      sellVolume: parseFloat(d[1]),
+      buyVolume: parseFloat(d[2])
+    })).reverse();
+  },
+
+  async fetchDerivatives(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<DerivativesData> {
+    const { base, quote } = splitSymbol(symbol);
+    const [funding] = await request(`/public/funding-rate?instId=${symbol}`, log, signal);
+    const [oi] = await request(`/public/open-interest?instType=SWAP&instId=${symbol}`, log, signal);
+    const [mark] = await request(`/public/mark-price?instType=SWAP&instId=${symbol}`, log, signal);
+    const [index] = await request(`/market/index-tickers?instId=${base}-${quote}`, log, signal);
+
+    // 以下为统计类数据，失败时不影响主流程
+    // 持仓历史: [ts, oi, oiCcy, oiUsd]，最新在前
+    const oiHistory = await tryOrNull(() => request(`/rubik/stat/contracts/open-interest-history?instId=${symbol}&period=1H&limit=25`, log, signal));
+    const topRatio = await tryOrNull(() => request(`/rubik/stat/contracts/long-short-account-ratio-contract-top-trader?instId=${symbol}&period=5m&limit=1`, log, signal));
+    const liquidationOrders = await tryOrNull(() => request(`/public/liquidation-orders?instType=SWAP&uly=${base}-${quote}&state=filled&limit=100`, log, signal));
+
+    let liquidations: LiquidationStats | null = null;
+    if (Array.isArray(liquidationOrders)) {
+      const details = liquidationOrders.flatMap((o: any) => o.details || []);
+      liquidations = {
+        longVolume: details.filter((d: any) => d.posSide === 'long' || (d.posSide === 'net' && d.side === 'sell')).reduce((acc: number, d: any) => acc + parseFloat(d.sz), 0),
+        shortVolume: details.filter((d: any) => d.posSide === 'short' || (d.posSide === 'net' && d.side === 'buy')).reduce((acc: number, d: any) => acc + parseFloat(d.sz), 0),
+        count: details.length,
+        since: details.reduce((min: number, d: any) => Math.min(min, parseInt(d.ts)), Date.now())
+      };
+    }
+
+    const openInterest = parseFloat(oi?.oi || 0);
+    const markPrice = parseFloat(mark?.markPx || 0);
+    const indexPrice = parseFloat(index?.idxPx || 0);
+    return {
+      fundingRate: parseFloat(funding?.fundingRate || 0),
+      nextFundingRate: funding?.nextFundingRate ? parseFloat(funding.nextFundingRate) : null,
+      nextFundingTime: parseInt(funding?.fundingTime || 0),
+      openInterest,
+      openInterestUsd: oi?.oiUsd ? parseFloat(oi.oiUsd) : null,
+      openInterestChange: oiHistory?.length ? openInterestChange(parseFloat(oiHistory[0][1]), parseFloat(oiHistory[oiHistory.length - 1][1])) : null,
+      longShortRatio: topRatio?.[0] ? parseFloat(topRatio[0][1]) : null,
+      markPrice,
+      indexPrice,
+      ...buildBasis(markPrice, indexPrice),
+      liquidations
+    };
+  },
+
+  async fetchInstrument(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<InstrumentSpec> {
+    const [inst] = await request(`/public/instruments?instType=SWAP&instId=${symbol}`, log, signal);
+    if (!inst) throw new Error(`OKX 未找到合约 ${symbol}`);
+    return {
+      ctVal: parseFloat(inst.ctVal),
+      lotSz: parseFloat(inst.lotSz),
+      minSz: parseFloat(inst.minSz),
+      tickSz: parseFloat(inst.tickSz)
+    };
+  },
+
+  getTradeUrl(symbol: string) {
+    return `https://www.okx.com/trade-swap/${symbol.toLowerCase()}`;
+  }
+};
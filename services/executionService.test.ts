@@ -0,0 +1,143 @@
+import { createHmac } from 'node:crypto';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AIAnalysis, ExecutionConfig, OrderPlan } from '../types';
+import { buildOrderPlan, DEFAULT_EXECUTION_CONFIG, executeOrder } from './executionService';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+const SECRET = 'test-secret';
+
+// 本地模拟 OKX V5 私有接口，记录收到的每个请求
+const RESPONSES: Record<string, unknown[]> = {
+  'GET /api/v5/public/instruments': [{ ctVal: '0.1', lotSz: '0.01', minSz: '0.01', tickSz: '0.1' }],
+  'GET /api/v5/account/config': [{ posMode: 'net_mode' }],
+  'POST /api/v5/account/set-leverage': [{ lever: '5' }],
+  'POST /api/v5/trade/order': [{ ordId: '12345', sCode: '0', sMsg: '' }]
+};
+
+let server: Server;
+let requests: RecordedRequest[] = [];
+let config: ExecutionConfig;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method!, path: req.url!, headers: req.headers, body });
+      const data = RESPONSES[`${req.method} ${req.url!.split('?')[0]}`];
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data ? { code: '0', msg: '', data } : { code: '50000', msg: 'unknown path', data: [] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  const { port } = server.address() as AddressInfo;
+  config = {
+    ...DEFAULT_EXECUTION_CONFIG,
+    enabled: true,
+    dryRun: false,
+    apiKey: 'key',
+    secretKey: SECRET,
+    passphrase: 'pass',
+    baseUrl: `http://127.0.0.1:${port}`
+  };
+});
+
+const analysis = (overrides: Partial<AIAnalysis['strategy']> = {}): AIAnalysis => ({
+  sentiment: 'Bullish',
+  analysis: '',
+  strategy: {
+    action: 'LONG',
+    entry: { low: 3000, high: 3000 },
+    takeProfits: [{ price: 3100, sizePercent: 50 }, { price: 3200, sizePercent: 50 }],
+    stopLoss: 2970,
+    leverage: 5,
+    expiresAt: Date.now() + 60 * 60 * 1000,
+    riskReward: null,
+    ...overrides
+  },
+  risk: {
+    contracts: 3.339,
+    contractValue: 0.1,
+    notional: 1001.7,
+    margin: 200.34,
+    leverage: 5,
+    liquidationPrice: 2415,
+    lossAtStop: 10.017,
+    riskPercent: 1,
+    violations: [],
+    blocked: false
+  }
+});
+
+const planFor = (a: AIAnalysis): OrderPlan => buildOrderPlan(a, 'ETH-USDT-SWAP', 2900, config).plan!;
+
+const noop = () => {};
+
+describe('executeOrder', () => {
+  it('按 OKX 规则签名并把张数向下取整到下单步长', async () => {
+    config.maxNotional = 2000;
+    const a = analysis();
+    const ordId = await executeOrder(planFor(a), a, config, noop);
+    expect(ordId).toBe('12345');
+
+    for (const req of requests) {
+      const expected = createHmac('sha256', SECRET).update(`${req.headers['ok-access-timestamp']}${req.method}${req.path}${req.body}`).digest('base64');
+      expect(req.headers['ok-access-sign']).toBe(expected);
+      expect(req.headers['ok-access-key']).toBe('key');
+      expect(req.headers['ok-access-passphrase']).toBe('pass');
+      expect(req.headers['x-simulated-trading']).toBe('1');
+    }
+
+    const order = JSON.parse(requests.find(r => r.path === '/api/v5/trade/order')!.body);
+    expect(order.sz).toBe('3.33');
+    expect(order.px).toBe('3000');
+    expect(order.attachAlgoOrds).toEqual([
+      { tpTriggerPx: '3100', tpOrdPx: '-1', slTriggerPx: '2970', slOrdPx: '-1', sz: '1.66' },
+      { tpTriggerPx: '3200', tpOrdPx: '-1', slTriggerPx: '2970', slOrdPx: '-1', sz: '1.67' }
+    ]);
+  });
+
+  it('DRY-RUN 只记录不发送任何请求', async () => {
+    config.dryRun = true;
+    config.maxNotional = 2000;
+    const a = analysis();
+    await expect(executeOrder(planFor(a), a, config, noop)).resolves.toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('紧急停止开启时拒绝下单', async () => {
+    config.killSwitch = true;
+    config.maxNotional = 2000;
+    const a = analysis();
+    await expect(executeOrder(planFor(a), a, config, noop)).rejects.toThrow('紧急停止已开启');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('名义价值超过上限时拒绝下单', async () => {
+    config.maxNotional = 1000;
+    const a = analysis();
+    await expect(executeOrder(planFor(a), a, config, noop)).rejects.toThrow('超过上限 1000 U');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('策略已失效时拒绝下单', async () => {
+    config.maxNotional = 2000;
+    const a = analysis({ expiresAt: Date.now() - 1000 });
+    await expect(executeOrder(planFor(a), a, config, noop)).rejects.toThrow('失效');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { AIAnalysis, ExchangePosition, ExecutionConfig, InstrumentSpec, LogCallback, OrderPlan } from '../types';
+import { getStrategyLevels, isMarketEntry } from './strategyService';
+import { floorToStep, RISK_VIOLATION_LABELS, roundToStep } from './riskService';
+import { createOkxPrivateApi, OkxPositionMode } from './exchanges/okxPrivateApi';
+
+export const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
+  enabled: false,
+  apiKey: '',
+  secretKey: '',
+  passphrase: '',
+  baseUrl: 'https://www.okx.com',
+  demoTrading: true,
+  dryRun: true,
+  maxNotional: 1000,
+  marginMode: 'isolated',
+  killSwitch: false
+};
+
+const hasCredentials = (config: ExecutionConfig) => !!(config.apiKey && config.secretKey && config.passphrase);
+
+// 把模型策略与风控仓位折算为一笔委托；无法下单时返回原因
+export const buildOrderPlan = (
+  analysis: AIAnalysis,
+  symbol: string,
+  price: number,
+  config: ExecutionConfig
+): { plan: OrderPlan | null; reason: string | null } => {
+  const levels = getStrategyLevels(analysis);
+  if (!levels || analysis.strategy.action === 'WAIT') return { plan: null, reason: '当前信号没有可执行的入场计划' };
+  if (!symbol.endsWith('-SWAP')) return { plan: null, reason: '仅支持 OKX 永续合约' };
+  if (!analysis.risk) return { plan: null, reason: '缺少仓位计算结果，请重新扫描' };
+
+  const { contracts } = analysis.risk;
+  return {
+    plan: {
+      instId: symbol,
+      side: analysis.strategy.action === 'LONG' ? 'buy' : 'sell',
+      ordType: isMarketEntry(analysis.strategy.entry!, price) ? 'market' : 'limit',
+      price: isMarketEntry(analysis.strategy.entry!, price) ? null : levels.entry,
+      contracts,
+      contractValue: analysis.risk.contractValue,
+      leverage: levels.leverage,
+      marginMode: config.marginMode,
+      takeProfits: analysis.strategy.takeProfits.map(tp => ({ ...tp, contracts: contracts * tp.sizePercent / 100 })),
+      stopLoss: levels.sl,
+      notional: analysis.risk.notional
+    },
+    reason: null
+  };
+};
+
+// 安全检查：任何一项不通过都不允许下单 (风控违规在这里一律拦截，不受仅标记模式影响)
+export const getOrderBlockers = (plan: OrderPlan, analysis: AIAnalysis, config: ExecutionConfig): string[] => {
+  const blockers: string[] = [];
+  if (!config.enabled) blockers.push('自动下单未开启');
+  if (config.killSwitch) blockers.push('紧急停止已开启');
+  if (analysis.strategy.expiresAt <= Date.now()) blockers.push(`策略已于 ${new Date(analysis.strategy.expiresAt).toLocaleString()} 失效`);
+  if (!config.dryRun && !hasCredentials(config)) blockers.push('缺少 API Key / Secret / Passphrase');
+  if (plan.notional > config.maxNotional) blockers.push(`名义价值 ${plan.notional.toFixed(2)} U 超过上限 ${config.maxNotional} U`);
+  analysis.risk?.violations.forEach(v => blockers.push(RISK_VIOLATION_LABELS[v]));
+  return blockers;
+};
+
+// 张数只向下取整，名义价值随之按比例缩小，不会超过确认时的数值
+const alignToInstrument = (plan: OrderPlan, inst: InstrumentSpec): OrderPlan => {
+  const contracts = floorToStep(plan.contracts, inst.lotSz);
+  if (contracts < inst.minSz) throw new Error(`下单数量 ${contracts} 张低于最小下单量 ${inst.minSz} 张`);
+  // 前几档止盈各自向下取整，余数归入最后一档，保证合计等于开仓张数
+  const splits = plan.takeProfits.slice(0, -1).map(tp => floorToStep(tp.contracts * contracts / plan.contracts, inst.lotSz));
+  splits.push(roundToStep(contracts - splits.reduce((acc, c) => acc + c, 0), inst.lotSz));
+  const empty = splits.findIndex(c => c < inst.minSz);
+  if (empty >= 0) throw new Error(`第 ${empty + 1} 档止盈数量低于最小下单量 ${inst.minSz} 张`);
+  return {
+    ...plan,
+    contracts,
+    notional: plan.notional * contracts / plan.contracts,
+    price: plan.price === null ? null : roundToStep(plan.price, inst.tickSz),
+    takeProfits: plan.takeProfits.map((tp, i) => ({ ...tp, price: roundToStep(tp.price, inst.tickSz), contracts: splits[i] })),
+    stopLoss: roundToStep(plan.stopLoss, inst.tickSz)
+  };
+};
+
+const describeTakeProfits = (plan: OrderPlan) => plan.takeProfits.map(tp => `${tp.price} (${tp.sizePercent}%)`).join(', ');
+
+const describePlan = (plan: OrderPlan) =>
+  `${plan.instId} ${plan.side.toUpperCase()} ${plan.ordType} ${plan.contracts} 张` +
+  `${plan.price !== null ? ` @ ${plan.price}` : ''} · ${plan.leverage}x ${plan.marginMode} · TP ${describeTakeProfits(plan)} / SL ${plan.stopLoss}`;
+
+// 所有请求与响应都以 [Exec] 前缀写入系统日志，作为审计记录；dry-run 只记录不发送
+export const executeOrder = async (
+  plan: OrderPlan,
+  analysis: AIAnalysis,
+  config: ExecutionConfig,
+  addLog: LogCallback
+): Promise<string | null> => {
+  const blockers = getOrderBlockers(plan, analysis, config);
+  if (blockers.length > 0) {
+    addLog(`[Exec] 拒绝下单 ${plan.instId}: ${blockers.join('; ')}`, 'ERROR');
+    throw new Error(blockers.join('; '));
+  }
+  const clOrdId = `pulse${Date.now()}`;
+  addLog(`[Exec] 用户确认下单 ${clOrdId}: ${describePlan(plan)}${config.demoTrading ? ' [模拟盘]' : ''}`, 'WARN');
+
+  if (config.dryRun) {
+    addLog(`[Exec] DRY-RUN 未发送: set-leverage ${plan.leverage}x, order ${JSON.stringify(plan)}`, 'WARN');
+    return null;
+  }
+
+  const api = createOkxPrivateApi(config, (method, path, body, response) => {
+    addLog(`[Exec] ${method} ${path}${body ? ` ${JSON.stringify(body)}` : ''} -> ${JSON.stringify(response)}`);
+  });
+  try {
+    const inst = await api.getInstrument(plan.instId);
+    // 仓位按扫描时的合约面值计算，与交易所不一致时张数会差若干倍
+    if (Math.abs(inst.ctVal - plan.contractValue) > 1e-9) {
+      throw new Error(`合约面值不一致: 交易所 ${inst.ctVal}，仓位计算 ${plan.contractValue}`);
+    }
+    const aligned = alignToInstrument(plan, inst);
+    // 取整后的委托重新过一遍安全检查，发送的必须是检查过的数量
+    const alignedBlockers = getOrderBlockers(aligned, analysis, config);
+    if (alignedBlockers.length > 0) throw new Error(alignedBlockers.join('; '));
+    const posMode: OkxPositionMode = await api.getPositionMode();
+    await api.setLeverage(aligned, posMode);
+    const ordId = await api.placeOrder(aligned, posMode, clOrdId);
+    addLog(`[Exec] 下单成功 ${clOrdId} -> ordId ${ordId}`, 'SUCCESS');
+    return ordId;
+  } catch (err: any) {
+    addLog(`[Exec] 下单失败 ${clOrdId}: ${err.message}`, 'ERROR');
+    throw err;
+  }
+};
+
+export const fetchExchangePositions = async (config: ExecutionConfig, addLog: LogCallback): Promise<ExchangePosition[]> => {
+  if (!hasCredentials(config)) throw new Error('缺少 API Key / Secret / Passphrase');
+  const positions = await createOkxPrivateApi(config).getPositions();
+  addLog(`[Exec] 读取持仓: ${positions.length > 0 ? positions.map(p => `${p.instId} ${p.side} ${p.contracts} 张 @ ${p.avgPrice}`).join('; ') : '无'}`);
+  return positions;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Trade } from '../types';
+import { aggregateTrades, bucketTrades, buildCvdSeries, buildTakerFlow } from './flowService';
+
+const MINUTE = 60 * 1000;
+
+const trade = (tradeId: string, timestamp: number, side: Trade['side'], size: number): Trade =>
+  ({ tradeId, timestamp, price: 2000, size, side });
+
+const TRADES = [
+  trade('1', 0, 'buy', 2),
+  trade('2', 30 * 1000, 'sell', 1),
+  trade('3', MINUTE, 'buy', 3),
+  trade('4', MINUTE + 10 * 1000, 'sell', 4),
+  trade('5', 2 * MINUTE, 'buy', 1)
+];
+
+describe('aggregateTrades', () => {
+  it('分别汇总主动买入与卖出量', () => {
+    expect(aggregateTrades(TRADES)).toEqual({ buyVolume: 6, sellVolume: 5, netInflow: 1, count: 5, from: 0, to: 2 * MINUTE });
+  });
+
+  it('只统计 since 之后的成交', () => {
+    const agg = aggregateTrades(TRADES, MINUTE);
+    expect(agg.buyVolume).toBe(4);
+    expect(agg.sellVolume).toBe(4);
+    expect(agg.from).toBe(MINUTE);
+  });
+
+  it('REST 与 WebSocket 重叠的成交只计一次', () => {
+    expect(aggregateTrades([...TRADES, TRADES[2], TRADES[3]]).count).toBe(5);
+  });
+
+  it('没有成交时起止时间为 0', () => {
+    expect(aggregateTrades([])).toMatchObject({ count: 0, from: 0, to: 0 });
+  });
+});
+
+describe('bucketTrades', () => {
+  it('按周期起点分桶', () => {
+    expect(bucketTrades(TRADES, MINUTE)).toEqual([
+      { timestamp: 0, buyVolume: 2, sellVolume: 1 },
+      { timestamp: MINUTE, buyVolume: 3, sellVolume: 4 },
+      { timestamp: 2 * MINUTE, buyVolume: 1, sellVolume: 0 }
+    ]);
+  });
+
+  it('重复的 tradeId 不会重复计入', () => {
+    expect(bucketTrades([...TRADES, ...TRADES], MINUTE)).toEqual(bucketTrades(TRADES, MINUTE));
+  });
+});
+
+describe('buildCvdSeries', () => {
+  it('逐桶累加买卖差', () => {
+    expect(buildCvdSeries(bucketTrades(TRADES, MINUTE)).map(p => [p.delta, p.cvd])).toEqual([[1, 1], [-1, 0], [1, 1]]);
+  });
+});
+
+describe('buildTakerFlow', () => {
+  it('没有主动买卖量统计时用逐笔成交，覆盖不足的窗口标记为不完整', () => {
+    const flow = buildTakerFlow(TRADES, {}, 3 * MINUTE);
+    const fiveMin = flow.windows.find(w => w.window === '5m')!;
+    expect(fiveMin).toMatchObject({ buyVolume: 6, sellVolume: 5, netInflow: 1, complete: false });
+    expect(flow.cvd.map(p => p.cvd)).toEqual([1, 0, 1]);
+  });
+
+  it('优先使用交易所的 5m 统计', () => {
+    const now = 60 * MINUTE;
+    const fiveMin = [
+      { timestamp: now - 10 * MINUTE, buyVolume: 10, sellVolume: 4 },
+      { timestamp: now - 5 * MINUTE, buyVolume: 5, sellVolume: 6 }
+    ];
+    const window = buildTakerFlow(TRADES, { '5m': fiveMin }, now).windows.find(w => w.window === '5m')!;
+    expect(window).toMatchObject({ buyVolume: 5, sellVolume: 6, complete: true });
+  });
+});
@@ -0,0 +1,129 @@
+import { Trade, TakerBucket, InflowOutflow, FlowWindow, FlowWindowLabel, CvdPoint, TradeAggregate } from '../types';
+
+const WINDOW_MS: Record<FlowWindowLabel, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000
+};
+
+const BUCKET_MS = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000
+};
+
+// REST 与 WebSocket 数据可能重叠，按 tradeId 去重，保留首次出现的记录
+export const dedupeTrades = (trades: Trade[]): Trade[] => {
+  const seen = new Set<string>();
+  return trades.filter(t => {
+    if (seen.has(t.tradeId)) return false;
+    seen.add(t.tradeId);
+    return true;
+  });
+};
+
+// 汇总逐笔成交中的主动买入与主动卖出量
+export const aggregateTrades = (trades: Trade[], since: number = 0): TradeAggregate => {
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let count = 0;
+  let from = Infinity;
+  let to = 0;
+
+  dedupeTrades(trades).forEach(t => {
+    if (t.timestamp < since) return;
+    if (t.side === 'buy') buyVolume += t.size;
+    else sellVolume += t.size;
+    count++;
+    from = Math.min(from, t.timestamp);
+    to = Math.max(to, t.timestamp);
+  });
+
+  return {
+    buyVolume,
+    sellVolume,
+    netInflow: buyVolume - sellVolume,
+    count,
+    from: count > 0 ? from : 0,
+    to
+  };
+};
+
+// 将逐笔成交按固定周期分桶
+export const bucketTrades = (trades: Trade[], bucketMs: number): TakerBucket[] => {
+  const buckets = new Map<number, TakerBucket>();
+  dedupeTrades(trades).forEach(t => {
+    const ts = Math.floor(t.timestamp / bucketMs) * bucketMs;
+    const bucket = buckets.get(ts) ?? { timestamp: ts, buyVolume: 0, sellVolume: 0 };
+    if (t.side === 'buy') bucket.buyVolume += t.size;
+    else bucket.sellVolume += t.size;
+    buckets.set(ts, bucket);
+  });
+  return Array.from(buckets.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const buildCvdSeries = (buckets: TakerBucket[]): CvdPoint[] => {
+  let cvd = 0;
+  return buckets.map(b => {
+    const delta = b.buyVolume - b.sellVolume;
+    cvd += delta;
+    return { timestamp: b.timestamp, delta, cvd };
+  });
+};
+
+const sumBuckets = (buckets: TakerBucket[], since: number, bucketMs: number) => {
+  const inRange = buckets.filter(b => b.timestamp + bucketMs > since);
+  return {
+    buyVolume: inRange.reduce((acc, b) => acc + b.buyVolume, 0),
+    sellVolume: inRange.reduce((acc, b) => acc + b.sellVolume, 0),
+    // 最早的桶需早于窗口起点才算完整覆盖
+    complete: buckets.length > 0 && buckets[0].timestamp <= since
+  };
+};
+
+// 优先使用交易所的主动买卖量统计，缺失时退化为逐笔成交 (覆盖时间通常只有几分钟)
+export const buildTakerFlow = (
+  trades: Trade[],
+  takerBuckets: Partial<Record<'5m' | '1h', TakerBucket[]>>,
+  now: number = Date.now()
+): InflowOutflow => {
+  const fiveMin = takerBuckets['5m'] ?? [];
+  const hourly = takerBuckets['1h'] ?? [];
+  const recentTrades = aggregateTrades(trades);
+
+  const windows: FlowWindow[] = (Object.keys(WINDOW_MS) as FlowWindowLabel[]).map(label => {
+    const since = now - WINDOW_MS[label];
+    let flow: { buyVolume: number; sellVolume: number; complete: boolean };
+
+    if (label === '24h' && hourly.length > 0) {
+      flow = sumBuckets(hourly, since, BUCKET_MS['1h']);
+    } else if (fiveMin.length > 0) {
+      flow = sumBuckets(fiveMin, since, BUCKET_MS['5m']);
+    } else {
+      const agg = aggregateTrades(trades, since);
+      flow = { buyVolume: agg.buyVolume, sellVolume: agg.sellVolume, complete: agg.count > 0 && agg.from <= since };
+    }
+
+    return {
+      window: label,
+      buyVolume: flow.buyVolume,
+      sellVolume: flow.sellVolume,
+      netInflow: flow.buyVolume - flow.sellVolume,
+      complete: flow.complete
+    };
+  });
+
+  // 取最长的完整窗口作为概览；都不完整时取 24h 的部分值
+  const headline = [...windows].reverse().find(w => w.complete) ?? windows[windows.length - 1];
+  const cvdSource = fiveMin.length > 0 ? fiveMin : bucketTrades(trades, 60 * 1000);
+
+  return {
+    netInflow: headline.netInflow,
+    buyVolume: headline.buyVolume,
+    sellVolume: headline.sellVolume,
+    window: headline.window,
+    windows,
+    cvd: buildCvdSeries(cvdSource),
+    recentTrades
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Series } from '../types';
+import { calculateEMASeries, calculateMACDSeries, calculateRSISeries } from './indicatorService';
+
+const expectSeries = (actual: Series, expected: (number | null)[], digits = 6) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((v, i) => {
+    if (v === null) expect(actual[i]).toBeNull();
+    else expect(actual[i]).toBeCloseTo(v, digits);
+  });
+};
+
+const CLOSES = [10, 11, 12, 11, 13, 14, 13, 15, 16, 15, 17];
+
+describe('calculateEMASeries', () => {
+  it('以前 period 个值的 SMA 作为种子', () => {
+    expectSeries(calculateEMASeries(CLOSES, 3), [null, null, 11, 11, 12, 13, 13, 14, 15, 15, 16]);
+  });
+
+  it('数据不足一个周期时全部为 null', () => {
+    expect(calculateEMASeries([1, 2], 3)).toEqual([null, null]);
+  });
+});
+
+describe('calculateRSISeries', () => {
+  // StockCharts RSI 教程的样例数据，参考值按 Wilder 平滑逐步计算 (不对中间均值取整)
+  const SAMPLE = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+    45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64
+  ];
+
+  it('使用 Wilder 平滑', () => {
+    const rsi = calculateRSISeries(SAMPLE, 14);
+    expect(rsi.slice(0, 14).every(v => v === null)).toBe(true);
+    expectSeries(rsi.slice(14), [70.46, 66.25, 66.48, 69.35, 66.29, 57.92], 2);
+  });
+
+  it('没有下跌时为 100', () => {
+    expect(calculateRSISeries([1, 2, 3, 4], 3)[3]).toBe(100);
+  });
+});
+
+describe('calculateMACDSeries', () => {
+  it('信号线是 MACD 线的 EMA，从 MACD 首个有效值开始计算', () => {
+    const { macd, signal, histogram } = calculateMACDSeries(CLOSES, 3, 5, 3);
+    expectSeries(macd, [null, null, null, null, 0.6, 0.733333, 0.488889, 0.659259, 0.772840, 0.515226, 0.676818]);
+    expectSeries(signal, [null, null, null, null, null, null, 0.607407, 0.633333, 0.703086, 0.609156, 0.642987]);
+    expectSeries(histogram, macd.map((m, i) => m === null || signal[i] === null ? null : m - signal[i]!));
+  });
+
+  it('默认 12/26/9 参数下 MACD 与信号线的起始位置', () => {
+    const data = Array.from({ length: 60 }, (_, i) => 100 + 10 * Math.sin(i / 5));
+    const { macd, signal } = calculateMACDSeries(data);
+    expect(macd.findIndex(v => v !== null)).toBe(25);
+    expect(signal.findIndex(v => v !== null)).toBe(33);
+  });
+});
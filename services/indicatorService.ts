@@ -1,65 +1,371 @@
+import { Kline, Indicators, IndicatorSeries, IndicatorConfig, Series } from '../types';
 
-import { Kline, Indicators } from '../types';
+export const DEFAULT_INDICATOR_CONFIG: IndicatorConfig = {
+  atrPeriod: 14,
+  stochRsiPeriod: 14,
+  stochPeriod: 14,
+  stochK: 3,
+  stochD: 3,
+  adxPeriod: 14,
+  ichimokuConversion: 9,
+  ichimokuBase: 26,
+  ichimokuSpanB: 52,
+  superTrendPeriod: 10,
+  superTrendMultiplier: 3
+};
+
+// 取序列最后一个有效值
+const lastValue = (series: Series, fallback: number): number => {
+  const v = series[series.length - 1];
+  return v === null || v === undefined ? fallback : v;
+};
 
-export const calculateEMA = (data: number[], period: number): number => {
-  if (data.length < period) return data[data.length - 1];
+export const calculateSMASeries = (data: number[], period: number): Series => {
+  const result: Series = new Array(data.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+    if (i >= period) sum -= data[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+};
+
+// EMA 以前 period 个值的 SMA 作为种子，之前的位置为 null
+export const calculateEMASeries = (data: number[], period: number): Series => {
+  const result: Series = new Array(data.length).fill(null);
+  if (data.length < period) return result;
   const k = 2 / (period + 1);
-  let ema = data[0];
-  for (let i = 1; i < data.length; i++) {
+  let ema = data.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = ema;
+  for (let i = period; i < data.length; i++) {
     ema = data[i] * k + ema * (1 - k);
+    result[i] = ema;
   }
-  return ema;
+  return result;
 };
 
-export const calculateRSI = (data: number[], period: number = 14): number => {
-  if (data.length < period + 1) return 50;
-  let gains = 0;
-  let losses = 0;
+// 对含 null 前缀的序列，只在有效部分上计算，再按原位置对齐
+const onDefined = (series: Series, fn: (values: number[]) => Series): Series => {
+  const start = series.findIndex(v => v !== null);
+  const result: Series = new Array(series.length).fill(null);
+  if (start < 0) return result;
+  fn(series.slice(start) as number[]).forEach((v, i) => { result[start + i] = v; });
+  return result;
+};
+
+// Wilder 平滑 (RMA)：首值为前 period 个值的简单平均
+const wilderSeries = (data: number[], period: number): Series => {
+  const result: Series = new Array(data.length).fill(null);
+  if (data.length < period) return result;
+  let avg = data.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = avg;
+  for (let i = period; i < data.length; i++) {
+    avg = (avg * (period - 1) + data[i]) / period;
+    result[i] = avg;
+  }
+  return result;
+};
+
+// 滚动窗口极值中点，用于一目均衡表
+const midpointSeries = (klines: Kline[], period: number): Series =>
+  klines.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = klines.slice(i - period + 1, i + 1);
+    return (Math.max(...window.map(k => k.high)) + Math.min(...window.map(k => k.low))) / 2;
+  });
+
+const shiftForward = (series: Series, offset: number): Series =>
+  series.map((_, i) => i - offset >= 0 ? series[i - offset] : null);
+
+const trueRanges = (klines: Kline[]): number[] =>
+  klines.map((k, i) => {
+    if (i === 0) return k.high - k.low;
+    const prevClose = klines[i - 1].close;
+    return Math.max(k.high - k.low, Math.abs(k.high - prevClose), Math.abs(k.low - prevClose));
+  });
 
-  for (let i = data.length - period; i < data.length; i++) {
+// Wilder 平滑 RSI：首个均值为简单平均，之后 avg = (prev * (n - 1) + cur) / n
+export const calculateRSISeries = (data: number[], period: number = 14): Series => {
+  const result: Series = new Array(data.length).fill(null);
+  if (data.length < period + 1) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = data[i] - data[i - 1];
+    if (diff >= 0) avgGain += diff;
+    else avgLoss -= diff;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRSI = () => avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
+  result[period] = toRSI();
+
+  for (let i = period + 1; i < data.length; i++) {
     const diff = data[i] - data[i - 1];
-    if (diff >= 0) gains += diff;
-    else losses -= diff;
+    avgGain = (avgGain * (period - 1) + Math.max(diff, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-diff, 0)) / period;
+    result[i] = toRSI();
   }
+  return result;
+};
 
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+export const calculateMACDSeries = (data: number[], fast: number = 12, slow: number = 26, signal: number = 9) => {
+  const emaFast = calculateEMASeries(data, fast);
+  const emaSlow = calculateEMASeries(data, slow);
+  const macd: Series = data.map((_, i) => {
+    const f = emaFast[i];
+    const s = emaSlow[i];
+    return f === null || s === null ? null : f - s;
+  });
+  const signalLine = onDefined(macd, values => calculateEMASeries(values, signal));
+  const histogram: Series = macd.map((m, i) => {
+    const sig = signalLine[i];
+    return m === null || sig === null ? null : m - sig;
+  });
+  return { macd, signal: signalLine, histogram };
 };
 
+export const calculateBollingerSeries = (data: number[], period: number = 20, multiplier: number = 2) => {
+  const middle = calculateSMASeries(data, period);
+  const upper: Series = new Array(data.length).fill(null);
+  const lower: Series = new Array(data.length).fill(null);
+  middle.forEach((mean, i) => {
+    if (mean === null) return;
+    const window = data.slice(i - period + 1, i + 1);
+    // 总体标准差 (与主流行情软件一致)
+    const stdDev = Math.sqrt(window.reduce((acc, x) => acc + Math.pow(x - mean, 2), 0) / period);
+    upper[i] = mean + stdDev * multiplier;
+    lower[i] = mean - stdDev * multiplier;
+  });
+  return { upper, middle, lower };
+};
+
+export const calculateATRSeries = (klines: Kline[], period: number = 14): Series =>
+  wilderSeries(trueRanges(klines), period);
+
+export const calculateStochRSISeries = (
+  data: number[],
+  rsiPeriod: number = 14,
+  stochPeriod: number = 14,
+  kSmooth: number = 3,
+  dSmooth: number = 3
+) => {
+  const rsi = calculateRSISeries(data, rsiPeriod);
+  const stoch = onDefined(rsi, values => values.map((v, i) => {
+    if (i < stochPeriod - 1) return null;
+    const window = values.slice(i - stochPeriod + 1, i + 1);
+    const min = Math.min(...window);
+    const max = Math.max(...window);
+    return max === min ? 50 : (v - min) / (max - min) * 100;
+  }));
+  const k = onDefined(stoch, values => calculateSMASeries(values, kSmooth));
+  const d = onDefined(k, values => calculateSMASeries(values, dSmooth));
+  return { k, d };
+};
+
+export const calculateADXSeries = (klines: Kline[], period: number = 14) => {
+  const adx: Series = new Array(klines.length).fill(null);
+  const plusDI: Series = new Array(klines.length).fill(null);
+  const minusDI: Series = new Array(klines.length).fill(null);
+  if (klines.length < period * 2) return { adx, plusDI, minusDI };
+
+  const tr = trueRanges(klines);
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+  for (let i = 1; i < klines.length; i++) {
+    const up = klines[i].high - klines[i - 1].high;
+    const down = klines[i - 1].low - klines[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  // 从第 2 根开始做 Wilder 平滑 (第 1 根没有前值)
+  const smTR = wilderSeries(tr.slice(1), period);
+  const smPlus = wilderSeries(plusDM.slice(1), period);
+  const smMinus = wilderSeries(minusDM.slice(1), period);
+
+  const dx: Series = smTR.map((t, i) => {
+    if (t === null) return null;
+    const pdi = t === 0 ? 0 : 100 * (smPlus[i] as number) / t;
+    const mdi = t === 0 ? 0 : 100 * (smMinus[i] as number) / t;
+    plusDI[i + 1] = pdi;
+    minusDI[i + 1] = mdi;
+    return pdi + mdi === 0 ? 0 : 100 * Math.abs(pdi - mdi) / (pdi + mdi);
+  });
+  onDefined(dx, values => wilderSeries(values, period)).forEach((v, i) => { adx[i + 1] = v; });
+  return { adx, plusDI, minusDI };
+};
+
+// 会话 VWAP：按 UTC 自然日重置累计
+export const calculateVWAPSeries = (klines: Kline[]): Series => {
+  let session = -1;
+  let pv = 0;
+  let vol = 0;
+  return klines.map(k => {
+    const day = Math.floor(k.timestamp / 86400000);
+    if (day !== session) {
+      session = day;
+      pv = 0;
+      vol = 0;
+    }
+    const typical = (k.high + k.low + k.close) / 3;
+    pv += typical * k.volume;
+    vol += k.volume;
+    return vol === 0 ? typical : pv / vol;
+  });
+};
+
+export const calculateOBVSeries = (klines: Kline[]): Series => {
+  let obv = 0;
+  return klines.map((k, i) => {
+    if (i > 0) {
+      if (k.close > klines[i - 1].close) obv += k.volume;
+      else if (k.close < klines[i - 1].close) obv -= k.volume;
+    }
+    return obv;
+  });
+};
+
+// 先行带 A/B 按基准线周期向前平移，序列中当前位置即为当前K线下方的云层
+export const calculateIchimokuSeries = (
+  klines: Kline[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52
+) => {
+  const conversion = midpointSeries(klines, conversionPeriod);
+  const base = midpointSeries(klines, basePeriod);
+  const rawSpanA: Series = conversion.map((c, i) => {
+    const b = base[i];
+    return c === null || b === null ? null : (c + b) / 2;
+  });
+  return {
+    conversion,
+    base,
+    spanA: shiftForward(rawSpanA, basePeriod),
+    spanB: shiftForward(midpointSeries(klines, spanBPeriod), basePeriod)
+  };
+};
+
+export const calculateSuperTrendSeries = (klines: Kline[], period: number = 10, multiplier: number = 3) => {
+  const atr = calculateATRSeries(klines, period);
+  const value: Series = new Array(klines.length).fill(null);
+  const direction: Series = new Array(klines.length).fill(null);
+  let upper = 0;
+  let lower = 0;
+  let trend = 1;
+
+  for (let i = 0; i < klines.length; i++) {
+    const a = atr[i];
+    if (a === null) continue;
+    const k = klines[i];
+    const hl2 = (k.high + k.low) / 2;
+    const basicUpper = hl2 + multiplier * a;
+    const basicLower = hl2 - multiplier * a;
+
+    if (i === 0 || value[i - 1] === null) {
+      upper = basicUpper;
+      lower = basicLower;
+      trend = k.close >= hl2 ? 1 : -1;
+    } else {
+      const prevClose = klines[i - 1].close;
+      // 轨道只向有利方向收紧，除非前一根收盘已突破
+      upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+      if (trend === 1 && k.close < lower) trend = -1;
+      else if (trend === -1 && k.close > upper) trend = 1;
+    }
+    value[i] = trend === 1 ? lower : upper;
+    direction[i] = trend;
+  }
+  return { value, direction };
+};
+
+export const calculateEMA = (data: number[], period: number): number =>
+  lastValue(calculateEMASeries(data, period), data[data.length - 1]);
+
+export const calculateRSI = (data: number[], period: number = 14): number =>
+  lastValue(calculateRSISeries(data, period), 50);
+
 export const calculateMACD = (data: number[]) => {
-  const ema12 = calculateEMA(data, 12);
-  const ema26 = calculateEMA(data, 26);
-  const macdLine = ema12 - ema26;
-  // Simplification for signal: normally requires a series of MACD values
-  const signalLine = macdLine * 0.9; 
+  const series = calculateMACDSeries(data);
   return {
-    macd: macdLine,
-    signal: signalLine,
-    histogram: macdLine - signalLine
+    macd: lastValue(series.macd, 0),
+    signal: lastValue(series.signal, 0),
+    histogram: lastValue(series.histogram, 0)
   };
 };
 
 export const calculateBollinger = (data: number[], period: number = 20) => {
-  const lastN = data.slice(-period);
-  const mean = lastN.reduce((a, b) => a + b, 0) / period;
-  const stdDev = Math.sqrt(lastN.map(x => Math.pow(x - mean, 2)).reduce((a, b) => a + b, 0) / period);
+  const series = calculateBollingerSeries(data, period);
+  const last = data[data.length - 1];
   return {
-    upper: mean + (stdDev * 2),
-    middle: mean,
-    lower: mean - (stdDev * 2)
+    upper: lastValue(series.upper, last),
+    middle: lastValue(series.middle, last),
+    lower: lastValue(series.lower, last)
   };
 };
 
-export const getIndicators = (klines: Kline[]): Indicators => {
+// 完整指标序列，与 klines 逐根对齐，数据不足的位置为 null
+export const getIndicatorSeries = (klines: Kline[], config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG): IndicatorSeries => {
   const closes = klines.map(k => k.close);
   return {
-    rsi: calculateRSI(closes),
-    ema20: calculateEMA(closes, 20),
-    ema50: calculateEMA(closes, 50),
-    macd: calculateMACD(closes),
-    bollinger: calculateBollinger(closes)
+    rsi: calculateRSISeries(closes),
+    ema20: calculateEMASeries(closes, 20),
+    ema50: calculateEMASeries(closes, 50),
+    macd: calculateMACDSeries(closes),
+    bollinger: calculateBollingerSeries(closes),
+    atr: calculateATRSeries(klines, config.atrPeriod),
+    stochRsi: calculateStochRSISeries(closes, config.stochRsiPeriod, config.stochPeriod, config.stochK, config.stochD),
+    adx: calculateADXSeries(klines, config.adxPeriod),
+    vwap: calculateVWAPSeries(klines),
+    obv: calculateOBVSeries(klines),
+    ichimoku: calculateIchimokuSeries(klines, config.ichimokuConversion, config.ichimokuBase, config.ichimokuSpanB),
+    superTrend: calculateSuperTrendSeries(klines, config.superTrendPeriod, config.superTrendMultiplier)
+  };
+};
+
+export const getIndicators = (klines: Kline[], config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG): Indicators => {
+  const series = getIndicatorSeries(klines, config);
+  const last = klines[klines.length - 1]?.close ?? 0;
+  return {
+    rsi: lastValue(series.rsi, 50),
+    ema20: lastValue(series.ema20, last),
+    ema50: lastValue(series.ema50, last),
+    macd: {
+      macd: lastValue(series.macd.macd, 0),
+      signal: lastValue(series.macd.signal, 0),
+      histogram: lastValue(series.macd.histogram, 0)
+    },
+    bollinger: {
+      upper: lastValue(series.bollinger.upper, last),
+      middle: lastValue(series.bollinger.middle, last),
+      lower: lastValue(series.bollinger.lower, last)
+    },
+    atr: lastValue(series.atr, 0),
+    stochRsi: {
+      k: lastValue(series.stochRsi.k, 50),
+      d: lastValue(series.stochRsi.d, 50)
+    },
+    adx: {
+      adx: lastValue(series.adx.adx, 0),
+      plusDI: lastValue(series.adx.plusDI, 0),
+      minusDI: lastValue(series.adx.minusDI, 0)
+    },
+    vwap: lastValue(series.vwap, last),
+    obv: lastValue(series.obv, 0),
+    ichimoku: {
+      conversion: lastValue(series.ichimoku.conversion, last),
+      base: lastValue(series.ichimoku.base, last),
+      spanA: lastValue(series.ichimoku.spanA, last),
+      spanB: lastValue(series.ichimoku.spanB, last)
+    },
+    superTrend: {
+      value: lastValue(series.superTrend.value, last),
+      direction: lastValue(series.superTrend.direction, 1) >= 0 ? 'UP' : 'DOWN'
+    }
   };
 };
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeType, JournalEntry, Kline } from '../types';
+import { evaluateEntry } from './journalService';
+
+const T0 = 1_700_000_000_000;
+const STEP = 15 * 60 * 1000;
+
+const candle = (i: number, open: number, high: number, low: number, close: number): Kline => ({ timestamp: T0 + i * STEP, open, high, low, close, volume: 1 });
+
+// 限价做多 100，止盈 110，止损 95；记录时价格 105，需回落后成交
+const ENTRY: JournalEntry = {
+  id: 'ETH-USDT-SWAP-1',
+  timestamp: T0,
+  symbol: 'ETH-USDT-SWAP',
+  exchange: ExchangeType.OKX,
+  model: 'GEMINI',
+  price: 105,
+  snapshotHash: '00000000',
+  analysis: {
+    sentiment: 'Bullish',
+    analysis: '',
+    strategy: {
+      action: 'LONG',
+      entry: { low: 100, high: 100 },
+      takeProfits: [{ price: 110, sizePercent: 100 }],
+      stopLoss: 95,
+      leverage: 5,
+      expiresAt: T0 + 20 * STEP,
+      riskReward: null
+    }
+  },
+  levels: { entry: 100, tp: 110, sl: 95, leverage: 5, expiresAt: T0 + 20 * STEP },
+  outcome: 'PENDING'
+};
+
+describe('evaluateEntry', () => {
+  it('限价成交所在的 K 线不计止盈', () => {
+    const fill = candle(0, 104, 112, 99, 110);
+    const pending = evaluateEntry(ENTRY, [fill], T0 + STEP);
+    expect(pending.outcome).toBe('PENDING');
+    expect(pending.filledAt).toBe(fill.timestamp);
+
+    const resolved = evaluateEntry(ENTRY, [fill, candle(1, 110, 111, 108, 110)], T0 + 2 * STEP);
+    expect(resolved).toMatchObject({ outcome: 'TP', resolvedAt: T0 + STEP, exitPrice: 110 });
+  });
+
+  it('跳空越过止损时按开盘价计算亏损', () => {
+    const resolved = evaluateEntry(ENTRY, [candle(0, 104, 104, 99, 101), candle(1, 93, 94, 90, 92)], T0 + 2 * STEP);
+    expect(resolved).toMatchObject({ outcome: 'SL', exitPrice: 93 });
+    expect(resolved.pnlPercent).toBeCloseTo(-7, 6);
+  });
+});
@@ -0,0 +1,172 @@
+import { AIAnalysis, FullMarketData, JournalEntry, JournalModelStats, Kline, LogCallback } from '../types';
+import { toPromptPayload } from './aiService';
+import { getStrategyLevels, isMarketEntry, resolveExit } from './strategyService';
+import { loadHistoricalKlines } from './backtest/historyLoader';
+import { TIMEFRAME_MS } from './marketService';
+import { idbGetAll, idbPut, idbDelete, STORES } from './storage';
+
+// 结果判定使用 15m K 线，与回测的撮合粒度一致
+const OUTCOME_TIMEFRAME = '15m';
+
+export const LEGACY_PROMPT_VERSION = 'legacy';
+
+// FNV-1a 32 位哈希，仅用于识别相同的输入快照
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const hashSnapshot = (data: FullMarketData): string => fnv1a(JSON.stringify(toPromptPayload(data)));
+
+export const recordSignal = async (data: FullMarketData, analysis: AIAnalysis, model: string): Promise<JournalEntry> => {
+  const price = data.snapshots[0].price;
+  const levels = getStrategyLevels(analysis);
+  const entry: JournalEntry = {
+    id: `${data.symbol}-${data.timestamp}-${Math.random().toString(36).substr(2, 5)}`,
+    timestamp: data.timestamp,
+    symbol: data.symbol,
+    exchange: data.exchange,
+    model,
+    price,
+    snapshotHash: hashSnapshot(data),
+    analysis,
+    levels,
+    outcome: levels ? 'PENDING' : 'SKIPPED'
+  };
+  await idbPut(STORES.JOURNAL, entry);
+  return entry;
+};
+
+export const CONSENSUS_MODEL_LABEL = 'CONSENSUS';
+
+// 共识结果中每个模型单独记录，便于统计各自的命中率
+export const recordAnalysis = async (data: FullMarketData, analysis: AIAnalysis, model: string) => {
+  if (!analysis.consensus) {
+    await recordSignal(data, analysis, model);
+    return;
+  }
+  for (const opinion of analysis.consensus.opinions) {
+    if (opinion.analysis) await recordSignal(data, opinion.analysis, opinion.model);
+  }
+  await recordSignal(data, analysis, CONSENSUS_MODEL_LABEL);
+};
+
+export const loadJournal = async (): Promise<JournalEntry[]> => {
+  const entries = await idbGetAll<JournalEntry>(STORES.JOURNAL);
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteJournalEntry = (id: string) => idbDelete(STORES.JOURNAL, id);
+
+// 用记录之后的 K 线判定先触发止盈还是止损，规则与回测、模拟盘一致 (见 resolveExit)
+export const evaluateEntry = (entry: JournalEntry, klines: Kline[], now: number = Date.now()): JournalEntry => {
+  if (entry.outcome !== 'PENDING' || !entry.levels) return entry;
+  const { levels } = entry;
+  const { entry: entryPrice, expiresAt: expiry } = levels;
+  const side = entry.analysis.strategy.action as 'LONG' | 'SHORT';
+  const dir = side === 'LONG' ? 1 : -1;
+  const pnlPercent = (exit: number) => (exit - entryPrice) / entryPrice * 100 * dir;
+
+  let filledAt = isMarketEntry(entry.analysis.strategy.entry!, entry.price) ? entry.timestamp : undefined;
+  let lastClose: number | null = null;
+
+  // 只使用记录之后开盘的 K 线，避免记录前的走势影响判定
+  for (const k of klines) {
+    if (k.timestamp < entry.timestamp) continue;
+    if (k.timestamp >= expiry) break;
+    lastClose = k.close;
+
+    if (filledAt === undefined) {
+      if (k.low > entryPrice || k.high < entryPrice) continue;
+      filledAt = k.timestamp;
+    }
+
+    const exit = resolveExit(k, side, levels, k.timestamp === filledAt);
+    if (exit) {
+      return {
+        ...entry,
+        outcome: exit.reason,
+        filledAt,
+        resolvedAt: k.timestamp,
+        exitPrice: exit.price,
+        pnlPercent: pnlPercent(exit.price)
+      };
+    }
+  }
+
+  if (now < expiry) return { ...entry, filledAt };
+
+  // 到期未触发：已成交的按到期前最后收盘价计算，未成交的记为 0
+  const exitPrice = filledAt !== undefined && lastClose !== null ? lastClose : undefined;
+  return {
+    ...entry,
+    outcome: 'EXPIRED',
+    filledAt,
+    resolvedAt: expiry,
+    exitPrice,
+    pnlPercent: exitPrice !== undefined ? pnlPercent(exitPrice) : 0
+  };
+};
+
+// 按合约批量拉取 K 线，更新所有未结束的记录，返回发生变化的条数
+export const resolvePendingEntries = async (log: LogCallback, now: number = Date.now()): Promise<number> => {
+  const pending = (await idbGetAll<JournalEntry>(STORES.JOURNAL)).filter(e => e.outcome === 'PENDING' && e.levels);
+  if (pending.length === 0) return 0;
+
+  const bySymbol = new Map<string, JournalEntry[]>();
+  pending.forEach(e => bySymbol.set(e.symbol, [...(bySymbol.get(e.symbol) ?? []), e]));
+
+  let updated = 0;
+  for (const [symbol, entries] of bySymbol) {
+    const start = Math.min(...entries.map(e => e.timestamp)) - TIMEFRAME_MS[OUTCOME_TIMEFRAME];
+    const end = Math.min(now, Math.max(...entries.map(e => e.levels!.expiresAt)));
+    try {
+      const klines = await loadHistoricalKlines(symbol, OUTCOME_TIMEFRAME, start, end, log);
+      for (const e of entries) {
+        const next = evaluateEntry(e, klines, now);
+        if (next.outcome !== e.outcome || next.filledAt !== e.filledAt) {
+          await idbPut(STORES.JOURNAL, next);
+          updated++;
+        }
+      }
+    } catch (err: any) {
+      log(`[Journal] ${symbol} 结果更新失败: ${err.message}`, 'WARN');
+    }
+  }
+  return updated;
+};
+
+// 命中率 = 止盈 / (止盈 + 止损)；期望 = 已结束且成交的记录的平均收益百分比
+// 早于提示词版本化的记录统一归为 legacy
+export const getPromptVersion = (entry: JournalEntry): string => entry.analysis.promptVersion ?? LEGACY_PROMPT_VERSION;
+
+// 按模型与提示词版本分组，便于对比不同模板的表现
+export const computeModelStats = (entries: JournalEntry[]): JournalModelStats[] => {
+  const groups = new Map<string, JournalEntry[]>();
+  entries.forEach(e => {
+    const key = `${e.model}|${getPromptVersion(e)}`;
+    groups.set(key, [...(groups.get(key) ?? []), e]);
+  });
+
+  return Array.from(groups.values()).map(list => {
+    const tp = list.filter(e => e.outcome === 'TP').length;
+    const sl = list.filter(e => e.outcome === 'SL').length;
+    const expired = list.filter(e => e.outcome === 'EXPIRED').length;
+    const traded = list.filter(e => e.filledAt !== undefined && ['TP', 'SL', 'EXPIRED'].includes(e.outcome));
+    return {
+      model: list[0].model,
+      promptVersion: getPromptVersion(list[0]),
+      total: list.length,
+      resolved: tp + sl + expired,
+      tp,
+      sl,
+      expired,
+      hitRate: tp + sl > 0 ? tp / (tp + sl) * 100 : 0,
+      expectancy: traded.length > 0 ? traded.reduce((acc, e) => acc + (e.pnlPercent ?? 0), 0) / traded.length : 0
+    };
+  }).sort((a, b) => b.total - a.total);
+};
@@ -1,163 +1,218 @@
+import { Kline, MarketSnapshot, FullMarketData, ExchangeType, LogCallback, IndicatorConfig, MarketDataProvider, TakerBucket, DerivativesData, InstrumentSpec } from '../types';
+import { getIndicators, DEFAULT_INDICATOR_CONFIG } from './indicatorService';
+import { buildTakerFlow } from './flowService';
+import { parseOrderBook, analyzeOrderBook } from './orderBookService';
+import { getMarketProvider } from './exchanges';
+import { jitter } from './exchanges/httpClient';
+import type { OkxMarketStream } from './okxStream';
+import { abortable, isAbortError, throwIfAborted } from './abort';
+
+export const TIMEFRAMES = ['15m', '1h', '4h', '1d'];
+
+export const TIMEFRAME_MS: Record<string, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+// 抓取足够多的档位以覆盖 ±2% 价格带
+const BOOK_DEPTH = 200;
+
+// 将 OKX 合约 ID 转为展示用交易对，例如 ETH-USDT-SWAP -> ETH/USDT
+export const formatSymbol = (symbol: string) => symbol.split('-').slice(0, 2).join('/');
+
+export interface MarketFetchOptions {
+  exchange?: ExchangeType;
+  // 实时流已就绪时直接读取内存行情 (仅 OKX)
+  stream?: OkxMarketStream | null;
+  indicatorConfig?: IndicatorConfig;
+  // 用户取消扫描时在当前请求处立即中断
+  signal?: AbortSignal;
+}
 
-import { Kline, MarketSnapshot, FullMarketData, InflowOutflow } from '../types';
-import { getIndicators } from './indicatorService';
-
-// 经过验证的相对稳定的公共代理列表
-const CORS_PROXIES = [
-  'https://api.allorigins.win/raw?url=',
-  'https://corsproxy.io/?',
-  'https://api.codetabs.com/v1/proxy?quest=',
-];
-
-// OKX V5 API 基础路径
-const OKX_BASE = 'https://www.okx.com/api/v5/market';
-
-// 辅助：随机延迟
-const jitter = (ms: number) => new Promise(r => setTimeout(r, ms + Math.random() * 500));
-
-async function fetchWithRetry(path: string, logCallback: (msg: string, level?: any) => void, retryCount = 3): Promise<any> {
-  const targetUrl = `${OKX_BASE}${path}`;
-  let lastError: any = null;
-
-  for (let attempt = 0; attempt <= retryCount; attempt++) {
-    const proxy = CORS_PROXIES[attempt % CORS_PROXIES.length];
-    const requestUrl = `${proxy}${encodeURIComponent(targetUrl)}`;
-    
-    try {
-      if (attempt > 0) {
-        logCallback(`重试第 ${attempt} 次: 切换至代理 ${new URL(proxy).hostname}`, 'WARN');
-        await jitter(1000 * attempt); 
-      }
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 12000);
-
-      const res = await fetch(requestUrl, { signal: controller.signal });
-      clearTimeout(timeoutId);
-
-      if (!res.ok) {
-        throw new Error(`代理/API 返回错误状态: ${res.status}`);
-      }
-
-      const text = await res.text();
-      let data: any;
-
-      try {
-        data = JSON.parse(text);
-      } catch (e) {
-        throw new Error('返回内容非合法 JSON (可能是代理拦截)');
-      }
-
-      // OKX API 特有的错误处理
-      if (data.code !== "0") {
-        throw new Error(`OKX API 错误: ${data.msg} (Code: ${data.code})`);
-      }
+const buildSnapshot = (tf: string, klines: Kline[], config: IndicatorConfig): MarketSnapshot => ({
+  timeframe: tf,
+  price: klines[klines.length - 1].close,
+  kline: klines,
+  indicators: getIndicators(klines, config)
+});
+
+// 5m 桶 (100 个约 8 小时) 覆盖 5m/1h/4h 窗口，1h 桶覆盖 24h
+export const fetchTakerBuckets = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  addLog: LogCallback,
+  signal?: AbortSignal
+): Promise<Record<'5m' | '1h', TakerBucket[]>> => {
+  if (!provider.fetchTakerVolume) return { '5m': [], '1h': [] };
+  try {
+    const fiveMin = await provider.fetchTakerVolume(symbol, '5m', 100, addLog, signal);
+    const hourly = await provider.fetchTakerVolume(symbol, '1h', 24, addLog, signal);
+    return { '5m': fiveMin, '1h': hourly };
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    addLog(`主动买卖量统计获取失败，仅使用逐笔成交: ${e.message}`, 'WARN');
+    return { '5m': [], '1h': [] };
+  }
+};
 
-      return data.data;
-    } catch (e: any) {
-      logCallback(`尝试 ${attempt + 1} 失败: ${e.message}`, 'WARN');
-      lastError = e;
-    }
+// 资金费率、持仓量等合约数据，失败时返回 null 不中断扫描
+export const fetchDerivatives = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  addLog: LogCallback,
+  signal?: AbortSignal
+): Promise<DerivativesData | null> => {
+  try {
+    return await provider.fetchDerivatives(symbol, addLog, signal);
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    addLog(`合约数据获取失败: ${e.message}`, 'WARN');
+    return null;
   }
-  throw lastError;
-}
+};
 
-// 将前端周期映射为 OKX 周期参数
-const mapInterval = (tf: string) => {
-  switch(tf) {
-    case '15m': return '15m';
-    case '1h': return '1H';
-    case '4h': return '4H';
-    case '1d': return '1Dutc';
-    default: return '1H';
+// 合约规格几乎不变，按交易所与合约缓存
+const instrumentCache = new Map<string, InstrumentSpec>();
+
+// 失败时返回 null，仓位按设置中的合约面值计算
+export const fetchInstrument = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  addLog: LogCallback,
+  signal?: AbortSignal
+): Promise<InstrumentSpec | null> => {
+  const key = `${provider.id}:${symbol}`;
+  const cached = instrumentCache.get(key);
+  if (cached || !provider.fetchInstrument) return cached ?? null;
+  try {
+    const spec = await provider.fetchInstrument(symbol, addLog, signal);
+    instrumentCache.set(key, spec);
+    return spec;
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    addLog(`合约规格获取失败，按设置中的合约面值计算仓位: ${e.message}`, 'WARN');
+    return null;
   }
 };
 
+// 直接读取 WebSocket 在内存中维护的行情，无需任何网络请求
+export const getStreamSnapshot = (
+  symbol: string,
+  stream: OkxMarketStream,
+  config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG
+): FullMarketData => {
+  const state = stream.getState(symbol)!;
+  const orderBook = parseOrderBook(state.orderBook);
+  const snapshots = TIMEFRAMES.map(tf => buildSnapshot(tf, state.candles[tf].slice(-100), config));
+
+  return {
+    symbol,
+    exchange: ExchangeType.OKX,
+    snapshots,
+    orderBook,
+    orderBookAnalysis: analyzeOrderBook(orderBook),
+    ticker: state.ticker!,
+    inflow: buildTakerFlow(state.trades, state.takerBuckets),
+    derivatives: state.derivatives,
+    instrument: instrumentCache.get(`${ExchangeType.OKX}:${symbol}`) ?? null,
+    timestamp: Date.now()
+  };
+};
+
+const readFromStream = async (
+  symbol: string,
+  stream: OkxMarketStream,
+  addLog: LogCallback,
+  config: IndicatorConfig,
+  signal?: AbortSignal
+): Promise<FullMarketData> => {
+  await fetchInstrument(getMarketProvider(ExchangeType.OKX), symbol, addLog, signal);
+  const data = getStreamSnapshot(symbol, stream, config);
+  addLog(`数据链路全线打通 (Source: OKX Stream, ${((Date.now() - stream.getState(symbol)!.updatedAt) / 1000).toFixed(1)}s 前更新)`, 'SUCCESS');
+  return data;
+};
+
 export const getFullMarketSnapshot = async (
-  symbol: string = 'ETH-USDT-SWAP', // OKX 使用 ETH-USDT-SWAP 表示永续合约
+  symbol: string = 'ETH-USDT-SWAP', // 统一使用 OKX 风格 ID，由适配器转换为各交易所格式
   onProgress: (task: string, step: number) => void,
-  addLog: (msg: string, level?: any) => void
+  addLog: LogCallback,
+  options: MarketFetchOptions = {}
 ): Promise<FullMarketData> => {
-  const timeframes = ['15m', '1h', '4h', '1d'];
+  const { exchange = ExchangeType.OKX, stream, indicatorConfig = DEFAULT_INDICATOR_CONFIG, signal } = options;
+  const provider = getMarketProvider(exchange);
+  const step = <T>(promise: Promise<T>) => abortable(promise, signal);
+  throwIfAborted(signal);
+
+  if (stream && exchange === ExchangeType.OKX) {
+    if (stream.isReady(symbol)) {
+      onProgress('读取实时行情缓存', 90);
+      return readFromStream(symbol, stream, addLog, indicatorConfig, signal);
+    }
+    addLog(`${symbol} 实时行情尚未就绪，回退至 REST 拉取`, 'WARN');
+  }
   
   try {
-    addLog(`>>> 启动数据引擎: 目标 OKX ${symbol} <<<`);
+    addLog(`>>> 启动数据引擎: 目标 ${provider.name} ${symbol} <<<`);
     
     // 1. 获取 K 线
     const snapshots: MarketSnapshot[] = [];
-    for (let i = 0; i < timeframes.length; i++) {
-      const tf = timeframes[i];
+    for (let i = 0; i < TIMEFRAMES.length; i++) {
+      const tf = TIMEFRAMES[i];
       onProgress(`正在抓取 ${tf} 数据`, 10 + (i * 15));
       addLog(`请求 ${tf} 周期数据...`);
       
-      const okxTf = mapInterval(tf);
-      // OKX candles: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
-      const klinesData = await fetchWithRetry(`/candles?instId=${symbol}&bar=${okxTf}&limit=100`, addLog);
-      
-      if (!Array.isArray(klinesData)) {
-        throw new Error(`${tf} 周期数据格式非法`);
+      const klines = await step(provider.fetchKlines(symbol, tf, 100, addLog, signal));
+      if (klines.length === 0) {
+        throw new Error(`${tf} 周期无 K 线数据`);
       }
 
-      // OKX 返回的是最新在前，需要反转以适配指标计算逻辑
-      const klines: Kline[] = klinesData.map((d: any) => ({
-        timestamp: parseInt(d[0]),
-        open: parseFloat(d[1]),
-        high: parseFloat(d[2]),
-        low: parseFloat(d[3]),
-        close: parseFloat(d[4]),
-        volume: parseFloat(d[5]),
-      })).reverse();
-
-      snapshots.push({
-        timeframe: tf,
-        price: klines[klines.length - 1].close,
-        kline: klines,
-        indicators: getIndicators(klines)
-      });
+      snapshots.push(buildSnapshot(tf, klines, indicatorConfig));
       
-      await jitter(600); 
+      await step(jitter(600)); 
     }
 
     // 2. 获取盘口
     onProgress('同步盘口深度', 75);
     addLog('获取 OrderBook...');
-    const books = await fetchWithRetry(`/books?instId=${symbol}&sz=20`, addLog);
-    const orderBook = {
-      bids: (books[0]?.bids || []) as [string, string][],
-      asks: (books[0]?.asks || []) as [string, string][]
-    };
-    await jitter(400);
+    const orderBook = parseOrderBook(await step(provider.fetchOrderBook(symbol, BOOK_DEPTH, addLog, signal)));
+    const orderBookAnalysis = analyzeOrderBook(orderBook);
+    await step(jitter(400));
 
-    // 3. 获取资金流向 (24h Ticker)
-    onProgress('计算资金分布', 85);
+    // 3. 获取 24h 行情
+    onProgress('获取 24h 行情', 80);
     addLog('获取 24h 统计数据...');
-    const tickerArr = await fetchWithRetry(`/ticker?instId=${symbol}`, addLog);
-    const ticker = tickerArr[0];
-    
-    const vol24h = parseFloat(ticker.vol24h || 0);
-    const open = parseFloat(ticker.open24h || 0);
-    const last = parseFloat(ticker.last || 0);
-    const priceChange = open > 0 ? ((last - open) / open) * 100 : 0;
-    
-    const buyRatio = 0.5 + (priceChange / 100);
-    const buyVol = vol24h * Math.min(Math.max(buyRatio, 0.3), 0.7);
-    const sellVol = vol24h - buyVol;
+    const ticker = await step(provider.fetchTicker(symbol, addLog, signal));
+
+    // 4. 获取资金流向 (主动买卖成交)
+    onProgress('统计主动买卖', 85);
+    addLog('获取逐笔成交与主动买卖量...');
+    const trades = await step(provider.fetchTrades(symbol, 500, addLog, signal));
+    const takerBuckets = await step(fetchTakerBuckets(provider, symbol, addLog, signal));
+
+    // 5. 获取合约数据 (资金费率 / 持仓量 / 多空比 / 强平)
+    onProgress('同步合约数据', 90);
+    addLog('获取资金费率与持仓量...');
+    const derivatives = await step(fetchDerivatives(provider, symbol, addLog, signal));
+    const instrument = await step(fetchInstrument(provider, symbol, addLog, signal));
 
     onProgress('准备 AI 研判序列', 95);
-    addLog('数据链路全线打通 (Source: OKX)', 'SUCCESS');
+    addLog(`数据链路全线打通 (Source: ${provider.name})`, 'SUCCESS');
 
     return {
+      symbol,
+      exchange,
       snapshots,
       orderBook,
-      inflow: {
-        netInflow: buyVol - sellVol,
-        buyVolume: buyVol,
-        sellVolume: sellVol
-      },
+      orderBookAnalysis,
+      ticker,
+      inflow: buildTakerFlow(trades, takerBuckets),
+      derivatives,
+      instrument,
       timestamp: Date.now()
     };
   } catch (e: any) {
-    addLog(`致命中断: ${e.message}`, 'ERROR');
+    if (!isAbortError(e)) addLog(`致命中断: ${e.message}`, 'ERROR');
     throw e;
   }
 };
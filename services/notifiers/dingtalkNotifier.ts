@@ -0,0 +1,28 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook, assertErrcode } from './webhook';
+import { hmacSha256Base64 } from '../crypto';
+import { renderMarkdown } from './format';
+
+// 加签: HMAC-SHA256(secret, "timestamp\nsecret")，毫秒时间戳与签名附加在 URL 上
+const signUrl = async (webhookUrl: string, secret: string) => {
+  if (!secret) return webhookUrl;
+  const timestamp = Date.now();
+  const sign = await hmacSha256Base64(secret, `${timestamp}\n${secret}`);
+  return `${webhookUrl}&timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+};
+
+export const dingtalkNotifier: Notifier = {
+  id: NotifierType.DINGTALK,
+  name: '钉钉',
+  fields: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://oapi.dingtalk.com/robot/send?access_token=...', secret: true, required: true },
+    { key: 'secret', label: '加签密钥 (SEC...)', secret: true }
+  ],
+
+  async send(message, values) {
+    assertErrcode(await postWebhook(await signUrl(values.webhookUrl, values.secret), {
+      msgtype: 'markdown',
+      markdown: { title: message.title, text: renderMarkdown(message) }
+    }));
+  }
+};
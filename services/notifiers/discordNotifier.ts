@@ -0,0 +1,25 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook } from './webhook';
+import { truncate } from './format';
+
+// embed 描述上限 4096 字符
+const MAX_DESCRIPTION = 4000;
+
+export const discordNotifier: Notifier = {
+  id: NotifierType.DISCORD,
+  name: 'Discord',
+  fields: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://discord.com/api/webhooks/...', secret: true, required: true }
+  ],
+
+  async send(message, values) {
+    const description = [...message.summary, ...(message.body ? ['', message.body] : [])].join('\n');
+    await postWebhook(values.webhookUrl, {
+      embeds: [{
+        title: message.title,
+        description: truncate(description, MAX_DESCRIPTION),
+        ...(message.link ? { url: message.link.url } : {})
+      }]
+    });
+  }
+};
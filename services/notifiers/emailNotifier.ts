@@ -0,0 +1,29 @@
+import { Notifier, NotifierType } from '../../types';
+import { renderPlainText } from './format';
+import { sendMail } from './smtpClient';
+
+export const emailNotifier: Notifier = {
+  id: NotifierType.EMAIL,
+  name: '邮件 (SMTP)',
+  fields: [
+    { key: 'host', label: 'SMTP 服务器', placeholder: 'smtp.example.com', required: true },
+    { key: 'port', label: '端口', placeholder: '465 (SSL) / 587 (STARTTLS)', required: true },
+    { key: 'username', label: '用户名' },
+    { key: 'password', label: '密码 / 授权码', secret: true },
+    { key: 'from', label: '发件人', placeholder: 'Pulse <bot@example.com>', required: true },
+    { key: 'to', label: '收件人 (逗号分隔)', placeholder: 'a@example.com, b@example.com', required: true }
+  ],
+
+  async send(message, values) {
+    await sendMail({
+      host: values.host,
+      port: Number(values.port) || 465,
+      username: values.username ?? '',
+      password: values.password ?? '',
+      from: values.from,
+      to: values.to.split(',').map(s => s.trim()).filter(Boolean),
+      subject: message.title,
+      text: renderPlainText(message)
+    });
+  }
+};
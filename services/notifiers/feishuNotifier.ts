@@ -0,0 +1,33 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook, assertErrcode } from './webhook';
+import { hmacSha256Base64 } from '../crypto';
+
+// 加签: 以 "timestamp\nsecret" 为密钥对空串做 HMAC-SHA256，时间戳为秒
+const signBody = async (secret: string) => {
+  if (!secret) return {};
+  const timestamp = Math.floor(Date.now() / 1000);
+  return { timestamp: String(timestamp), sign: await hmacSha256Base64(`${timestamp}\n${secret}`, '') };
+};
+
+export const feishuNotifier: Notifier = {
+  id: NotifierType.FEISHU,
+  name: '飞书',
+  fields: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://open.feishu.cn/open-apis/bot/v2/hook/...', secret: true, required: true },
+    { key: 'secret', label: '签名校验密钥', secret: true }
+  ],
+
+  async send(message, values) {
+    // 富文本消息：每行一个段落，链接单独一行
+    const paragraphs = [
+      ...message.summary.map(line => [{ tag: 'text', text: line }]),
+      ...(message.body ? [[{ tag: 'text', text: `\n${message.body}` }]] : []),
+      ...(message.link ? [[{ tag: 'a', text: message.link.label, href: message.link.url }]] : [])
+    ];
+    assertErrcode(await postWebhook(values.webhookUrl, {
+      ...(await signBody(values.secret)),
+      msg_type: 'post',
+      content: { post: { zh_cn: { title: message.title, content: paragraphs } } }
+    }));
+  }
+};
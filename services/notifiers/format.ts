@@ -0,0 +1,23 @@
+import { NotificationMessage } from '../../types';
+
+// 企业微信/钉钉/Discord 通用的 Markdown
+export const renderMarkdown = (message: NotificationMessage): string => [
+  `# ${message.title}`,
+  ...message.summary.map(line => `> ${line}`),
+  ...(message.body ? ['', message.body] : []),
+  ...(message.link ? ['', `[${message.link.label}](${message.link.url})`] : [])
+].join('\n');
+
+export const renderPlainText = (message: NotificationMessage): string => [
+  message.title,
+  '',
+  ...message.summary,
+  ...(message.body ? ['', message.body] : []),
+  ...(message.link ? ['', `${message.link.label}: ${message.link.url}`] : [])
+].join('\n');
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// 超出渠道长度限制时截断正文
+export const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
@@ -0,0 +1,53 @@
+import { LogCallback, NotificationMessage, Notifier, NotifierSettings, NotifierType } from '../../types';
+import { wecomNotifier } from './wecomNotifier';
+import { telegramNotifier } from './telegramNotifier';
+import { dingtalkNotifier } from './dingtalkNotifier';
+import { feishuNotifier } from './feishuNotifier';
+import { slackNotifier } from './slackNotifier';
+import { discordNotifier } from './discordNotifier';
+import { emailNotifier } from './emailNotifier';
+
+const NOTIFIERS: Record<NotifierType, Notifier> = {
+  [NotifierType.WECOM]: wecomNotifier,
+  [NotifierType.TELEGRAM]: telegramNotifier,
+  [NotifierType.DINGTALK]: dingtalkNotifier,
+  [NotifierType.FEISHU]: feishuNotifier,
+  [NotifierType.SLACK]: slackNotifier,
+  [NotifierType.DISCORD]: discordNotifier,
+  [NotifierType.EMAIL]: emailNotifier
+};
+
+export const getNotifier = (type: NotifierType): Notifier => {
+  const notifier = NOTIFIERS[type];
+  if (!notifier) throw new Error(`不支持的推送渠道: ${type}`);
+  return notifier;
+};
+
+export const DEFAULT_NOTIFIER_SETTINGS = Object.fromEntries(
+  Object.values(NotifierType).map(t => [t, { enabled: false, values: {} }])
+) as NotifierSettings;
+
+export const isNotifierConfigured = (type: NotifierType, settings: NotifierSettings): boolean =>
+  getNotifier(type).fields.filter(f => f.required).every(f => settings[type].values[f.key]?.trim());
+
+export const getEnabledNotifiers = (settings: NotifierSettings): NotifierType[] =>
+  Object.values(NotifierType).filter(t => settings[t].enabled && isNotifierConfigured(t, settings));
+
+// 并行推送到指定渠道，单个渠道失败只记录日志；返回成功的渠道数
+export const sendNotification = async (
+  message: NotificationMessage,
+  types: NotifierType[],
+  settings: NotifierSettings,
+  addLog: LogCallback
+): Promise<number> => {
+  const results = await Promise.allSettled(types.map(async t => {
+    if (!isNotifierConfigured(t, settings)) throw new Error('配置不完整');
+    await getNotifier(t).send(message, settings[t].values);
+  }));
+  results.forEach((r, i) => {
+    const name = getNotifier(types[i]).name;
+    if (r.status === 'fulfilled') addLog(`[Notify] ${name} 推送已送达`, 'SUCCESS');
+    else addLog(`[Notify] ${name} 推送失败: ${r.reason?.message ?? r.reason}`, 'WARN');
+  });
+  return results.filter(r => r.status === 'fulfilled').length;
+};
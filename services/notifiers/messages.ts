@@ -0,0 +1,75 @@
+import { AIAnalysis, AlertEvent, ExchangeType, NotificationMessage } from '../../types';
+import { formatSymbol } from '../marketService';
+import { getMarketProvider } from '../exchanges';
+import { formatDistance } from '../strategyService';
+import { RISK_VIOLATION_LABELS } from '../riskService';
+
+const ACTION_TEXT = {
+  LONG: '🟢 做多 (LONG)',
+  SHORT: '🔴 做空 (SHORT)',
+  WAIT: '⚪ 观望 (WAIT)'
+};
+
+const tradeLink = (symbol: string, exchange: ExchangeType) => {
+  const provider = getMarketProvider(exchange);
+  return { label: `在 ${provider.name} 查看 ${formatSymbol(symbol)}`, url: provider.getTradeUrl(symbol) };
+};
+
+export const buildAnalysisMessage = (
+  analysis: AIAnalysis,
+  price: number,
+  symbol: string,
+  exchange: ExchangeType
+): NotificationMessage => {
+  const { strategy } = analysis;
+  const withDistance = (target: number) => `${target.toFixed(2)} (${formatDistance(target, price)})`;
+
+  const details = strategy.action === 'WAIT' || !strategy.entry || strategy.stopLoss === null
+    ? ['暂无入场计划']
+    : [
+      `入场区间: ${withDistance(strategy.entry.low)} ~ ${withDistance(strategy.entry.high)}`,
+      ...strategy.takeProfits.map((tp, i) => `止盈 ${i + 1} (${tp.sizePercent.toFixed(0)}%): ${withDistance(tp.price)}`),
+      `止损点: ${withDistance(strategy.stopLoss)}`,
+      `盈亏比: ${strategy.riskReward !== null ? `${strategy.riskReward.toFixed(2)} : 1` : '-'}`,
+      ...(analysis.risk ? [
+        `建议仓位: ${analysis.risk.contracts} 张 (名义 ${analysis.risk.notional.toFixed(2)} USDT, 保证金 ${analysis.risk.margin.toFixed(2)} USDT)`,
+        `止损亏损: ${analysis.risk.lossAtStop.toFixed(2)} USDT (${analysis.risk.riskPercent.toFixed(2)}%)`,
+        `预估强平: ${withDistance(analysis.risk.liquidationPrice)}`,
+        ...(analysis.risk.violations.length > 0 ? [`风控警告: ${analysis.risk.violations.map(v => RISK_VIOLATION_LABELS[v]).join('; ')}`] : [])
+      ] : [])
+    ];
+
+  return {
+    title: `${formatSymbol(symbol)} 合约交易提醒`,
+    summary: [
+      `当前价格: $${price.toFixed(2)}`,
+      `市场情绪: ${analysis.sentiment}`,
+      ...(analysis.consensus ? [`模型共识: ${analysis.consensus.votes}/${analysis.consensus.responded} (置信度 ${analysis.consensus.confidence}%)`] : []),
+      `建议操作: ${ACTION_TEXT[strategy.action]}`,
+      `建议杠杆: ${strategy.action === 'WAIT' ? '-' : `${strategy.leverage}x`}`,
+      ...details,
+      `有效期至: ${new Date(strategy.expiresAt).toLocaleString()}`
+    ],
+    body: analysis.analysis,
+    link: tradeLink(symbol, exchange)
+  };
+};
+
+// 规则告警只包含触发原因，不附带模型分析
+export const buildAlertMessage = (event: AlertEvent): NotificationMessage => ({
+  title: `${formatSymbol(event.symbol)} 规则告警: ${event.ruleName}`,
+  summary: [
+    `当前价格: $${event.price.toFixed(2)}`,
+    `触发时间: ${new Date(event.timestamp).toLocaleString()}`,
+    ...event.reasons
+  ],
+  body: '',
+  link: tradeLink(event.symbol, event.exchange)
+});
+
+export const buildTestMessage = (): NotificationMessage => ({
+  title: '推送渠道测试',
+  summary: [`发送时间: ${new Date().toLocaleString()}`],
+  body: '收到这条消息说明渠道配置正确。',
+  link: null
+});
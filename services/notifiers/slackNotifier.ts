@@ -0,0 +1,21 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook } from './webhook';
+
+export const slackNotifier: Notifier = {
+  id: NotifierType.SLACK,
+  name: 'Slack',
+  fields: [
+    { key: 'webhookUrl', label: 'Incoming Webhook URL', placeholder: 'https://hooks.slack.com/services/...', secret: true, required: true }
+  ],
+
+  async send(message, values) {
+    // Slack mrkdwn 的粗体与链接语法与标准 Markdown 不同
+    const text = [
+      `*${message.title}*`,
+      ...message.summary.map(line => `> ${line}`),
+      ...(message.body ? ['', message.body] : []),
+      ...(message.link ? ['', `<${message.link.url}|${message.link.label}>`] : [])
+    ].join('\n');
+    await postWebhook(values.webhookUrl, { text });
+  }
+};
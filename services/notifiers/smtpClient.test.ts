@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { MailOptions, sendMail } from './smtpClient';
+
+const OPTIONS: MailOptions = {
+  host: '127.0.0.1',
+  port: 1,
+  username: '',
+  password: '',
+  from: 'Pulse <bot@example.com>',
+  to: ['a@example.com'],
+  subject: '测试',
+  text: 'hello'
+};
+
+describe('sendMail', () => {
+  it('拒绝含换行符的发件人，避免注入邮件头', async () => {
+    await expect(sendMail({ ...OPTIONS, from: 'bot@example.com\r\nBcc: victim@example.com' })).rejects.toThrow('发件人不能包含换行符');
+  });
+
+  it('拒绝含换行符的收件人，避免注入 SMTP 命令', async () => {
+    await expect(sendMail({ ...OPTIONS, to: ['a@example.com>\r\nRCPT TO:<b@example.com'] })).rejects.toThrow('收件人不能包含换行符');
+  });
+});
@@ -0,0 +1,152 @@
+import type { Socket } from 'node:net';
+import type { TLSSocket } from 'node:tls';
+
+export interface MailOptions {
+  host: string;
+  // 465 使用隐式 TLS，其余端口 (587/25) 使用 STARTTLS
+  port: number;
+  username: string;
+  password: string;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const TIMEOUT_MS = 30000;
+
+// 动态导入避免浏览器打包时解析 Node 内置模块
+const importNode = <T>(name: string): Promise<T> => import(/* @vite-ignore */ name);
+
+// 按行读取应答，"250-" 为多行应答的中间行，"250 " 为最后一行
+const createSession = (socket: Socket | TLSSocket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let pending: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = error;
+    pending?.reject(error);
+    pending = null;
+  };
+
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP 连接超时')));
+  socket.on('error', fail);
+  socket.on('close', () => fail(failure ?? new Error('SMTP 连接已关闭')));
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join('\n') };
+        lines = [];
+        if (pending) {
+          pending.resolve(reply);
+          pending = null;
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  });
+
+  const read = (): Promise<SmtpReply> => {
+    if (replies.length > 0) return Promise.resolve(replies.shift()!);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => { pending = { resolve, reject }; });
+  };
+
+  const expect = async (codes: number[]) => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${reply.text}`);
+    return reply;
+  };
+
+  const command = async (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes);
+  };
+
+  return { expect, command, socket };
+};
+
+const base64 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+// "Name <a@b.com>" -> "a@b.com"
+const addressOf = (text: string) => (text.match(/<([^>]+)>/)?.[1] ?? text).trim();
+
+// 地址会写入邮件头与 MAIL FROM / RCPT TO 命令，含换行时可注入额外的邮件头或 SMTP 命令
+const assertSingleLine = (label: string, value: string) => {
+  if (/[\r\n]/.test(value)) throw new Error(`${label}不能包含换行符`);
+};
+
+const buildMessage = (options: MailOptions) => {
+  const body = base64(options.text).replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${options.from}`,
+    `To: ${options.to.join(', ')}`,
+    `Subject: =?UTF-8?B?${base64(options.subject.replace(/[\r\n]+/g, ' '))}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+};
+
+// 最小化的 SMTP 客户端 (AUTH LOGIN)，只能在 Node 环境 (后台服务) 中使用
+export const sendMail = async (options: MailOptions): Promise<void> => {
+  if (typeof window !== 'undefined') throw new Error('浏览器无法直接连接 SMTP 服务器，邮件推送仅在后台服务中可用');
+  assertSingleLine('发件人', options.from);
+  options.to.forEach(to => assertSingleLine('收件人', to));
+  const net = await importNode<typeof import('node:net')>('node:net');
+  const tls = await importNode<typeof import('node:tls')>('node:tls');
+  const implicitTls = options.port === 465;
+
+  const connected = <S extends Socket>(socket: S, event: string) => new Promise<S>((resolve, reject) => {
+    socket.once(event, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+  let session = createSession(implicitTls
+    ? await connected(tls.connect({ host: options.host, port: options.port, servername: options.host }), 'secureConnect')
+    : await connected(net.connect({ host: options.host, port: options.port }), 'connect'));
+
+  try {
+    await session.expect([220]);
+    await session.command(`EHLO localhost`, [250]);
+    if (!implicitTls) {
+      await session.command('STARTTLS', [220]);
+      const plain = session.socket;
+      plain.removeAllListeners('data');
+      session = createSession(await connected(tls.connect({ socket: plain, servername: options.host }), 'secureConnect'));
+      await session.command(`EHLO localhost`, [250]);
+    }
+
+    if (options.username) {
+      await session.command('AUTH LOGIN', [334]);
+      await session.command(base64(options.username), [334]);
+      await session.command(base64(options.password), [235]);
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(options.from)}>`, [250]);
+    for (const to of options.to) await session.command(`RCPT TO:<${addressOf(to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // 正文为 base64，不会出现需要转义的单独 "." 行
+    await session.command(`${buildMessage(options)}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.socket.destroy();
+  }
+};
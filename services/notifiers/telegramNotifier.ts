@@ -0,0 +1,34 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook } from './webhook';
+import { escapeHtml, truncate } from './format';
+
+const API_BASE = 'https://api.telegram.org';
+const MAX_LENGTH = 4096;
+
+export const telegramNotifier: Notifier = {
+  id: NotifierType.TELEGRAM,
+  name: 'Telegram',
+  fields: [
+    { key: 'botToken', label: 'Bot Token', placeholder: '123456:ABC-DEF...', secret: true, required: true },
+    { key: 'chatId', label: 'Chat ID', placeholder: '-1001234567890 / @channel', required: true }
+  ],
+
+  async send(message, values) {
+    // HTML 模式只需转义 & < >，比 MarkdownV2 的转义规则简单
+    const text = [
+      `<b>${escapeHtml(message.title)}</b>`,
+      '',
+      ...message.summary.map(escapeHtml),
+      ...(message.body ? ['', escapeHtml(message.body)] : [])
+    ].join('\n');
+    const link = message.link ? `\n\n<a href="${escapeHtml(message.link.url)}">${escapeHtml(message.link.label)}</a>` : '';
+
+    const data = await postWebhook(`${API_BASE}/bot${values.botToken}/sendMessage`, {
+      chat_id: values.chatId,
+      text: truncate(text, MAX_LENGTH - link.length) + link,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true
+    });
+    if (!data?.ok) throw new Error(data?.description ?? 'Telegram 返回失败');
+  }
+};
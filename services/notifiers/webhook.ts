@@ -0,0 +1,24 @@
+// 渠道 webhook 统一的 JSON 请求，返回解析后的响应体 (非 JSON 时返回原文)
+export const postWebhook = async (url: string, body: unknown): Promise<any> => {
+  // Note: Webhooks usually do not allow CORS. This might fail if the URL is called directly from the browser.
+  // Running the headless daemon avoids the restriction.
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const text = await response.text();
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${text.slice(0, 200) || response.statusText}`);
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return text;
+  }
+};
+
+// 企业微信/钉钉用 errcode，飞书用 code，非 0 表示业务失败
+export const assertErrcode = (data: any) => {
+  const code = data?.errcode ?? data?.code ?? 0;
+  if (code !== 0) throw new Error(`${code}: ${data?.errmsg ?? data?.msg ?? '未知错误'}`);
+};
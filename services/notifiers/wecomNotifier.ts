@@ -0,0 +1,21 @@
+import { Notifier, NotifierType } from '../../types';
+import { postWebhook, assertErrcode } from './webhook';
+import { renderMarkdown, truncate } from './format';
+
+// 企业微信 markdown 消息上限 4096 字节，按字符数保守截断
+const MAX_LENGTH = 3000;
+
+export const wecomNotifier: Notifier = {
+  id: NotifierType.WECOM,
+  name: '企业微信',
+  fields: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=...', secret: true, required: true }
+  ],
+
+  async send(message, values) {
+    assertErrcode(await postWebhook(values.webhookUrl, {
+      msgtype: 'markdown',
+      markdown: { content: truncate(renderMarkdown(message), MAX_LENGTH) }
+    }));
+  }
+};
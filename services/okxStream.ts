@@ -0,0 +1,442 @@
+import { Kline, OrderBook, Ticker, Trade, TakerBucket, DerivativesData, MarketStreamState, StreamStatus, LogCallback } from '../types';
+import { okxProvider } from './exchanges/okxProvider';
+import { fetchTakerBuckets, fetchDerivatives } from './marketService';
+import { dedupeTrades } from './flowService';
+
+// OKX 公共频道 (盘口/成交/行情) 与业务频道 (K 线) 分属不同地址
+const OKX_WS_PUBLIC = 'wss://ws.okx.com:8443/ws/v5/public';
+const OKX_WS_BUSINESS = 'wss://ws.okx.com:8443/ws/v5/business';
+
+// 前端周期 -> OKX K 线频道
+const CANDLE_CHANNELS: Record<string, string> = {
+  '15m': 'candle15m',
+  '1h': 'candle1H',
+  '4h': 'candle4H',
+  '1d': 'candle1Dutc'
+};
+
+const MAX_CANDLES = 300;
+const MAX_TRADES = 1000;
+const BOOK_DEPTH = 200;
+const PING_INTERVAL = 25000;
+// 超过该时间没有任何消息 (包括 pong) 视为连接已死
+const STALE_TIMEOUT = 40000;
+const MAX_BACKOFF = 30000;
+// 重新订阅后等待盘口快照的时间，超时仍未收到才再请求一次
+const BOOK_RESYNC_TIMEOUT = 10000;
+// 主动买卖量与合约统计数据按 5 分钟聚合，通过 REST 定时刷新即可
+const STATS_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+interface SymbolBook {
+  bids: Map<string, string>;
+  asks: Map<string, string>;
+  seqId: number | null;
+  ready: boolean;
+  // 因丢包重新订阅的时间，等待新快照期间丢弃增量推送
+  resyncAt: number | null;
+}
+
+interface SymbolState {
+  candles: Record<string, Kline[]>;
+  book: SymbolBook;
+  ticker: Ticker | null;
+  trades: Trade[];
+  takerBuckets: Record<'5m' | '1h', TakerBucket[]>;
+  derivatives: DerivativesData | null;
+  updatedAt: number;
+}
+
+interface SocketHandle {
+  url: string;
+  ws: WebSocket | null;
+  attempts: number;
+  pingTimer: ReturnType<typeof setInterval> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  lastMessageAt: number;
+  buildArgs: (symbols: string[]) => { channel: string; instId: string }[];
+}
+
+export interface OkxMarketStream {
+  start(): void;
+  stop(): void;
+  setSymbols(symbols: string[]): void;
+  isReady(symbol: string): boolean;
+  getState(symbol: string): MarketStreamState | null;
+  getStatus(): StreamStatus;
+}
+
+const emptyState = (): SymbolState => ({
+  candles: {},
+  book: { bids: new Map(), asks: new Map(), seqId: null, ready: false, resyncAt: null },
+  ticker: null,
+  trades: [],
+  takerBuckets: { '5m': [], '1h': [] },
+  derivatives: null,
+  updatedAt: 0
+});
+
+// 按时间戳合并 K 线，新数据覆盖旧数据 (未收盘的 K 线会被持续更新)
+const mergeCandles = (existing: Kline[], incoming: Kline[]): Kline[] => {
+  const byTs = new Map<number, Kline>();
+  existing.forEach(k => byTs.set(k.timestamp, k));
+  incoming.forEach(k => byTs.set(k.timestamp, k));
+  return Array.from(byTs.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_CANDLES);
+};
+
+const applyLevels = (side: Map<string, string>, levels: any[] = []) => {
+  levels.forEach(l => {
+    // size 为 0 表示该价位已被撤销
+    if (parseFloat(l[1]) === 0) side.delete(l[0]);
+    else side.set(l[0], l[1]);
+  });
+};
+
+const topLevels = (side: Map<string, string>, descending: boolean): [string, string][] =>
+  Array.from(side.entries())
+    .sort((a, b) => descending ? parseFloat(b[0]) - parseFloat(a[0]) : parseFloat(a[0]) - parseFloat(b[0]))
+    .slice(0, BOOK_DEPTH);
+
+export const createOkxMarketStream = (
+  initialSymbols: string[],
+  addLog: LogCallback,
+  onStatus: (status: StreamStatus) => void = () => {}
+): OkxMarketStream => {
+  let symbols = [...initialSymbols];
+  let status: StreamStatus = 'IDLE';
+  let running = false;
+  let statsTimer: ReturnType<typeof setInterval> | null = null;
+  const states = new Map<string, SymbolState>();
+
+  const setStatus = (next: StreamStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatus(next);
+  };
+
+  const stateOf = (symbol: string) => {
+    let state = states.get(symbol);
+    if (!state) {
+      state = emptyState();
+      states.set(symbol, state);
+    }
+    return state;
+  };
+
+  const publicSocket: SocketHandle = {
+    url: OKX_WS_PUBLIC,
+    ws: null,
+    attempts: 0,
+    pingTimer: null,
+    reconnectTimer: null,
+    lastMessageAt: 0,
+    buildArgs: (list) => list.flatMap(instId => [
+      { channel: 'books', instId },
+      { channel: 'trades', instId },
+      { channel: 'tickers', instId }
+    ])
+  };
+
+  const businessSocket: SocketHandle = {
+    url: OKX_WS_BUSINESS,
+    ws: null,
+    attempts: 0,
+    pingTimer: null,
+    reconnectTimer: null,
+    lastMessageAt: 0,
+    buildArgs: (list) => list.flatMap(instId =>
+      Object.values(CANDLE_CHANNELS).map(channel => ({ channel, instId }))
+    )
+  };
+
+  const sockets = [publicSocket, businessSocket];
+
+  const send = (handle: SocketHandle, payload: any) => {
+    if (handle.ws?.readyState === WebSocket.OPEN) {
+      handle.ws.send(typeof payload === 'string' ? payload : JSON.stringify(payload));
+    }
+  };
+
+  const subscribe = (handle: SocketHandle, args: { channel: string; instId: string }[]) => {
+    if (args.length > 0) send(handle, { op: 'subscribe', args });
+  };
+
+  const unsubscribe = (handle: SocketHandle, args: { channel: string; instId: string }[]) => {
+    if (args.length > 0) send(handle, { op: 'unsubscribe', args });
+  };
+
+  // 通过 REST 补齐断线期间缺失的 K 线
+  const backfillCandles = async (targets: string[]) => {
+    for (const symbol of targets) {
+      for (const tf of Object.keys(CANDLE_CHANNELS)) {
+        if (!running) return;
+        try {
+          const klines = await okxProvider.fetchKlines(symbol, tf, 100, addLog);
+          const state = stateOf(symbol);
+          state.candles[tf] = mergeCandles(state.candles[tf] || [], klines);
+        } catch (e: any) {
+          addLog(`[Stream] ${symbol} ${tf} K 线补齐失败: ${e.message}`, 'WARN');
+        }
+      }
+    }
+    addLog(`[Stream] K 线补齐完成 (${targets.join(', ')})`, 'SUCCESS');
+  };
+
+  const refreshStats = async (targets: string[]) => {
+    for (const symbol of targets) {
+      if (!running) return;
+      const buckets = await fetchTakerBuckets(okxProvider, symbol, addLog);
+      const derivatives = await fetchDerivatives(okxProvider, symbol, addLog);
+      if (!symbols.includes(symbol)) continue;
+      const state = stateOf(symbol);
+      state.takerBuckets = buckets;
+      state.derivatives = derivatives ?? state.derivatives;
+    }
+  };
+
+  // 逐笔成交推送只从订阅时刻开始，用 REST 补上订阅前的最近成交
+  const backfillTrades = async (targets: string[]) => {
+    for (const symbol of targets) {
+      if (!running) return;
+      try {
+        const trades = await okxProvider.fetchTrades(symbol, 500, addLog);
+        const state = stateOf(symbol);
+        state.trades = dedupeTrades([...state.trades, ...trades])
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-MAX_TRADES);
+      } catch (e: any) {
+        addLog(`[Stream] ${symbol} 逐笔成交补齐失败: ${e.message}`, 'WARN');
+      }
+    }
+  };
+
+  const backfill = async (targets: string[]) => {
+    await backfillCandles(targets);
+    await backfillTrades(targets);
+    await refreshStats(targets);
+  };
+
+  const handleBook = (instId: string, action: string, data: any) => {
+    const book = stateOf(instId).book;
+    if (action === 'snapshot') {
+      book.bids.clear();
+      book.asks.clear();
+      book.resyncAt = null;
+    } else if (!book.ready || (book.seqId !== null && data.prevSeqId !== book.seqId)) {
+      // 序列号不连续说明丢包，重新订阅以获取新快照；已在等待快照时只丢弃增量
+      book.ready = false;
+      if (book.resyncAt !== null && Date.now() - book.resyncAt < BOOK_RESYNC_TIMEOUT) return;
+      addLog(`[Stream] ${instId} 盘口序列不连续，重新订阅`, 'WARN');
+      book.resyncAt = Date.now();
+      unsubscribe(publicSocket, [{ channel: 'books', instId }]);
+      subscribe(publicSocket, [{ channel: 'books', instId }]);
+      return;
+    }
+    applyLevels(book.bids, data.bids);
+    applyLevels(book.asks, data.asks);
+    book.seqId = data.seqId ?? null;
+    book.ready = true;
+  };
+
+  const handleMessage = (handle: SocketHandle, raw: string) => {
+    handle.lastMessageAt = Date.now();
+    if (raw === 'pong') return;
+
+    let msg: any;
+    try {
+      msg = JSON.parse(raw);
+    } catch (e) {
+      return;
+    }
+
+    if (msg.event === 'error') {
+      addLog(`[Stream] 订阅错误: ${msg.msg} (Code: ${msg.code})`, 'WARN');
+      return;
+    }
+    if (!msg.arg || !Array.isArray(msg.data)) return;
+
+    const { channel, instId } = msg.arg;
+    if (!symbols.includes(instId)) return;
+    const state = stateOf(instId);
+    state.updatedAt = Date.now();
+
+    if (channel === 'books') {
+      msg.data.forEach((d: any) => handleBook(instId, msg.action, d));
+    } else if (channel === 'trades') {
+      const trades: Trade[] = msg.data.map((d: any) => ({
+        tradeId: d.tradeId,
+        timestamp: parseInt(d.ts),
+        price: parseFloat(d.px),
+        size: parseFloat(d.sz),
+        side: d.side
+      }));
+      state.trades = dedupeTrades([...state.trades, ...trades]).slice(-MAX_TRADES);
+    } else if (channel === 'tickers') {
+      const t = msg.data[0];
+      state.ticker = {
+        last: parseFloat(t.last || 0),
+        open24h: parseFloat(t.open24h || 0),
+        high24h: parseFloat(t.high24h || 0),
+        low24h: parseFloat(t.low24h || 0),
+        vol24h: parseFloat(t.vol24h || 0)
+      };
+    } else {
+      const tf = Object.keys(CANDLE_CHANNELS).find(k => CANDLE_CHANNELS[k] === channel);
+      if (!tf) return;
+      // 推送格式与 REST 相同: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+      const klines: Kline[] = msg.data.map((d: any) => ({
+        timestamp: parseInt(d[0]),
+        open: parseFloat(d[1]),
+        high: parseFloat(d[2]),
+        low: parseFloat(d[3]),
+        close: parseFloat(d[4]),
+        volume: parseFloat(d[5]),
+      }));
+      state.candles[tf] = mergeCandles(state.candles[tf] || [], klines);
+    }
+  };
+
+  const updateStatus = () => {
+    if (!running) return setStatus('IDLE');
+    const allOpen = sockets.every(h => h.ws?.readyState === WebSocket.OPEN);
+    if (allOpen) setStatus('LIVE');
+    else setStatus(sockets.some(h => h.attempts > 0) ? 'RECONNECTING' : 'CONNECTING');
+  };
+
+  const clearTimers = (handle: SocketHandle) => {
+    if (handle.pingTimer) clearInterval(handle.pingTimer);
+    if (handle.reconnectTimer) clearTimeout(handle.reconnectTimer);
+    handle.pingTimer = null;
+    handle.reconnectTimer = null;
+  };
+
+  const scheduleReconnect = (handle: SocketHandle) => {
+    if (!running || handle.reconnectTimer) return;
+    handle.attempts++;
+    const delay = Math.min(1000 * 2 ** (handle.attempts - 1), MAX_BACKOFF);
+    addLog(`[Stream] 连接断开，${(delay / 1000).toFixed(0)}s 后第 ${handle.attempts} 次重连`, 'WARN');
+    handle.reconnectTimer = setTimeout(() => {
+      handle.reconnectTimer = null;
+      connect(handle);
+    }, delay);
+    updateStatus();
+  };
+
+  function connect(handle: SocketHandle) {
+    if (!running) return;
+    const ws = new WebSocket(handle.url);
+    handle.ws = ws;
+    updateStatus();
+
+    ws.onopen = () => {
+      const isReconnect = handle.attempts > 0;
+      handle.attempts = 0;
+      handle.lastMessageAt = Date.now();
+      subscribe(handle, handle.buildArgs(symbols));
+      addLog(`[Stream] 已连接 ${new URL(handle.url).pathname}${isReconnect ? ' (重连成功，已重新订阅)' : ''}`, 'SUCCESS');
+
+      handle.pingTimer = setInterval(() => {
+        if (Date.now() - handle.lastMessageAt > STALE_TIMEOUT) {
+          addLog('[Stream] 心跳超时，主动断开重连', 'WARN');
+          ws.close();
+          return;
+        }
+        send(handle, 'ping');
+      }, PING_INTERVAL);
+
+      if (isReconnect && handle === businessSocket) {
+        backfillCandles(symbols);
+      } else if (isReconnect) {
+        backfillTrades(symbols);
+      }
+      updateStatus();
+    };
+
+    ws.onmessage = (event) => handleMessage(handle, typeof event.data === 'string' ? event.data : String(event.data));
+
+    ws.onclose = () => {
+      if (handle.ws !== ws) return;
+      clearTimers(handle);
+      handle.ws = null;
+      if (handle === publicSocket) {
+        // 重连后会收到新的盘口快照
+        states.forEach(s => { s.book.ready = false; s.book.seqId = null; s.book.resyncAt = null; });
+      }
+      scheduleReconnect(handle);
+    };
+
+    ws.onerror = () => {
+      addLog(`[Stream] ${new URL(handle.url).pathname} 连接异常`, 'WARN');
+    };
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      addLog(`[Stream] 启动 OKX 实时行情: ${symbols.join(', ')}`);
+      sockets.forEach(connect);
+      backfill(symbols);
+      statsTimer = setInterval(() => refreshStats(symbols), STATS_REFRESH_INTERVAL);
+    },
+
+    stop() {
+      running = false;
+      if (statsTimer) clearInterval(statsTimer);
+      statsTimer = null;
+      sockets.forEach(handle => {
+        clearTimers(handle);
+        const ws = handle.ws;
+        handle.ws = null;
+        handle.attempts = 0;
+        ws?.close();
+      });
+      states.clear();
+      updateStatus();
+      addLog('[Stream] 实时行情已关闭');
+    },
+
+    setSymbols(next: string[]) {
+      const removed = symbols.filter(s => !next.includes(s));
+      const added = next.filter(s => !symbols.includes(s));
+      if (removed.length === 0 && added.length === 0) return;
+
+      sockets.forEach(handle => {
+        unsubscribe(handle, handle.buildArgs(removed));
+        subscribe(handle, handle.buildArgs(added));
+      });
+      removed.forEach(s => states.delete(s));
+      symbols = [...next];
+      if (running && added.length > 0) backfill(added);
+    },
+
+    isReady(symbol: string) {
+      const state = states.get(symbol);
+      if (!running || !state || !state.book.ready || !state.ticker) return false;
+      return Object.keys(CANDLE_CHANNELS).every(tf => (state.candles[tf]?.length ?? 0) > 0);
+    },
+
+    getState(symbol: string): MarketStreamState | null {
+      const state = states.get(symbol);
+      if (!state) return null;
+      const orderBook: OrderBook = {
+        bids: topLevels(state.book.bids, true),
+        asks: topLevels(state.book.asks, false)
+      };
+      return {
+        candles: { ...state.candles },
+        orderBook,
+        ticker: state.ticker,
+        trades: [...state.trades],
+        takerBuckets: state.takerBuckets,
+        derivatives: state.derivatives,
+        updatedAt: state.updatedAt
+      };
+    },
+
+    getStatus() {
+      return status;
+    }
+  };
+};
@@ -0,0 +1,86 @@
+import { OrderBook, ParsedOrderBook, BookLevel, OrderBookAnalysis, DepthBand, OrderBookWall } from '../types';
+
+export const DEPTH_BANDS = [0.5, 1, 2];
+// 挂单量达到档位中位数的该倍数即视为大额挂单墙
+const WALL_MULTIPLE = 5;
+const MAX_WALLS = 3;
+
+export const parseOrderBook = (book: OrderBook): ParsedOrderBook => {
+  const toLevels = (levels: [string, string][]): BookLevel[] =>
+    levels
+      .map(([price, size]) => ({ price: parseFloat(price), size: parseFloat(size) }))
+      .filter(l => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0);
+  return {
+    bids: toLevels(book.bids).sort((a, b) => b.price - a.price),
+    asks: toLevels(book.asks).sort((a, b) => a.price - b.price)
+  };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const buildBand = (book: ParsedOrderBook, mid: number, percent: number): DepthBand => {
+  const low = mid * (1 - percent / 100);
+  const high = mid * (1 + percent / 100);
+  const bidVolume = book.bids.filter(l => l.price >= low).reduce((acc, l) => acc + l.size, 0);
+  const askVolume = book.asks.filter(l => l.price <= high).reduce((acc, l) => acc + l.size, 0);
+  const total = bidVolume + askVolume;
+  const lastBid = book.bids[book.bids.length - 1];
+  const lastAsk = book.asks[book.asks.length - 1];
+  return {
+    percent,
+    bidVolume,
+    askVolume,
+    imbalance: total > 0 ? (bidVolume - askVolume) / total : 0,
+    complete: !!lastBid && !!lastAsk && lastBid.price <= low && lastAsk.price >= high
+  };
+};
+
+// 每侧取挂单量最大的几档
+const detectWalls = (book: ParsedOrderBook, mid: number): OrderBookWall[] => {
+  const typical = median([...book.bids, ...book.asks].map(l => l.size));
+  if (typical <= 0) return [];
+  const candidates: OrderBookWall[] = [
+    ...book.bids.map(l => ({ side: 'bid' as const, ...l })),
+    ...book.asks.map(l => ({ side: 'ask' as const, ...l }))
+  ]
+    .filter(l => l.size >= typical * WALL_MULTIPLE)
+    .map(l => ({
+      side: l.side,
+      price: l.price,
+      size: l.size,
+      distancePercent: (l.price - mid) / mid * 100,
+      multiple: l.size / typical
+    }));
+  const pick = (side: OrderBookWall['side']) =>
+    candidates.filter(w => w.side === side).sort((a, b) => b.size - a.size).slice(0, MAX_WALLS);
+  return [...pick('bid'), ...pick('ask')];
+};
+
+export const analyzeOrderBook = (book: ParsedOrderBook): OrderBookAnalysis => {
+  const bestBid = book.bids[0];
+  const bestAsk = book.asks[0];
+  if (!bestBid || !bestAsk) {
+    throw new Error('盘口数据为空，无法分析');
+  }
+
+  const mid = (bestBid.price + bestAsk.price) / 2;
+  const spread = bestAsk.price - bestBid.price;
+  // 微观价格：按对手方挂单量加权，更接近下一笔成交价
+  const microprice = (bestBid.price * bestAsk.size + bestAsk.price * bestBid.size) / (bestBid.size + bestAsk.size);
+
+  return {
+    bestBid: bestBid.price,
+    bestAsk: bestAsk.price,
+    mid,
+    spread,
+    spreadBps: spread / mid * 10000,
+    microprice,
+    bands: DEPTH_BANDS.map(p => buildBand(book, mid, p)),
+    walls: detectWalls(book, mid)
+  };
+};
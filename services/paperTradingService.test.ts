@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { AIAnalysis, FullMarketData } from '../types';
+import { createPaperAccount, openFromAnalysis, positionMargin } from './paperTradingService';
+import { DEFAULT_RISK_CONFIG } from './riskService';
+
+// 限价做多 100，止损 99，1 倍杠杆；按 0.6% 风险折算为 6 币，保证金 600 U
+const ANALYSIS: AIAnalysis = {
+  sentiment: 'Bullish',
+  analysis: '',
+  strategy: {
+    action: 'LONG',
+    entry: { low: 100, high: 100 },
+    takeProfits: [{ price: 110, sizePercent: 100 }],
+    stopLoss: 99,
+    leverage: 1,
+    expiresAt: Number.MAX_SAFE_INTEGER,
+    riskReward: null
+  }
+};
+
+const RISK = { ...DEFAULT_RISK_CONFIG, maxRiskPercent: 0.6 };
+
+// 当前价 105 在入场区间之外，只会挂单
+const market = (symbol: string): FullMarketData => ({
+  symbol,
+  timestamp: 1_700_000_000_000,
+  snapshots: [{ price: 105 }],
+  instrument: null
+} as unknown as FullMarketData);
+
+describe('openFromAnalysis', () => {
+  it('挂单按限价预留保证金，多笔挂单合计不能超过权益', () => {
+    const logs: string[] = [];
+    const addLog = (message: string) => { logs.push(message); };
+    let account = { ...createPaperAccount(1000), enabled: true };
+
+    account = openFromAnalysis(account, market('ETH-USDT-SWAP'), ANALYSIS, RISK, addLog);
+    expect(account.positions).toHaveLength(1);
+    expect(account.positions[0].status).toBe('PENDING');
+    expect(positionMargin(account.positions[0])).toBeCloseTo(600, 6);
+
+    account = openFromAnalysis(account, market('BTC-USDT-SWAP'), ANALYSIS, RISK, addLog);
+    expect(account.positions).toHaveLength(1);
+    expect(logs.at(-1)).toContain('可用保证金不足');
+  });
+});
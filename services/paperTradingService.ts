@@ -0,0 +1,229 @@
+import { AIAnalysis, FullMarketData, LogCallback, PaperAccount, PaperPosition, PaperTrade, RiskConfig } from '../types';
+import { getStrategyLevels, isMarketEntry, resolveExit } from './strategyService';
+import { assessRisk } from './riskService';
+import { formatSymbol, TIMEFRAME_MS } from './marketService';
+
+const STORAGE_KEY = 'eth_pulse_paper';
+// 撮合使用 15m K 线，与信号日志、回测一致
+const FILL_TIMEFRAME = '15m';
+// OKX 永续每 8 小时 (UTC 0/8/16 点) 结算一次资金费
+const FUNDING_INTERVAL = 8 * 60 * 60 * 1000;
+const MAX_TRADES = 500;
+
+export const createPaperAccount = (initialEquity: number = 10000): PaperAccount => ({
+  enabled: false,
+  initialEquity,
+  balance: initialEquity,
+  // OKX 普通用户永续费率
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+  positions: [],
+  trades: []
+});
+
+export const loadPaperAccount = (): PaperAccount => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...createPaperAccount(), ...JSON.parse(saved) } : createPaperAccount();
+  } catch {
+    return createPaperAccount();
+  }
+};
+
+export const savePaperAccount = (account: PaperAccount) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+};
+
+const direction = (side: PaperPosition['side']) => side === 'LONG' ? 1 : -1;
+
+export const unrealizedPnl = (position: PaperPosition): number =>
+  position.entryPrice === null ? 0 : (position.markPrice - position.entryPrice) * position.size * direction(position.side);
+
+// 挂单按计划的限价预留保证金，避免多笔挂单在成交后合计超出权益
+export const positionMargin = (position: PaperPosition): number =>
+  (position.entryPrice ?? position.levels.entry) * position.size / position.levels.leverage;
+
+export const getAccountEquity = (account: PaperAccount): number =>
+  account.balance + account.positions.reduce((acc, p) => acc + unrealizedPnl(p), 0);
+
+const closePosition = (
+  account: PaperAccount,
+  position: PaperPosition,
+  price: number,
+  time: number,
+  reason: PaperTrade['exitReason'],
+  fee: number
+): PaperAccount => {
+  const exitFee = position.size * price * fee;
+  const gross = (price - position.entryPrice!) * position.size * direction(position.side);
+  const trade: PaperTrade = {
+    id: position.id,
+    symbol: position.symbol,
+    side: position.side,
+    entryTime: position.openedAt!,
+    entryPrice: position.entryPrice!,
+    exitTime: time,
+    exitPrice: price,
+    exitReason: reason,
+    size: position.size,
+    leverage: position.levels.leverage,
+    fees: position.fees + exitFee,
+    funding: position.funding,
+    pnl: gross - position.fees - exitFee - position.funding
+  };
+  return {
+    ...account,
+    // 开仓手续费与资金费已在发生时从余额扣除
+    balance: account.balance + gross - exitFee,
+    positions: account.positions.filter(p => p.id !== position.id),
+    trades: [trade, ...account.trades].slice(0, MAX_TRADES)
+  };
+};
+
+const fillPosition = (account: PaperAccount, position: PaperPosition, price: number, time: number, fee: number): PaperAccount => {
+  const fees = position.size * price * fee;
+  const filled: PaperPosition = { ...position, status: 'OPEN', entryPrice: price, openedAt: time, markPrice: price, fees, fundingCheckedAt: time };
+  return {
+    ...account,
+    balance: account.balance - fees,
+    positions: account.positions.map(p => p.id === position.id ? filled : p)
+  };
+};
+
+// 每个合约同时只保留一笔模拟仓位；仓位按模拟账户权益与风控参数折算
+export const openFromAnalysis = (
+  account: PaperAccount,
+  data: FullMarketData,
+  analysis: AIAnalysis,
+  risk: RiskConfig,
+  addLog: LogCallback
+): PaperAccount => {
+  if (!account.enabled || analysis.strategy.action === 'WAIT') return account;
+  const label = formatSymbol(data.symbol);
+  if (account.positions.some(p => p.symbol === data.symbol)) {
+    addLog(`[Paper] ${label} 已有模拟仓位，忽略新信号`);
+    return account;
+  }
+  if (analysis.consensus && !analysis.consensus.isConsensus) return account;
+
+  const levels = getStrategyLevels(analysis);
+  const equity = getAccountEquity(account);
+  const sizing = assessRisk(analysis, { ...risk, accountEquity: equity }, data.instrument);
+  if (!levels || !sizing) return account;
+  if (sizing.blocked) {
+    addLog(`[Paper] ${label} 信号未通过风控检查，不开仓`, 'WARN');
+    return account;
+  }
+  const usedMargin = account.positions.reduce((acc, p) => acc + positionMargin(p), 0);
+  if (sizing.margin > equity - usedMargin) {
+    addLog(`[Paper] ${label} 可用保证金不足 (需要 ${sizing.margin.toFixed(2)} U)`, 'WARN');
+    return account;
+  }
+
+  const price = data.snapshots[0].price;
+  const position: PaperPosition = {
+    id: `${data.symbol}-${data.timestamp}`,
+    symbol: data.symbol,
+    side: analysis.strategy.action,
+    status: 'PENDING',
+    createdAt: data.timestamp,
+    levels,
+    size: sizing.contracts * sizing.contractValue,
+    entryPrice: null,
+    openedAt: null,
+    markPrice: price,
+    fees: 0,
+    funding: 0,
+    checkedUntil: data.timestamp,
+    fundingCheckedAt: data.timestamp
+  };
+  const next = { ...account, positions: [...account.positions, position] };
+
+  // 当前价已在入场区间内时按市价 (taker) 成交，否则挂限价单 (maker)
+  if (isMarketEntry(analysis.strategy.entry!, price)) {
+    addLog(`[Paper] ${label} 市价${position.side === 'LONG' ? '开多' : '开空'} ${sizing.contracts} 张 @ ${price.toFixed(2)}`, 'SUCCESS');
+    // 成交所在的 K 线剩余部分也要判断止损
+    const fillMs = TIMEFRAME_MS[FILL_TIMEFRAME];
+    const filled = { ...position, checkedUntil: Math.floor(data.timestamp / fillMs) * fillMs };
+    return fillPosition(next, filled, price, data.timestamp, account.takerFee);
+  }
+  addLog(`[Paper] ${label} 挂单${position.side === 'LONG' ? '开多' : '开空'} ${sizing.contracts} 张 @ ${levels.entry.toFixed(2)}`);
+  return next;
+};
+
+// 用新拉取的 15m K 线撮合挂单与止盈止损，并按实时资金费率结算
+export const updateWithMarket = (account: PaperAccount, data: FullMarketData, addLog: LogCallback): PaperAccount => {
+  const klines = data.snapshots.find(s => s.timeframe === FILL_TIMEFRAME)?.kline ?? [];
+  const price = data.snapshots[0].price;
+  const label = formatSymbol(data.symbol);
+  let next = account;
+
+  account.positions.filter(p => p.symbol === data.symbol).forEach(initial => {
+    let position = initial;
+    const { entry, expiresAt } = position.levels;
+
+    // 只使用挂单之后开盘的 K 线；未收盘的 K 线下次会重新判断
+    for (const k of klines) {
+      if (k.timestamp < position.checkedUntil) continue;
+      if (position.status === 'PENDING') {
+        if (k.timestamp >= expiresAt) {
+          addLog(`[Paper] ${label} 挂单到期未成交，已撤销`);
+          next = { ...next, positions: next.positions.filter(p => p.id !== position.id) };
+          return;
+        }
+        if (k.low > entry || k.high < entry) continue;
+        next = fillPosition(next, position, entry, k.timestamp, account.makerFee);
+        position = next.positions.find(p => p.id === position.id)!;
+        addLog(`[Paper] ${label} 挂单成交 @ ${entry.toFixed(2)}`, 'SUCCESS');
+      }
+
+      // 限价成交与市价成交所在的 K 线都在开盘后才成交，按 resolveExit 的保守规则只判断止损
+      const exit = resolveExit(k, position.side, position.levels, k.timestamp <= position.openedAt!);
+      if (exit) {
+        const hitSL = exit.reason === 'SL';
+        next = closePosition(next, position, exit.price, Math.max(k.timestamp, position.openedAt!), exit.reason, hitSL ? account.takerFee : account.makerFee);
+        addLog(`[Paper] ${label} ${hitSL ? '止损' : '止盈'}平仓 @ ${exit.price.toFixed(2)}`, hitSL ? 'WARN' : 'SUCCESS');
+        return;
+      }
+    }
+
+    if (position.status === 'PENDING') {
+      if (data.timestamp >= expiresAt) {
+        addLog(`[Paper] ${label} 挂单到期未成交，已撤销`);
+        next = { ...next, positions: next.positions.filter(p => p.id !== position.id) };
+      } else {
+        next = { ...next, positions: next.positions.map(p => p.id === position.id ? { ...p, markPrice: price } : p) };
+      }
+      return;
+    }
+
+    let funding = 0;
+    const settlements = Math.floor(data.timestamp / FUNDING_INTERVAL) - Math.floor(position.fundingCheckedAt / FUNDING_INTERVAL);
+    if (settlements > 0 && data.derivatives) {
+      funding = settlements * position.size * price * data.derivatives.fundingRate * direction(position.side);
+    }
+    const updated: PaperPosition = {
+      ...position,
+      markPrice: price,
+      funding: position.funding + funding,
+      fundingCheckedAt: data.timestamp,
+      checkedUntil: klines.length > 0 ? klines[klines.length - 1].timestamp : position.checkedUntil
+    };
+    next = { ...next, balance: next.balance - funding, positions: next.positions.map(p => p.id === position.id ? updated : p) };
+
+    // 策略有效期结束后按市价平仓
+    if (data.timestamp >= expiresAt) {
+      next = closePosition(next, updated, price, data.timestamp, 'EXPIRED', account.takerFee);
+      addLog(`[Paper] ${label} 策略到期，市价平仓 @ ${price.toFixed(2)}`);
+    }
+  });
+
+  return next;
+};
+
+export const closePaperPosition = (account: PaperAccount, id: string): PaperAccount => {
+  const position = account.positions.find(p => p.id === id);
+  if (!position) return account;
+  if (position.status === 'PENDING') return { ...account, positions: account.positions.filter(p => p.id !== id) };
+  return closePosition(account, position, position.markPrice, Date.now(), 'MANUAL', account.takerFee);
+};
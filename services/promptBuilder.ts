@@ -0,0 +1,183 @@
+import { FullMarketData, Kline, MarketSnapshot, PromptTemplate } from '../types';
+import { formatSymbol } from './marketService';
+
+export const DEFAULT_PROMPT_VERSION = 'compact-v1';
+
+const OUTPUT_SCHEMA = `请以结构化的 JSON 格式返回，符合以下 Schema:
+{
+  "sentiment": "Bullish" | "Bearish" | "Neutral",
+  "analysis": "string",
+  "strategy": {
+    "action": "LONG" | "SHORT" | "WAIT",
+    "leverage": number,
+    "entryLow": number,
+    "entryHigh": number,
+    "takeProfits": [{ "price": number, "sizePercent": number }],
+    "stopLoss": number,
+    "validityHours": number
+  }
+}`;
+
+// 模板中可用的占位符: {{pair}} {{symbol}} {{market}}
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: 'compact-v1',
+    description: '多周期摘要 + 最近 20 根 K 线',
+    recentCandles: 20,
+    system: `你是一个顶级的加密货币合约交易专家。
+你会接收到 {{pair}} ({{symbol}}) 的行情摘要：多周期 (15m, 1h, 4h, 1d) 的趋势标签、技术指标、波段高低点与最近 K 线，以及盘口、主动买卖流向和永续合约数据。
+永续合约数据包括资金费率 (当前/预测)、持仓量及其 24h 变化、大户多空比、标记价与指数价基差、近期强平量 (不可用时为 -)。
+请深入分析这些数据，给出深入的研判分析，并给我深入的合约建议。
+止损距离与杠杆倍数请参考 ATR 衡量的波动率，趋势强度请参考 ADX；止损应放在波段高低点之外。
+杠杆建议必须考虑资金费率成本与持仓量变化：费率极端或持仓量快速堆积时应降低杠杆。
+必须 include：
+1. 当前市场情绪 (Bullish/Bearish/Neutral)
+2. 详细的技术面分析
+3. 合约建议 (LONG/SHORT/WAIT)
+4. 杠杆倍数建议
+5. 入场区间、分批止盈 (每档平仓比例合计 100%) 与止损价
+6. 策略有效时长
+
+价格与杠杆字段必须是数字，不要带单位或说明文字；action 为 WAIT 时价位字段可以省略。
+${OUTPUT_SCHEMA}`,
+    user: `深入分析以下行情摘要并给出建议:
+{{market}}`
+  },
+  {
+    version: 'compact-lite-v1',
+    description: '精简版：只保留最近 8 根 K 线，要求简短结论',
+    recentCandles: 8,
+    system: `你是加密货币合约交易员，根据 {{pair}} ({{symbol}}) 的多周期行情摘要给出交易计划。
+优先参考高周期趋势标签，用 ATR 设置止损距离，止损放在波段高低点之外；资金费率极端时降低杠杆。
+analysis 字段控制在 200 字以内。价格与杠杆字段必须是数字；action 为 WAIT 时价位字段可以省略。
+${OUTPUT_SCHEMA}`,
+    user: `{{market}}`
+  }
+];
+
+export interface BuiltPrompt {
+  version: string;
+  system: string;
+  user: string;
+  estimatedTokens: number;
+  // 为满足预算实际附带的 K 线根数
+  recentCandles: number;
+  overBudget: boolean;
+}
+
+// 粗略估算：中日韩字符约 1 token/字，其余约 4 字符/token
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+// 保留 6 位有效数字，去掉多余的尾零
+const num = (v: number | null | undefined): string =>
+  v === null || v === undefined || !Number.isFinite(v) ? '-' : String(parseFloat(v.toPrecision(6)));
+
+const pct = (v: number | null | undefined): string =>
+  v === null || v === undefined || !Number.isFinite(v) ? '-' : `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`;
+
+const utc = (ts: number) => new Date(ts).toISOString().slice(5, 16).replace('T', ' ');
+
+// 左右各 2 根 K 线确认的分形高低点
+const findSwings = (klines: Kline[], depth: number = 2) => {
+  const highs: Kline[] = [];
+  const lows: Kline[] = [];
+  for (let i = depth; i < klines.length - depth; i++) {
+    const around = [...klines.slice(i - depth, i), ...klines.slice(i + 1, i + depth + 1)];
+    if (around.every(k => k.high < klines[i].high)) highs.push(klines[i]);
+    if (around.every(k => k.low > klines[i].low)) lows.push(klines[i]);
+  }
+  return { highs: highs.slice(-3), lows: lows.slice(-3) };
+};
+
+const trendLabels = (s: MarketSnapshot): string[] => {
+  const { ema20, ema50, adx, rsi, superTrend, bollinger } = s.indicators;
+  const labels = [
+    s.price > ema20 && ema20 > ema50 ? '均线多头排列' : s.price < ema20 && ema20 < ema50 ? '均线空头排列' : '均线缠绕',
+    `SuperTrend ${superTrend.direction}`,
+    adx.adx >= 25 ? `ADX 趋势 (${adx.plusDI > adx.minusDI ? '多' : '空'}方主导)` : adx.adx < 20 ? 'ADX 震荡' : 'ADX 弱趋势'
+  ];
+  if (rsi >= 70) labels.push('RSI 超买');
+  else if (rsi <= 30) labels.push('RSI 超卖');
+  if (s.price > bollinger.upper) labels.push('突破布林上轨');
+  else if (s.price < bollinger.lower) labels.push('跌破布林下轨');
+  return labels;
+};
+
+const summarizeTimeframe = (s: MarketSnapshot, recentCandles: number): string => {
+  const i = s.indicators;
+  const swings = findSwings(s.kline);
+  const lines = [
+    `## ${s.timeframe}`,
+    `趋势: ${trendLabels(s).join(' | ')}`,
+    `指标: RSI ${num(i.rsi)} | EMA20 ${num(i.ema20)} EMA50 ${num(i.ema50)} | MACD ${num(i.macd.macd)}/${num(i.macd.signal)}/${num(i.macd.histogram)}` +
+      ` | BOLL ${num(i.bollinger.upper)}/${num(i.bollinger.middle)}/${num(i.bollinger.lower)} | ATR ${num(i.atr)}` +
+      ` | StochRSI ${num(i.stochRsi.k)}/${num(i.stochRsi.d)} | ADX ${num(i.adx.adx)} (+DI ${num(i.adx.plusDI)} -DI ${num(i.adx.minusDI)})` +
+      ` | VWAP ${num(i.vwap)} | OBV ${num(i.obv)} | 一目 转换 ${num(i.ichimoku.conversion)} 基准 ${num(i.ichimoku.base)} 云 ${num(i.ichimoku.spanA)}-${num(i.ichimoku.spanB)}` +
+      ` | SuperTrend ${num(i.superTrend.value)}`,
+    `波段高点: ${swings.highs.map(k => `${num(k.high)}@${utc(k.timestamp)}`).join(', ') || '-'}`,
+    `波段低点: ${swings.lows.map(k => `${num(k.low)}@${utc(k.timestamp)}`).join(', ') || '-'}`
+  ];
+  const recent = recentCandles > 0 ? s.kline.slice(-recentCandles) : [];
+  if (recent.length > 0) {
+    lines.push(`最近 ${recent.length} 根 K 线 (UTC 起点 ${utc(recent[0].timestamp)}，每行 o,h,l,c,v):`);
+    recent.forEach(k => lines.push([k.open, k.high, k.low, k.close, k.volume].map(num).join(',')));
+  }
+  return lines.join('\n');
+};
+
+export const summarizeMarket = (data: FullMarketData, recentCandles: number): string => {
+  const { ticker, orderBookAnalysis: book, inflow, derivatives: d } = data;
+  const sections = [
+    `# 概览 (${new Date(data.timestamp).toISOString()})`,
+    `最新价 ${num(data.snapshots[0].price)} | 24h 涨跌 ${pct(ticker.open24h > 0 ? (ticker.last - ticker.open24h) / ticker.open24h * 100 : null)}` +
+      ` | 24h 高 ${num(ticker.high24h)} 低 ${num(ticker.low24h)} | 24h 量 ${num(ticker.vol24h)}`,
+    ...data.snapshots.map(s => summarizeTimeframe(s, recentCandles)),
+    `## 盘口`,
+    `买一 ${num(book.bestBid)} 卖一 ${num(book.bestAsk)} | 价差 ${num(book.spreadBps)} bps | 微观价格 ${num(book.microprice)}`,
+    ...book.bands.map(b => `±${b.percent}%: 买 ${num(b.bidVolume)} 卖 ${num(b.askVolume)} 失衡 ${num(b.imbalance)}${b.complete ? '' : ' (档位不完整)'}`),
+    `挂单墙: ${book.walls.map(w => `${w.side === 'bid' ? '买' : '卖'} ${num(w.price)} x${num(w.size)} (${pct(w.distancePercent)}, ${num(w.multiple)} 倍中位数)`).join('; ') || '-'}`,
+    `## 主动买卖`,
+    ...inflow.windows.map(w => `${w.window}: 买 ${num(w.buyVolume)} 卖 ${num(w.sellVolume)} 净 ${num(w.netInflow)}${w.complete ? '' : ' (不完整)'}`),
+    `CVD: ${inflow.cvd.length > 0 ? num(inflow.cvd[inflow.cvd.length - 1].cvd) : '-'}`,
+    `## 永续合约`,
+    d
+      ? `资金费率 ${pct(d.fundingRate * 100)} 预测 ${pct(d.nextFundingRate !== null ? d.nextFundingRate * 100 : null)}` +
+        ` | 持仓量 ${num(d.openInterest)} (24h ${pct(d.openInterestChange)}) | 多空比 ${num(d.longShortRatio)}` +
+        ` | 基差 ${pct(d.basisPercent)} | 强平 ${d.liquidations ? `多 ${num(d.liquidations.longVolume)} 空 ${num(d.liquidations.shortVolume)}` : '-'}`
+      : '不可用'
+  ];
+  return sections.join('\n');
+};
+
+const render = (text: string, vars: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key) => vars[key] ?? match);
+
+// 按预算逐步减少附带的 K 线根数，仍超出时返回最精简的版本并标记 overBudget
+export const buildPrompt = (data: FullMarketData, template: PromptTemplate, maxTokens: number): BuiltPrompt => {
+  const base = { pair: formatSymbol(data.symbol), symbol: data.symbol };
+  const candidates = Array.from(new Set([
+    template.recentCandles,
+    Math.floor(template.recentCandles / 2),
+    Math.floor(template.recentCandles / 4),
+    0
+  ]));
+
+  let prompt: BuiltPrompt | null = null;
+  for (const recentCandles of candidates) {
+    const system = render(template.system, base);
+    const user = render(template.user, { ...base, market: summarizeMarket(data, recentCandles) });
+    const estimatedTokens = estimateTokens(system) + estimateTokens(user);
+    prompt = { version: template.version, system, user, estimatedTokens, recentCandles, overBudget: estimatedTokens > maxTokens };
+    if (!prompt.overBudget) break;
+  }
+  return prompt!;
+};
+
+// 找不到指定版本时回退到内置默认模板
+export const resolveTemplate = (templates: PromptTemplate[], version: string): PromptTemplate =>
+  templates.find(t => t.version === version)
+  ?? BUILTIN_PROMPT_TEMPLATES.find(t => t.version === version)
+  ?? BUILTIN_PROMPT_TEMPLATES[0];
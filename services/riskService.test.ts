@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AIAnalysis, InstrumentSpec } from '../types';
+import { assessRisk, DEFAULT_RISK_CONFIG, floorToStep } from './riskService';
+
+const long = (entry: number, sl: number, tp: number): AIAnalysis => ({
+  sentiment: 'Bullish',
+  analysis: '',
+  strategy: {
+    action: 'LONG',
+    entry: { low: entry, high: entry },
+    takeProfits: [{ price: tp, sizePercent: 100 }],
+    stopLoss: sl,
+    leverage: 5,
+    expiresAt: 0,
+    riskReward: null
+  }
+});
+
+// 每张 0.1 币，可按 0.01 张下单
+const ETH: InstrumentSpec = { ctVal: 0.1, lotSz: 0.01, minSz: 0.01, tickSz: 0.01 };
+
+describe('floorToStep', () => {
+  it('向下取整到步长且不留浮点尾数', () => {
+    expect(floorToStep(0.3 / 0.1, 1)).toBe(3);
+    expect(floorToStep(3.3399, 0.01)).toBe(3.33);
+    expect(floorToStep(0.75, 0.25)).toBe(0.75);
+  });
+});
+
+describe('assessRisk', () => {
+  it('没有合约规格时按设置中的面值整张计算', () => {
+    const risk = assessRisk(long(3000, 2970, 3100), DEFAULT_RISK_CONFIG)!;
+    expect(risk.contracts).toBe(3);
+    expect(risk.contractValue).toBe(0.1);
+  });
+
+  it('按合约规格的面值与下单步长计算张数', () => {
+    const risk = assessRisk(long(3000, 2970, 3100), DEFAULT_RISK_CONFIG, ETH)!;
+    expect(risk.contracts).toBe(3.33);
+    expect(risk.lossAtStop).toBeCloseTo(9.99, 6);
+    expect(risk.violations).not.toContain('RISK_CAP');
+  });
+
+  it('面值不同的合约张数不同', () => {
+    const risk = assessRisk(long(3000, 2970, 3100), DEFAULT_RISK_CONFIG, { ...ETH, ctVal: 0.01 })!;
+    expect(risk.contracts).toBe(33.33);
+    expect(risk.contractValue).toBe(0.01);
+  });
+
+  it('不足最小下单量时按最小下单量计算并标记超出风险上限', () => {
+    const risk = assessRisk(long(3000, 2970, 3100), { ...DEFAULT_RISK_CONFIG, accountEquity: 10 }, { ...ETH, minSz: 1 })!;
+    expect(risk.contracts).toBe(1);
+    expect(risk.violations).toContain('RISK_CAP');
+  });
+});
@@ -0,0 +1,84 @@
+import { AIAnalysis, InstrumentSpec, RiskAssessment, RiskConfig, RiskViolation } from '../types';
+import { getStrategyLevels } from './strategyService';
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  accountEquity: 1000,
+  maxRiskPercent: 1,
+  maxLeverage: 10,
+  contractMultiplier: 0.1,
+  blockViolations: false
+};
+
+// OKX 永续第一档维持保证金率的近似值
+const MAINTENANCE_MARGIN_RATE = 0.005;
+// 避免 0.3 / 0.1 = 2.9999... 被向下取整少算一档
+const FLOAT_EPSILON = 1e-9;
+
+// 步长的小数位数，用于消除 0.1 * 3 = 0.30000000000000004 之类的浮点尾数
+const stepDecimals = (step: number) => {
+  let decimals = 0;
+  while (decimals < 12 && Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) > FLOAT_EPSILON) decimals++;
+  return decimals;
+};
+
+export const floorToStep = (value: number, step: number): number =>
+  parseFloat((Math.floor(value / step + FLOAT_EPSILON) * step).toFixed(stepDecimals(step)));
+
+export const roundToStep = (value: number, step: number): number =>
+  parseFloat((Math.round(value / step) * step).toFixed(stepDecimals(step)));
+
+export const RISK_VIOLATION_LABELS: Record<RiskViolation, string> = {
+  SL_BEYOND_LIQUIDATION: '止损价位于强平价之外',
+  LEVERAGE_CAP: '杠杆超过上限',
+  RISK_CAP: '最小仓位的止损亏损超过单笔风险上限',
+  MARGIN_CAP: '所需保证金超过账户权益'
+};
+
+// 逐仓线性合约：保证金亏光且低于维持保证金时强平
+export const liquidationPrice = (action: 'LONG' | 'SHORT', entry: number, leverage: number): number =>
+  action === 'LONG'
+    ? entry * (1 - 1 / leverage + MAINTENANCE_MARGIN_RATE)
+    : entry * (1 + 1 / leverage - MAINTENANCE_MARGIN_RATE);
+
+// 按 "止损亏损 = 权益 × 单笔风险" 反推张数；杠杆沿用模型建议，只用于计算保证金与强平价
+// 有合约规格时按其面值与下单步长计算，否则按设置中的合约面值、整张下单
+export const assessRisk = (analysis: AIAnalysis, config: RiskConfig, instrument: InstrumentSpec | null = null): RiskAssessment | null => {
+  const levels = getStrategyLevels(analysis);
+  if (!levels) return null;
+  const action = analysis.strategy.action as 'LONG' | 'SHORT';
+
+  const stopDistance = Math.abs(levels.entry - levels.sl);
+  const budget = config.accountEquity * config.maxRiskPercent / 100;
+  const contractValue = instrument?.ctVal ?? config.contractMultiplier;
+  const contracts = Math.max(instrument?.minSz ?? 1, floorToStep(budget / (stopDistance * contractValue), instrument?.lotSz ?? 1));
+  const size = contracts * contractValue;
+  const notional = size * levels.entry;
+  const margin = notional / levels.leverage;
+  const liquidation = liquidationPrice(action, levels.entry, levels.leverage);
+  // 按止损价成交计算，不含手续费与滑点
+  const lossAtStop = size * stopDistance;
+
+  const violations: RiskViolation[] = [];
+  if (action === 'LONG' ? levels.sl <= liquidation : levels.sl >= liquidation) violations.push('SL_BEYOND_LIQUIDATION');
+  if (levels.leverage > config.maxLeverage) violations.push('LEVERAGE_CAP');
+  if (lossAtStop > budget) violations.push('RISK_CAP');
+  if (margin > config.accountEquity) violations.push('MARGIN_CAP');
+
+  return {
+    contracts,
+    contractValue,
+    notional,
+    margin,
+    leverage: levels.leverage,
+    liquidationPrice: liquidation,
+    lossAtStop,
+    riskPercent: config.accountEquity > 0 ? lossAtStop / config.accountEquity * 100 : Infinity,
+    violations,
+    blocked: config.blockViolations && violations.length > 0
+  };
+};
+
+export const withRisk = (analysis: AIAnalysis, config: RiskConfig, instrument: InstrumentSpec | null = null): AIAnalysis => ({
+  ...analysis,
+  risk: assessRisk(analysis, config, instrument)
+});
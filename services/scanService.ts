@@ -0,0 +1,76 @@
+import { AIAnalysis, AppSettings, FullMarketData, LogCallback } from '../types';
+import { getFullMarketSnapshot } from './marketService';
+import { runAIAnalysis, getModelLabel } from './aiService';
+import { runConsensusAnalysis } from './consensusService';
+import { resolveTemplate } from './promptBuilder';
+import { getEnabledNotifiers, sendNotification } from './notifiers';
+import { buildAnalysisMessage } from './notifiers/messages';
+import { RISK_VIOLATION_LABELS, withRisk } from './riskService';
+import type { OkxMarketStream } from './okxStream';
+
+export interface ScanOptions {
+  addLog: LogCallback;
+  onProgress?: (task: string, percent: number) => void;
+  signal?: AbortSignal;
+  // 仅单模型模式支持流式输出
+  onStream?: (text: string) => void;
+  stream?: OkxMarketStream | null;
+  // 行情拉取完成、调用模型之前，例如判断规则告警
+  onMarketData?: (data: FullMarketData) => void;
+  // 模型结果通过校验之后、推送之前，例如写入信号日志
+  onAnalysis?: (data: FullMarketData, analysis: AIAnalysis) => Promise<void>;
+}
+
+export interface ScanResult {
+  data: FullMarketData;
+  analysis: AIAnalysis;
+}
+
+// 单个合约的完整流程：拉取行情 -> 模型分析 -> 推送，浏览器与后台服务共用
+export const scanSymbol = async (symbol: string, settings: AppSettings, options: ScanOptions): Promise<ScanResult> => {
+  const { addLog, onProgress = () => {}, signal, onStream } = options;
+
+  const data = await getFullMarketSnapshot(symbol, onProgress, addLog, {
+    exchange: settings.exchange,
+    stream: options.stream,
+    indicatorConfig: settings.indicatorConfig,
+    signal
+  });
+  options.onMarketData?.(data);
+
+  onProgress('AI 云端推理中', 96);
+  const template = resolveTemplate(settings.promptTemplates, settings.promptVersion);
+  let analysis: AIAnalysis;
+  if (settings.consensusMode) {
+    analysis = await runConsensusAnalysis(data, settings.aiProviders, template, addLog, signal);
+  } else {
+    addLog(`[AI] 调用 ${getModelLabel(settings.aiModel, settings.aiProviders)} 模型引擎分析 ${symbol}...`);
+    analysis = await runAIAnalysis(settings.aiModel, data, settings.aiProviders, template, addLog, { signal, onStream });
+  }
+  addLog(`${symbol} AI 决策方案生成成功`, 'SUCCESS');
+
+  analysis = withRisk(analysis, settings.risk, data.instrument);
+  const { risk } = analysis;
+  if (risk && risk.violations.length > 0) {
+    addLog(`[Risk] ${symbol} ${risk.blocked ? '信号已拦截' : '风控警告'}: ${risk.violations.map(v => RISK_VIOLATION_LABELS[v]).join('; ')}`, 'WARN');
+  }
+
+  await options.onAnalysis?.(data, analysis);
+
+  const channels = getEnabledNotifiers(settings.notifiers);
+  if (channels.length > 0 && analysis.consensus && !analysis.consensus.isConsensus) {
+    addLog(`[Notify] ${symbol} 模型未达成共识，跳过推送`, 'WARN');
+  } else if (channels.length > 0 && risk?.blocked) {
+    addLog(`[Notify] ${symbol} 未通过风控检查，跳过推送`, 'WARN');
+  } else if (channels.length > 0) {
+    addLog(`[Notify] 推送 ${symbol} 至 ${channels.join(', ')}...`);
+    await sendNotification(
+      buildAnalysisMessage(analysis, data.snapshots[0].price, symbol, data.exchange),
+      channels,
+      settings.notifiers,
+      addLog
+    );
+  }
+
+  return { data, analysis };
+};
@@ -0,0 +1,313 @@
+import {
+  AIModelType, AIProviderConfig, AlertCondition, AlertRule, AppSettings, ExchangeType, ExecutionConfig, IndicatorConfig,
+  NotifierConfig, NotifierType, PromptTemplate, RiskConfig, SettingsIssue
+} from '../types';
+import { DEFAULT_INDICATOR_CONFIG } from './indicatorService';
+import { DEFAULT_AI_PROVIDERS } from './ai';
+import { DEFAULT_NOTIFIER_SETTINGS } from './notifiers';
+import { BUILTIN_PROMPT_TEMPLATES, DEFAULT_PROMPT_VERSION } from './promptBuilder';
+import { DEFAULT_RISK_CONFIG } from './riskService';
+import { DEFAULT_EXECUTION_CONFIG } from './executionService';
+import { ALERT_CHANNELS, ALERT_CONDITION_LABELS, ALERT_INDICATORS, createAlertCondition, createAlertRule } from './alertService';
+
+// v1: 未带版本号的旧版配置 (openaiKey/poeKey/wecomWebhook 等平铺字段)
+// v2: 模型、通知渠道按类型分组，开始记录 schemaVersion
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+// OKX 合约 ID 格式，例如 BTC-USDT-SWAP
+export const SYMBOL_PATTERN = /^[A-Z0-9]+-[A-Z0-9]+(-SWAP)?$/;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  schemaVersion: SETTINGS_SCHEMA_VERSION,
+  exchange: ExchangeType.OKX,
+  dataMode: 'REST',
+  aiModel: AIModelType.GEMINI,
+  aiProviders: DEFAULT_AI_PROVIDERS,
+  promptVersion: DEFAULT_PROMPT_VERSION,
+  promptTemplates: [],
+  notifiers: DEFAULT_NOTIFIER_SETTINGS,
+  consensusMode: false,
+  refreshInterval: 15,
+  watchlist: ['ETH-USDT-SWAP'],
+  indicatorConfig: DEFAULT_INDICATOR_CONFIG,
+  alertRules: [],
+  risk: DEFAULT_RISK_CONFIG,
+  execution: DEFAULT_EXECUTION_CONFIG,
+  daemonUrl: '',
+  daemonToken: ''
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 每一项把版本 n 的配置升级到 n + 1；只新增字段时靠默认值补齐即可，不必写迁移
+const MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  1: ({ openaiKey, openaiModel, poeKey, poeModel, wecomWebhook, ...raw }) => {
+    // 分组字段本身无效时原样保留，交给后面的校验报告
+    if (raw.aiProviders !== undefined && !isPlainObject(raw.aiProviders)) return raw;
+    if (raw.notifiers !== undefined && !isPlainObject(raw.notifiers)) return raw;
+    const aiProviders = { ...raw.aiProviders };
+    if (openaiKey) aiProviders[AIModelType.OPENAI] = { ...aiProviders[AIModelType.OPENAI], apiKey: openaiKey, ...(openaiModel && { model: openaiModel }) };
+    if (poeKey) aiProviders[AIModelType.POE] = { ...aiProviders[AIModelType.POE], apiKey: poeKey, ...(poeModel && { model: poeModel }) };
+    const notifiers = { ...raw.notifiers };
+    if (wecomWebhook && !notifiers[NotifierType.WECOM]?.values?.webhookUrl) {
+      notifiers[NotifierType.WECOM] = { enabled: true, values: { webhookUrl: wecomWebhook } };
+    }
+    return { ...raw, aiProviders, notifiers };
+  }
+};
+
+// 逐级执行迁移；版本号高于当前支持的配置照常读取已知字段，并记录问题
+const migrateSettings = (raw: Record<string, any>, issues: SettingsIssue[]): Record<string, any> => {
+  let version = raw.schemaVersion ?? 1;
+  if (!Number.isInteger(version) || version < 1) {
+    issues.push({ path: 'schemaVersion', message: `应为正整数 (当前: ${describe(version)})` });
+    return raw;
+  }
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    issues.push({ path: 'schemaVersion', message: `配置来自更新的版本 v${version}，当前仅支持到 v${SETTINGS_SCHEMA_VERSION}` });
+  }
+  let migrated = raw;
+  for (; version < SETTINGS_SCHEMA_VERSION; version++) migrated = MIGRATIONS[version](migrated);
+  return migrated;
+};
+
+const describe = (value: unknown) => {
+  const text = typeof value === 'number' ? String(value) : JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+};
+
+// 默认值对象在模块间共享，回退时交出副本，调用方修改返回的配置不会改动默认值
+const copyOf = <T>(fallback: T): T => structuredClone(fallback);
+
+// 字段校验器：缺失时取默认值；无效时记录问题并回退到默认值，保证返回的配置总是可用的
+type Spec<T> = (value: unknown, fallback: T, path: string, issues: SettingsIssue[]) => T;
+
+const check = <T>(test: (value: unknown) => boolean, message: string): Spec<T> => (value, fallback, path, issues) => {
+  if (value === undefined) return copyOf(fallback);
+  if (test(value)) return value as T;
+  issues.push({ path, message: `${message} (当前: ${describe(value)})` });
+  return copyOf(fallback);
+};
+
+const string = check<string>(v => typeof v === 'string', '应为字符串');
+const boolean = check<boolean>(v => typeof v === 'boolean', '应为 true 或 false');
+const nullableString = check<string | null>(v => v === null || typeof v === 'string', '应为字符串或 null');
+const finite = check<number>(v => typeof v === 'number' && Number.isFinite(v), '应为数字');
+const oneOf = <T>(values: readonly T[]) => check<T>(v => values.includes(v as T), `应为 ${values.join(' / ')} 之一`);
+
+const number = (min: number, max?: number, { integer = false, exclusiveMin = false } = {}) => check<number>(
+  v => typeof v === 'number' && Number.isFinite(v) && (exclusiveMin ? v > min : v >= min) && (max === undefined || v <= max) && (!integer || Number.isInteger(v)),
+  `应为${max === undefined ? `${exclusiveMin ? '大于' : '不小于'} ${min} 的` : ` ${min} ~ ${max} 之间的`}${integer ? '整数' : '数字'}`
+);
+const positive = number(0, undefined, { exclusiveMin: true });
+const positiveInteger = number(1, undefined, { integer: true });
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const object = <T extends object>(fields: { [K in keyof T]-?: Spec<T[K]> }): Spec<T> => (value, fallback, path, issues) => {
+  if (value === undefined) return copyOf(fallback);
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `应为对象 (当前: ${describe(value)})` });
+    return copyOf(fallback);
+  }
+  return Object.fromEntries(
+    Object.entries<Spec<unknown>>(fields).map(([key, spec]) => [key, spec(value[key], fallback[key as keyof T], joinPath(path, key), issues)])
+  ) as T;
+};
+
+// 以枚举值为键的分组配置，每组使用同一个校验器
+const record = <K extends string, V>(keys: readonly K[], spec: Spec<V>): Spec<Record<K, V>> =>
+  object<Record<K, V>>(Object.fromEntries(keys.map(k => [k, spec])) as { [P in K]-?: Spec<V> });
+
+// 数组元素各自校验，item 返回 null 表示该元素无法修复，直接丢弃
+const arrayOf = <T>(item: (value: unknown, path: string, issues: SettingsIssue[]) => T | null): Spec<T[]> =>
+  (value, fallback, path, issues) => {
+    if (value === undefined) return copyOf(fallback);
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `应为数组 (当前: ${describe(value)})` });
+      return copyOf(fallback);
+    }
+    return value.map((v, i) => item(v, joinPath(path, i), issues)).filter((v): v is T => v !== null);
+  };
+
+// required 中的字段没有合理的默认值，缺失时整个元素丢弃
+const itemOf = <T extends object>(spec: Spec<T>, fallback: () => T, required: (keyof T & string)[] = []) =>
+  (value: unknown, path: string, issues: SettingsIssue[]): T | null => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `应为对象 (当前: ${describe(value)})` });
+      return null;
+    }
+    const missing = required.filter(key => value[key] === undefined);
+    if (missing.length > 0) {
+      issues.push({ path, message: `缺少必填字段 ${missing.join(', ')}` });
+      return null;
+    }
+    return spec(value, fallback(), path, issues);
+  };
+
+const stringMap: Spec<Record<string, string>> = (value, fallback, path, issues) => {
+  if (value === undefined) return copyOf(fallback);
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `应为对象 (当前: ${describe(value)})` });
+    return copyOf(fallback);
+  }
+  return Object.fromEntries(Object.entries(value).filter(([key, v]) => {
+    if (typeof v === 'string') return true;
+    issues.push({ path: joinPath(path, key), message: `应为字符串 (当前: ${describe(v)})` });
+    return false;
+  }));
+};
+
+const providerSpec = object<AIProviderConfig>({
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  temperature: number(0, 2),
+  timeoutMs: number(1000, undefined, { integer: true }),
+  maxPromptTokens: number(500, undefined, { integer: true })
+});
+
+const notifierSpec = object<NotifierConfig>({ enabled: boolean, values: stringMap });
+
+const promptTemplateSpec = object<PromptTemplate>({
+  version: check<string>(v => typeof v === 'string' && v.trim() !== '', '应为非空字符串'),
+  description: string,
+  system: string,
+  user: string,
+  recentCandles: number(0, undefined, { integer: true })
+});
+
+const operator = oneOf(['ABOVE', 'BELOW'] as const);
+const timeframe = check<string>(v => typeof v === 'string' && v !== '', '应为非空字符串');
+
+// 条件按 type 区分结构，先确认 type 再用该类型的默认条件补齐其余字段
+const CONDITION_SPECS: { [K in AlertCondition['type']]: Spec<Extract<AlertCondition, { type: K }>> } = {
+  PRICE_CROSS: object({ type: oneOf(['PRICE_CROSS'] as const), direction: operator, level: finite }),
+  INDICATOR: object({ type: oneOf(['INDICATOR'] as const), timeframe, indicator: oneOf(ALERT_INDICATORS), operator, value: finite }),
+  EMA_CROSS: object({ type: oneOf(['EMA_CROSS'] as const), timeframe, direction: oneOf(['GOLDEN', 'DEATH'] as const) }),
+  FUNDING: object({ type: oneOf(['FUNDING'] as const), operator, value: finite }),
+  BOOK_IMBALANCE: object({ type: oneOf(['BOOK_IMBALANCE'] as const), bandPercent: positive, operator, value: number(-1, 1) })
+};
+
+const alertCondition = (value: unknown, path: string, issues: SettingsIssue[]): AlertCondition | null => {
+  const types = Object.keys(ALERT_CONDITION_LABELS) as AlertCondition['type'][];
+  const type = isPlainObject(value) ? value.type : undefined;
+  if (!types.includes(type)) {
+    issues.push({ path: joinPath(path, 'type'), message: `应为 ${types.join(' / ')} 之一 (当前: ${describe(type)})` });
+    return null;
+  }
+  return (CONDITION_SPECS[type as AlertCondition['type']] as Spec<AlertCondition>)(value, createAlertCondition(type), path, issues);
+};
+
+const alertRuleSpec = object<AlertRule>({
+  id: check<string>(v => typeof v === 'string' && v !== '', '应为非空字符串'),
+  name: string,
+  enabled: boolean,
+  symbol: nullableString,
+  logic: oneOf(['AND', 'OR'] as const),
+  conditions: arrayOf(alertCondition),
+  cooldownMinutes: number(0),
+  channels: arrayOf((value, path, issues) => {
+    if ((ALERT_CHANNELS as readonly unknown[]).includes(value)) return value as AlertRule['channels'][number];
+    issues.push({ path, message: `应为 ${ALERT_CHANNELS.join(' / ')} 之一 (当前: ${describe(value)})` });
+    return null;
+  })
+});
+
+const indicatorSpec = object<IndicatorConfig>({
+  atrPeriod: positiveInteger,
+  stochRsiPeriod: positiveInteger,
+  stochPeriod: positiveInteger,
+  stochK: positiveInteger,
+  stochD: positiveInteger,
+  adxPeriod: positiveInteger,
+  ichimokuConversion: positiveInteger,
+  ichimokuBase: positiveInteger,
+  ichimokuSpanB: positiveInteger,
+  superTrendPeriod: positiveInteger,
+  superTrendMultiplier: positive
+});
+
+const riskSpec = object<RiskConfig>({
+  accountEquity: positive,
+  maxRiskPercent: number(0, 100, { exclusiveMin: true }),
+  maxLeverage: number(1, 125),
+  contractMultiplier: positive,
+  blockViolations: boolean
+});
+
+const executionSpec = object<ExecutionConfig>({
+  enabled: boolean,
+  apiKey: string,
+  secretKey: string,
+  passphrase: string,
+  baseUrl: check<string>(v => typeof v === 'string' && /^https?:\/\//.test(v), '应为 http(s) 地址'),
+  demoTrading: boolean,
+  dryRun: boolean,
+  maxNotional: positive,
+  marginMode: oneOf(['isolated', 'cross'] as const),
+  killSwitch: boolean
+});
+
+const watchlistSpec: Spec<string[]> = (value, fallback, path, issues) => {
+  const symbols = arrayOf<string>((v, itemPath, itemIssues) => {
+    if (typeof v === 'string' && SYMBOL_PATTERN.test(v)) return v;
+    itemIssues.push({ path: itemPath, message: `无效的合约 ID，示例: BTC-USDT-SWAP (当前: ${describe(v)})` });
+    return null;
+  })(value, fallback, path, issues);
+  if (symbols.length > 0) return [...new Set(symbols)];
+  if (Array.isArray(value) && value.length === 0) issues.push({ path, message: '监控列表不能为空' });
+  return copyOf(fallback);
+};
+
+const settingsSpec = object<AppSettings>({
+  schemaVersion: (_value, fallback) => fallback,
+  exchange: oneOf(Object.values(ExchangeType)),
+  dataMode: oneOf(['REST', 'STREAM'] as const),
+  aiModel: oneOf(Object.values(AIModelType)),
+  aiProviders: record(Object.values(AIModelType), providerSpec),
+  promptVersion: string,
+  promptTemplates: arrayOf(itemOf(promptTemplateSpec, () => BUILTIN_PROMPT_TEMPLATES[0], ['version', 'system', 'user'])),
+  notifiers: record(Object.values(NotifierType), notifierSpec),
+  consensusMode: boolean,
+  // 界面滑块为 1-60 分钟，后台服务可通过环境变量设置更长的间隔
+  refreshInterval: number(1, 1440, { integer: true }),
+  watchlist: watchlistSpec,
+  indicatorConfig: indicatorSpec,
+  alertRules: arrayOf(itemOf(alertRuleSpec, createAlertRule)),
+  risk: riskSpec,
+  execution: executionSpec,
+  daemonUrl: string,
+  daemonToken: string
+});
+
+// 迁移到当前版本后逐字段校验并补齐默认值；未知字段直接丢弃
+// 返回的 settings 总是可用的，issues 非空时说明有字段被回退为默认值
+export const parseSettings = (raw: unknown): { settings: AppSettings; issues: SettingsIssue[] } => {
+  const issues: SettingsIssue[] = [];
+  if (!isPlainObject(raw)) {
+    issues.push({ path: '(根)', message: `配置应为 JSON 对象 (当前: ${describe(raw)})` });
+    return { settings: copyOf(DEFAULT_SETTINGS), issues };
+  }
+  const settings = settingsSpec(migrateSettings(raw, issues), DEFAULT_SETTINGS, '', issues);
+  if (![...BUILTIN_PROMPT_TEMPLATES, ...settings.promptTemplates].some(t => t.version === settings.promptVersion)) {
+    issues.push({ path: 'promptVersion', message: `未找到提示词模板 ${describe(settings.promptVersion)}` });
+    settings.promptVersion = DEFAULT_PROMPT_VERSION;
+  }
+  return { settings, issues };
+};
+
+export const formatSettingsIssues = (issues: SettingsIssue[]) => issues.map(i => `${i.path}: ${i.message}`);
+
+// 浏览器本地配置采用宽松处理：坏字段回退为默认值而不是让页面无法打开，问题由调用方写入日志
+export const loadSettings = (): { settings: AppSettings; issues: SettingsIssue[] } => {
+  const saved = localStorage.getItem('eth_pulse_settings');
+  if (!saved) return { settings: copyOf(DEFAULT_SETTINGS), issues: [] };
+  try {
+    return parseSettings(JSON.parse(saved));
+  } catch {
+    return { settings: copyOf(DEFAULT_SETTINGS), issues: [{ path: '(根)', message: '本地配置不是有效的 JSON，已恢复默认设置' }] };
+  }
+};
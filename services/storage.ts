@@ -0,0 +1,65 @@
+// IndexedDB 简易封装，用于体积较大、不适合放进 localStorage 的数据
+const DB_NAME = 'eth_pulse';
+const DB_VERSION = 2;
+
+export const STORES = {
+  CANDLES: 'candles',
+  JOURNAL: 'journal'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前环境不支持 IndexedDB'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.CANDLES)) {
+        db.createObjectStore(STORES.CANDLES);
+      }
+      // v2: 信号日志，以记录 id 作为主键
+      if (!db.objectStoreNames.contains(STORES.JOURNAL)) {
+        db.createObjectStore(STORES.JOURNAL, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDB();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbPut = async <T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDB();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { Kline } from '../types';
+import { resolveExit } from './strategyService';
+
+const candle = (open: number, high: number, low: number, close: number): Kline => ({ timestamp: 0, open, high, low, close, volume: 1 });
+const LEVELS = { tp: 110, sl: 95 };
+
+describe('resolveExit', () => {
+  it('同一根 K 线内同时触发止盈止损时按止损处理', () => {
+    expect(resolveExit(candle(100, 112, 94, 100), 'LONG', LEVELS)).toEqual({ reason: 'SL', price: 95 });
+  });
+
+  it('跳空越过止损时按开盘价成交', () => {
+    expect(resolveExit(candle(93, 96, 90, 94), 'LONG', LEVELS)).toEqual({ reason: 'SL', price: 93 });
+    expect(resolveExit(candle(116, 118, 112, 115), 'SHORT', { tp: 90, sl: 105 })).toEqual({ reason: 'SL', price: 116 });
+  });
+
+  it('成交所在的 K 线不计止盈，止损按止损价成交', () => {
+    expect(resolveExit(candle(100, 112, 99, 105), 'LONG', LEVELS, true)).toBeNull();
+    expect(resolveExit(candle(93, 112, 90, 105), 'LONG', LEVELS, true)).toEqual({ reason: 'SL', price: 95 });
+  });
+});
@@ -0,0 +1,101 @@
+import { AIAnalysis, EntryZone, Kline, StrategyLevels, TakeProfitLevel, TradeStrategy } from '../types';
+
+// 入场价距当前价在该比例内视为市价入场
+const MARKET_ENTRY_TOLERANCE = 0.001;
+
+// 从文本中提取数字 (如 "3450-3470" 或 "$3,450 附近")，用于容错解析模型输出
+export const parsePrices = (text: string): number[] =>
+  (String(text).replace(/,/g, '').match(/\d+(\.\d+)?/g) || []).map(Number).filter(n => n > 0);
+
+// "4h" / "24小时" / "3天" / "90分钟" -> 毫秒，无法识别时返回 null
+export const parseValidityMs = (text: string): number | null => {
+  const match = String(text).match(/(\d+(?:\.\d+)?)\s*(m|min|分钟|h|hr|小时|d|day|天)/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (['m', 'min', '分钟'].includes(unit)) return value * 60 * 1000;
+  if (['d', 'day', '天'].includes(unit)) return value * 24 * 60 * 60 * 1000;
+  return value * 60 * 60 * 1000;
+};
+
+export const entryMid = (zone: EntryZone): number => (zone.low + zone.high) / 2;
+
+// 相对当前价的百分比距离，正值表示高于当前价
+export const distancePercent = (target: number, price: number): number => (target - price) / price * 100;
+
+export const formatDistance = (target: number, price: number): string => {
+  const pct = distancePercent(target, price);
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(2)}%`;
+};
+
+export const computeRiskReward = (
+  entry: EntryZone,
+  takeProfits: TakeProfitLevel[],
+  stopLoss: number
+): number | null => {
+  const mid = entryMid(entry);
+  const risk = Math.abs(mid - stopLoss);
+  const totalSize = takeProfits.reduce((acc, tp) => acc + tp.sizePercent, 0);
+  if (risk <= 0 || totalSize <= 0) return null;
+  const reward = takeProfits.reduce((acc, tp) => acc + Math.abs(tp.price - mid) * tp.sizePercent, 0) / totalSize;
+  return reward / risk;
+};
+
+export const buildTradeStrategy = (
+  action: TradeStrategy['action'],
+  entry: EntryZone,
+  takeProfits: TakeProfitLevel[],
+  stopLoss: number,
+  leverage: number,
+  expiresAt: number
+): TradeStrategy => ({
+  action,
+  entry,
+  takeProfits,
+  stopLoss,
+  leverage,
+  expiresAt,
+  riskReward: computeRiskReward(entry, takeProfits, stopLoss)
+});
+
+// 当前价已落在入场区间 (含容差) 内时直接市价入场
+export const isMarketEntry = (zone: EntryZone, price: number): boolean =>
+  price >= zone.low * (1 - MARKET_ENTRY_TOLERANCE) && price <= zone.high * (1 + MARKET_ENTRY_TOLERANCE);
+
+// 将策略折算为单一价位，WAIT 或方向不自洽时返回 null
+export const getStrategyLevels = (analysis: AIAnalysis): StrategyLevels | null => {
+  const { action, entry, takeProfits, stopLoss, leverage, expiresAt } = analysis.strategy;
+  if (action === 'WAIT' || !entry || stopLoss === null || takeProfits.length === 0) return null;
+
+  const levels = {
+    entry: entryMid(entry),
+    tp: takeProfits[0].price,
+    sl: stopLoss,
+    leverage: Math.max(1, leverage),
+    expiresAt
+  };
+
+  const valid = action === 'LONG'
+    ? levels.tp > levels.entry && levels.sl < levels.entry
+    : levels.tp < levels.entry && levels.sl > levels.entry;
+  return valid ? levels : null;
+};
+
+// 用一根 K 线判定止盈止损：同时触发时保守地按止损处理，跳空越过止损时按开盘价成交
+// fillCandle 表示该 K 线开盘后才成交，无法判断高低点在成交前还是成交后：
+// 只按止损判断并以止损价成交，止盈从下一根 K 线开始判断
+export const resolveExit = (
+  k: Kline,
+  side: 'LONG' | 'SHORT',
+  levels: Pick<StrategyLevels, 'tp' | 'sl'>,
+  fillCandle: boolean = false
+): { reason: 'SL' | 'TP'; price: number } | null => {
+  const isLong = side === 'LONG';
+  const { tp, sl } = levels;
+  if (isLong ? k.low <= sl : k.high >= sl) {
+    const gapped = !fillCandle && (isLong ? k.open < sl : k.open > sl);
+    return { reason: 'SL', price: gapped ? k.open : sl };
+  }
+  if (!fillCandle && (isLong ? k.high >= tp : k.low <= tp)) return { reason: 'TP', price: tp };
+  return null;
+};
@@ -0,0 +1,119 @@
+import { AIModelType, AppSettings, EncryptedPayload, NotifierType, SecretMap, SettingsBackup } from '../types';
+import { getNotifier } from './notifiers';
+import { decryptText, deriveAesKey, encryptText, payloadSalt, randomSalt, PBKDF2_ITERATIONS } from './crypto';
+
+const VAULT_STORAGE_KEY = 'eth_pulse_vault';
+const BACKUP_FORMAT = 'eth-pulse-backup';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// 解锁后只在内存中保留派生出的密钥，不保存口令
+export interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+interface SecretField {
+  path: string;
+  get: (settings: AppSettings) => string;
+  set: (settings: AppSettings, value: string) => AppSettings;
+}
+
+const EXECUTION_SECRETS = ['apiKey', 'secretKey', 'passphrase'] as const;
+
+// 所有需要加密保存的字段：模型 API Key、推送渠道中标记为 secret 的字段、交易所密钥与后台服务 Token
+const SECRET_FIELDS: SecretField[] = [
+  ...Object.values(AIModelType).map((m): SecretField => ({
+    path: `aiProviders.${m}.apiKey`,
+    get: s => s.aiProviders[m].apiKey,
+    set: (s, v) => ({ ...s, aiProviders: { ...s.aiProviders, [m]: { ...s.aiProviders[m], apiKey: v } } })
+  })),
+  ...Object.values(NotifierType).flatMap(t => getNotifier(t).fields.filter(f => f.secret).map((f): SecretField => ({
+    path: `notifiers.${t}.${f.key}`,
+    get: s => s.notifiers[t].values[f.key] ?? '',
+    set: (s, v) => ({ ...s, notifiers: { ...s.notifiers, [t]: { ...s.notifiers[t], values: { ...s.notifiers[t].values, [f.key]: v } } } })
+  }))),
+  ...EXECUTION_SECRETS.map((k): SecretField => ({
+    path: `execution.${k}`,
+    get: s => s.execution[k],
+    set: (s, v) => ({ ...s, execution: { ...s.execution, [k]: v } })
+  })),
+  { path: 'daemonToken', get: s => s.daemonToken, set: (s, v) => ({ ...s, daemonToken: v }) }
+];
+
+// 拆分为脱敏后的配置与密钥明文，空字段不计入
+export const extractSecrets = (settings: AppSettings): { redacted: AppSettings; secrets: SecretMap } => {
+  const secrets: SecretMap = {};
+  let redacted = settings;
+  SECRET_FIELDS.forEach(field => {
+    const value = field.get(settings);
+    if (!value) return;
+    secrets[field.path] = value;
+    redacted = field.set(redacted, '');
+  });
+  return { redacted, secrets };
+};
+
+export const hasSecrets = (settings: AppSettings) => Object.keys(extractSecrets(settings).secrets).length > 0;
+
+// onlyBlank 为 true 时不覆盖已填写的字段 (如锁定期间新输入的密钥)
+export const applySecrets = (settings: AppSettings, secrets: SecretMap, onlyBlank: boolean = false): AppSettings =>
+  SECRET_FIELDS.reduce((acc, field) => {
+    const value = secrets[field.path];
+    if (!value || (onlyBlank && field.get(acc))) return acc;
+    return field.set(acc, value);
+  }, settings);
+
+export const loadVault = (): EncryptedPayload | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearVault = () => localStorage.removeItem(VAULT_STORAGE_KEY);
+
+export const createVaultSession = async (passphrase: string): Promise<VaultSession> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`口令至少 ${MIN_PASSPHRASE_LENGTH} 位`);
+  const salt = randomSalt();
+  return { key: await deriveAesKey(passphrase, salt), salt, iterations: PBKDF2_ITERATIONS };
+};
+
+const openPayload = async (payload: EncryptedPayload, passphrase: string): Promise<{ session: VaultSession; secrets: SecretMap }> => {
+  const salt = payloadSalt(payload);
+  const key = await deriveAesKey(passphrase, salt, payload.iterations);
+  const secrets = JSON.parse(await decryptText(payload, key));
+  return { session: { key, salt, iterations: payload.iterations }, secrets };
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const payload = loadVault();
+  if (!payload) throw new Error('尚未启用加密保险库');
+  return openPayload(payload, passphrase);
+};
+
+export const saveVault = async (session: VaultSession, secrets: SecretMap) => {
+  const payload = await encryptText(JSON.stringify(secrets), session.key, session.salt, session.iterations);
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(payload));
+};
+
+// 完整备份使用独立口令加密，可在其他设备或后台服务中恢复
+export const createBackup = async (settings: AppSettings, passphrase: string): Promise<SettingsBackup> => {
+  const session = await createVaultSession(passphrase);
+  const { redacted, secrets } = extractSecrets(settings);
+  return {
+    format: BACKUP_FORMAT,
+    settings: redacted,
+    secrets: await encryptText(JSON.stringify(secrets), session.key, session.salt, session.iterations)
+  };
+};
+
+export const isBackup = (raw: any): raw is SettingsBackup => raw?.format === BACKUP_FORMAT && !!raw.secrets;
+
+// 返回未经校验的配置与解密出的密钥，由调用方走 parseSettings 校验后再合并
+export const openBackup = async (backup: SettingsBackup, passphrase: string): Promise<{ settings: unknown; secrets: SecretMap }> => {
+  const { secrets } = await openPayload(backup.secrets, passphrase);
+  return { settings: backup.settings, secrets };
+};
@@ -22,6 +22,85 @@ export interface Indicators {
     middle: number;
     lower: number;
   };
+  atr: number;
+  stochRsi: {
+    k: number;
+    d: number;
+  };
+  adx: {
+    adx: number;
+    plusDI: number;
+    minusDI: number;
+  };
+  vwap: number;
+  obv: number;
+  ichimoku: {
+    conversion: number;
+    base: number;
+    spanA: number;
+    spanB: number;
+  };
+  superTrend: {
+    value: number;
+    direction: 'UP' | 'DOWN';
+  };
+}
+
+// 各指标的周期参数，可在设置中调整
+export interface IndicatorConfig {
+  atrPeriod: number;
+  stochRsiPeriod: number;
+  stochPeriod: number;
+  stochK: number;
+  stochD: number;
+  adxPeriod: number;
+  ichimokuConversion: number;
+  ichimokuBase: number;
+  ichimokuSpanB: number;
+  superTrendPeriod: number;
+  superTrendMultiplier: number;
+}
+
+// 与 Kline[] 逐根对齐的指标序列，数据不足的位置为 null
+export type Series = (number | null)[];
+
+export interface IndicatorSeries {
+  rsi: Series;
+  ema20: Series;
+  ema50: Series;
+  macd: {
+    macd: Series;
+    signal: Series;
+    histogram: Series;
+  };
+  bollinger: {
+    upper: Series;
+    middle: Series;
+    lower: Series;
+  };
+  atr: Series;
+  stochRsi: {
+    k: Series;
+    d: Series;
+  };
+  adx: {
+    adx: Series;
+    plusDI: Series;
+    minusDI: Series;
+  };
+  vwap: Series;
+  obv: Series;
+  ichimoku: {
+    conversion: Series;
+    base: Series;
+    spanA: Series;
+    spanB: Series;
+  };
+  // direction: 1 为多头，-1 为空头
+  superTrend: {
+    value: Series;
+    direction: Series;
+  };
 }
 
 export interface MarketSnapshot {
@@ -31,49 +110,595 @@ export interface MarketSnapshot {
   indicators: Indicators;
 }
 
+// 主动买卖量按时间桶统计 (交易所原生单位，OKX 合约为张)
+export interface TakerBucket {
+  timestamp: number;
+  buyVolume: number;
+  sellVolume: number;
+}
+
+export type FlowWindowLabel = '5m' | '1h' | '4h' | '24h';
+
+export interface FlowWindow {
+  window: FlowWindowLabel;
+  buyVolume: number;
+  sellVolume: number;
+  netInflow: number;
+  // 数据是否覆盖完整窗口
+  complete: boolean;
+}
+
+export interface CvdPoint {
+  timestamp: number;
+  delta: number;
+  cvd: number;
+}
+
+export interface TradeAggregate {
+  buyVolume: number;
+  sellVolume: number;
+  netInflow: number;
+  count: number;
+  from: number;
+  to: number;
+}
+
+// netInflow / buyVolume / sellVolume 取覆盖最长的窗口 (通常为 24h)
 export interface InflowOutflow {
   netInflow: number;
   buyVolume: number;
   sellVolume: number;
+  window: FlowWindowLabel;
+  windows: FlowWindow[];
+  cvd: CvdPoint[];
+  recentTrades: TradeAggregate;
+}
+
+export interface OrderBook {
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+export interface ParsedOrderBook {
+  bids: BookLevel[];
+  asks: BookLevel[];
+}
+
+export interface DepthBand {
+  // 距中间价的百分比范围，如 0.5 表示 ±0.5%
+  percent: number;
+  bidVolume: number;
+  askVolume: number;
+  // (买 - 卖) / (买 + 卖)，范围 -1 ~ 1
+  imbalance: number;
+  // 抓取的档位是否覆盖整个价格带
+  complete: boolean;
+}
+
+export interface OrderBookWall {
+  side: 'bid' | 'ask';
+  price: number;
+  size: number;
+  distancePercent: number;
+  // 相对档位中位数的倍数
+  multiple: number;
+}
+
+export interface OrderBookAnalysis {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadBps: number;
+  microprice: number;
+  bands: DepthBand[];
+  walls: OrderBookWall[];
+}
+
+export interface Ticker {
+  last: number;
+  open24h: number;
+  high24h: number;
+  low24h: number;
+  vol24h: number;
+}
+
+export interface Trade {
+  tradeId: string;
+  timestamp: number;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell';
+}
+
+export interface LiquidationStats {
+  // 被强平的多头/空头数量 (交易所原生单位)
+  longVolume: number;
+  shortVolume: number;
+  count: number;
+  since: number;
+}
+
+// 永续合约特有数据，交易所未提供的字段为 null
+export interface DerivativesData {
+  fundingRate: number;
+  nextFundingRate: number | null;
+  nextFundingTime: number;
+  openInterest: number;
+  openInterestUsd: number | null;
+  // 24h 持仓量变化百分比
+  openInterestChange: number | null;
+  longShortRatio: number | null;
+  markPrice: number;
+  indexPrice: number;
+  basis: number;
+  basisPercent: number;
+  liquidations: LiquidationStats | null;
+}
+
+// 永续合约规格：ctVal 为每张合约的币数量，lotSz / minSz 为下单步长与最小下单量 (张)，tickSz 为价格步长
+export interface InstrumentSpec {
+  ctVal: number;
+  lotSz: number;
+  minSz: number;
+  tickSz: number;
 }
 
 export interface FullMarketData {
+  symbol: string;
+  exchange: ExchangeType;
   snapshots: MarketSnapshot[];
-  orderBook: {
-    bids: [string, string][];
-    asks: [string, string][];
-  };
+  orderBook: ParsedOrderBook;
+  orderBookAnalysis: OrderBookAnalysis;
+  ticker: Ticker;
   inflow: InflowOutflow;
+  derivatives: DerivativesData | null;
+  // 交易所合约规格，获取失败或交易所不支持时为 null
+  instrument: InstrumentSpec | null;
   timestamp: number;
 }
 
+export interface EntryZone {
+  low: number;
+  high: number;
+}
+
+export interface TakeProfitLevel {
+  price: number;
+  // 该档止盈平仓的仓位百分比，各档合计为 100
+  sizePercent: number;
+}
+
+// WAIT 时 entry/stopLoss 为 null、takeProfits 为空
+export interface TradeStrategy {
+  action: 'LONG' | 'SHORT' | 'WAIT';
+  entry: EntryZone | null;
+  takeProfits: TakeProfitLevel[];
+  stopLoss: number | null;
+  leverage: number;
+  // 策略失效的绝对时间戳 (ms)
+  expiresAt: number;
+  // 以入场区中点计算：按仓位加权的平均止盈距离 / 止损距离
+  riskReward: number | null;
+}
+
+export interface ModelOpinion {
+  model: string;
+  analysis: AIAnalysis | null;
+  error?: string;
+}
+
+export interface ConsensusInfo {
+  // 多数票方向获得的票数 / 成功返回的模型数
+  votes: number;
+  responded: number;
+  // 0-100，模型间分歧越大越低
+  confidence: number;
+  // 至少两个模型且过半同意同一方向时为 true，只有此时才推送
+  isConsensus: boolean;
+  opinions: ModelOpinion[];
+}
+
 export interface AIAnalysis {
   sentiment: 'Bullish' | 'Bearish' | 'Neutral';
   analysis: string;
-  strategy: {
-    action: 'LONG' | 'SHORT' | 'WAIT';
-    leverage: string;
-    entry: string;
-    tp: string;
-    sl: string;
-    validity: string;
-  };
+  strategy: TradeStrategy;
+  // 仅共识模式下存在
+  consensus?: ConsensusInfo;
+  // 生成该结果所用的提示词模板版本
+  promptVersion?: string;
+  // 按账户风控参数折算的仓位，WAIT 或价位不自洽时为 null
+  risk?: RiskAssessment | null;
+}
+
+export interface RiskConfig {
+  // 账户权益 (USDT)
+  accountEquity: number;
+  // 单笔止损最多亏损权益的百分比
+  maxRiskPercent: number;
+  maxLeverage: number;
+  // 每张合约对应的币数量 (OKX ctVal)，如 ETH-USDT-SWAP 为 0.1
+  contractMultiplier: number;
+  // 开启后违规信号不展示价位、不推送；关闭时仅标记
+  blockViolations: boolean;
+}
+
+export interface ExecutionConfig {
+  // 总开关，默认关闭
+  enabled: boolean;
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+  // 私有接口地址，可指向自建转发或本地模拟服务
+  baseUrl: string;
+  // 使用 OKX 模拟盘 (x-simulated-trading: 1)
+  demoTrading: boolean;
+  // 只在日志中记录将要发送的请求，不真正下单
+  dryRun: boolean;
+  // 单笔名义价值上限 (USDT)
+  maxNotional: number;
+  marginMode: 'isolated' | 'cross';
+  // 紧急停止：开启后拒绝一切下单
+  killSwitch: boolean;
+}
+
+// 下单前展示给用户确认的委托内容，数量单位为张
+export interface OrderTakeProfit {
+  price: number;
+  sizePercent: number;
+  // 该档平仓张数，下单前按下单步长取整，余数归入最后一档
+  contracts: number;
+}
+
+export interface OrderPlan {
+  instId: string;
+  side: 'buy' | 'sell';
+  ordType: 'market' | 'limit';
+  // 市价单为 null
+  price: number | null;
+  contracts: number;
+  // 每张合约对应的币数量，下单前与交易所的 ctVal 核对
+  contractValue: number;
+  leverage: number;
+  marginMode: ExecutionConfig['marginMode'];
+  // 分批止盈，每档单独挂出
+  takeProfits: OrderTakeProfit[];
+  stopLoss: number;
+  notional: number;
+}
+
+export interface ExchangePosition {
+  instId: string;
+  side: 'LONG' | 'SHORT' | 'NET';
+  // 张数，单向持仓模式下空头为负
+  contracts: number;
+  avgPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  leverage: number;
+  liquidationPrice: number | null;
+  marginMode: string;
+}
+
+export type RiskViolation = 'SL_BEYOND_LIQUIDATION' | 'LEVERAGE_CAP' | 'RISK_CAP' | 'MARGIN_CAP';
+
+export interface RiskAssessment {
+  // 按单笔风险预算折算、向下取整到下单步长后的张数，不低于最小下单量
+  contracts: number;
+  // 每张合约对应的币数量
+  contractValue: number;
+  notional: number;
+  margin: number;
+  leverage: number;
+  // 逐仓模式估算的强平价
+  liquidationPrice: number;
+  lossAtStop: number;
+  // 止损亏损占账户权益的百分比
+  riskPercent: number;
+  violations: RiskViolation[];
+  blocked: boolean;
+}
+
+export interface PromptTemplate {
+  // 模板唯一标识，会随结果一起记录，便于对比不同提示词的效果
+  version: string;
+  description: string;
+  system: string;
+  user: string;
+  // 每个周期附带的最近 K 线根数上限
+  recentCandles: number;
 }
 
 export enum AIModelType {
   GEMINI = 'GEMINI',
   OPENAI = 'OPENAI',
-  POE = 'POE'
+  POE = 'POE',
+  ANTHROPIC = 'ANTHROPIC',
+  OLLAMA = 'OLLAMA',
+  LLAMACPP = 'LLAMACPP',
+  VLLM = 'VLLM',
+  // 任意 OpenAI 兼容接口
+  CUSTOM = 'CUSTOM'
+}
+
+export interface AIProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  // 提示词 (system + user) 的估算 token 上限
+  maxPromptTokens: number;
+}
+
+export type AIProviderSettings = Record<AIModelType, AIProviderConfig>;
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+}
+
+// 各模型服务的适配器，只负责协议差异，返回模型原始文本
+export interface AIProvider {
+  id: AIModelType;
+  name: string;
+  // 本地推理服务通常不需要 Key
+  requiresKey: boolean;
+  defaults: AIProviderConfig;
+  // 传入 onChunk 时以流式请求，逐段回调增量文本；不支持流式的 provider 忽略该参数
+  complete(
+    request: AICompletionRequest,
+    config: AIProviderConfig,
+    signal: AbortSignal,
+    onChunk?: (delta: string) => void
+  ): Promise<string>;
+}
+
+export enum ExchangeType {
+  OKX = 'OKX',
+  BINANCE = 'BINANCE',
+  BYBIT = 'BYBIT'
+}
+
+export type LogCallback = (msg: string, level?: SystemLog['level']) => void;
+
+// 交易所行情适配器：统一转换为 Kline / OrderBook / Ticker，symbol 一律使用 OKX 风格 (ETH-USDT-SWAP)
+// signal 取消时中断正在进行的请求与重试
+export interface MarketDataProvider {
+  id: ExchangeType;
+  name: string;
+  fetchKlines(symbol: string, timeframe: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]>;
+  fetchOrderBook(symbol: string, depth: number, log: LogCallback, signal?: AbortSignal): Promise<OrderBook>;
+  fetchTicker(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<Ticker>;
+  fetchTrades(symbol: string, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Trade[]>;
+  // 并非所有交易所都提供主动买卖量统计，缺失时仅用逐笔成交估算
+  fetchTakerVolume?(symbol: string, period: '5m' | '1h', limit: number, log: LogCallback, signal?: AbortSignal): Promise<TakerBucket[]>;
+  fetchDerivatives(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<DerivativesData>;
+  // 合约面值与下单步长，缺失时风控回退到设置中的合约面值并按整张计算
+  fetchInstrument?(symbol: string, log: LogCallback, signal?: AbortSignal): Promise<InstrumentSpec>;
+  // 分页拉取 before 之前的历史 K 线 (最旧在前)，用于回测
+  fetchHistoryKlines?(symbol: string, timeframe: string, before: number, limit: number, log: LogCallback, signal?: AbortSignal): Promise<Kline[]>;
+  getTradeUrl(symbol: string): string;
+}
+
+// REST: 每次扫描轮询接口；STREAM: 通过 OKX WebSocket 在内存中维护行情
+export type DataMode = 'REST' | 'STREAM';
+
+export type StreamStatus = 'IDLE' | 'CONNECTING' | 'LIVE' | 'RECONNECTING';
+
+export interface MarketStreamState {
+  candles: Record<string, Kline[]>;
+  orderBook: OrderBook;
+  ticker: Ticker | null;
+  trades: Trade[];
+  takerBuckets: Record<'5m' | '1h', TakerBucket[]>;
+  derivatives: DerivativesData | null;
+  updatedAt: number;
 }
 
 export interface AppSettings {
+  // 配置结构版本，旧版本读取时按迁移步骤逐级升级
+  schemaVersion: number;
+  exchange: ExchangeType;
+  dataMode: DataMode;
   aiModel: AIModelType;
-  openaiKey: string;
-  openaiModel: string;
-  poeKey: string;
-  poeModel: string;
-  wecomWebhook: string;
+  aiProviders: AIProviderSettings;
+  promptVersion: string;
+  promptTemplates: PromptTemplate[];
+  notifiers: NotifierSettings;
+  // 开启后并行调用所有已配置的模型并按多数票合并
+  consensusMode: boolean;
   refreshInterval: number;
+  watchlist: string[];
+  indicatorConfig: IndicatorConfig;
+  alertRules: AlertRule[];
+  risk: RiskConfig;
+  execution: ExecutionConfig;
+  // 填写后仪表盘改为读取后台服务的扫描结果
+  daemonUrl: string;
+  daemonToken: string;
+}
+
+// 配置校验发现的问题，path 为字段路径，如 risk.maxLeverage、alertRules[0].name
+export interface SettingsIssue {
+  path: string;
+  message: string;
+}
+
+export enum NotifierType {
+  WECOM = 'WECOM',
+  TELEGRAM = 'TELEGRAM',
+  DINGTALK = 'DINGTALK',
+  FEISHU = 'FEISHU',
+  SLACK = 'SLACK',
+  DISCORD = 'DISCORD',
+  EMAIL = 'EMAIL'
+}
+
+// 各渠道所需的配置项，由设置面板按描述渲染
+export interface NotifierField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  // 密码框输入，并存入加密保险库
+  secret?: boolean;
+  required?: boolean;
+}
+
+export interface NotifierConfig {
+  // 开启后 AI 信号会推送到该渠道；告警规则按各自勾选的渠道推送
+  enabled: boolean;
+  values: Record<string, string>;
+}
+
+export type NotifierSettings = Record<NotifierType, NotifierConfig>;
+
+// 与渠道无关的消息内容，由各适配器转换为对应格式
+export interface NotificationMessage {
+  title: string;
+  // 摘要行，如 "当前价格: 3450.00"
+  summary: string[];
+  // 详情段落，可以为空
+  body: string;
+  link: { label: string; url: string } | null;
+}
+
+export interface Notifier {
+  id: NotifierType;
+  name: string;
+  fields: NotifierField[];
+  send(message: NotificationMessage, values: Record<string, string>): Promise<void>;
+}
+
+// 规则告警：不调用模型，直接对行情数据做条件判断
+export type AlertOperator = 'ABOVE' | 'BELOW';
+
+export type AlertIndicator = 'RSI' | 'ADX' | 'STOCH_K' | 'MACD_HIST';
+
+export type AlertCondition =
+  // 价格穿越某一价位，需要与上一次判断时的价格比较
+  | { type: 'PRICE_CROSS'; direction: AlertOperator; level: number }
+  | { type: 'INDICATOR'; timeframe: string; indicator: AlertIndicator; operator: AlertOperator; value: number }
+  // GOLDEN: EMA20 上穿 EMA50；DEATH: 下穿
+  | { type: 'EMA_CROSS'; timeframe: string; direction: 'GOLDEN' | 'DEATH' }
+  // 资金费率以百分比表示，如 0.05 表示 0.05%
+  | { type: 'FUNDING'; operator: AlertOperator; value: number }
+  // 盘口失衡 (-1 ~ 1)，bandPercent 对应 orderBookAnalysis.bands 的价格带
+  | { type: 'BOOK_IMBALANCE'; bandPercent: number; operator: AlertOperator; value: number };
+
+export type AlertConditionType = AlertCondition['type'];
+
+// 推送渠道之外还可以使用浏览器通知
+export type AlertChannel = NotifierType | 'BROWSER';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // null 表示对监控列表中的所有合约生效
+  symbol: string | null;
+  logic: 'AND' | 'OR';
+  conditions: AlertCondition[];
+  cooldownMinutes: number;
+  channels: AlertChannel[];
+}
+
+// 每条规则在每个合约上的判断状态，穿越类条件需要上一次的观测值
+export interface AlertRuleMemory {
+  lastFiredAt: number | null;
+  // 以条件的 JSON 为键
+  previous: Record<string, number | null>;
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  ruleName: string;
+  symbol: string;
+  exchange: ExchangeType;
+  timestamp: number;
+  price: number;
+  // 满足条件的描述，如 "1h RSI 72.4 > 70"
+  reasons: string[];
+  channels: AlertChannel[];
+}
+
+// 回测与信号日志使用的单一价位：入场取区间中点，止盈取第一档
+export interface StrategyLevels {
+  entry: number;
+  tp: number;
+  sl: number;
+  leverage: number;
+  expiresAt: number;
+}
+
+// RULES: 内置规则策略；RECORDED: 回放记录的 AI 结果；MOCK: 固定种子的随机模拟 AI，作为基准
+export type BacktestStrategyType = 'RULES' | 'RECORDED' | 'MOCK';
+
+export interface RecordedSignal {
+  timestamp: number;
+  analysis: AIAnalysis;
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  strategy: BacktestStrategyType;
+  recordedSignals?: RecordedSignal[];
+  initialEquity: number;
+  // 每笔交易占用保证金占当前权益的比例
+  allocation: number;
+  maxLeverage: number;
+  // 费率均为小数，如 0.0005 表示 0.05%
+  makerFee: number;
+  takerFee: number;
+  // 每 8 小时的资金费率，正值时多头支付
+  fundingRate: number;
+}
+
+export interface BacktestTrade {
+  side: 'LONG' | 'SHORT';
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  exitReason: 'TP' | 'SL' | 'END';
+  size: number;
+  leverage: number;
+  fees: number;
+  funding: number;
+  // 已扣除手续费与资金费
+  pnl: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+export interface BacktestReport {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  signals: number;
+  totalPnl: number;
+  returnPercent: number;
+  winRate: number;
+  maxDrawdown: number;
+  sharpe: number;
+  profitFactor: number;
+  totalFees: number;
+  totalFunding: number;
 }
 
 export interface SystemLog {
@@ -89,3 +714,138 @@ export interface FetchProgress {
   currentTask: string;
   percentage: number;
 }
+
+// PENDING: 尚未到期；TP/SL: 先触发止盈/止损；EXPIRED: 有效期内未触发；SKIPPED: WAIT 或无法解析的策略
+export type JournalOutcome = 'PENDING' | 'TP' | 'SL' | 'EXPIRED' | 'SKIPPED';
+
+export interface JournalEntry {
+  id: string;
+  timestamp: number;
+  symbol: string;
+  exchange: ExchangeType;
+  model: string;
+  price: number;
+  // 输入给模型的行情快照摘要，用于识别相同输入
+  snapshotHash: string;
+  analysis: AIAnalysis;
+  levels: StrategyLevels | null;
+  outcome: JournalOutcome;
+  filledAt?: number;
+  resolvedAt?: number;
+  exitPrice?: number;
+  // 按方向计算的价格变动百分比 (未乘杠杆)，未成交时为 0
+  pnlPercent?: number;
+}
+
+export interface JournalModelStats {
+  model: string;
+  promptVersion: string;
+  total: number;
+  resolved: number;
+  tp: number;
+  sl: number;
+  expired: number;
+  hitRate: number;
+  expectancy: number;
+}
+
+// 后台服务 HTTP API 的返回结构
+export interface DaemonLog {
+  // 单调递增，仪表盘用 since 增量拉取
+  seq: number;
+  timestamp: number;
+  level: SystemLog['level'];
+  message: string;
+}
+
+export interface DaemonSymbolResult {
+  data: FullMarketData;
+  analysis: AIAnalysis | null;
+  updatedAt: number;
+  error: string | null;
+}
+
+export interface DaemonStatus {
+  startedAt: number;
+  running: boolean;
+  scanning: boolean;
+  lastScanAt: number | null;
+  nextScanAt: number | null;
+  consecutiveFailures: number;
+  watchlist: string[];
+  intervalMinutes: number;
+  exchange: ExchangeType;
+}
+
+// PENDING: 限价挂单等待成交；OPEN: 已持仓
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  status: 'PENDING' | 'OPEN';
+  createdAt: number;
+  levels: StrategyLevels;
+  // 币数量
+  size: number;
+  entryPrice: number | null;
+  openedAt: number | null;
+  markPrice: number;
+  fees: number;
+  // 正值表示支付
+  funding: number;
+  // 已处理到的 15m K 线开盘时间，之后的 K 线才参与撮合
+  checkedUntil: number;
+  // 上次结算资金费时的行情时间
+  fundingCheckedAt: number;
+}
+
+export interface PaperTrade {
+  id: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  exitReason: 'TP' | 'SL' | 'EXPIRED' | 'MANUAL';
+  size: number;
+  leverage: number;
+  fees: number;
+  funding: number;
+  // 已扣除手续费与资金费
+  pnl: number;
+}
+
+export interface PaperAccount {
+  enabled: boolean;
+  initialEquity: number;
+  // 已实现余额，不含持仓浮动盈亏
+  balance: number;
+  makerFee: number;
+  takerFee: number;
+  positions: PaperPosition[];
+  trades: PaperTrade[];
+}
+
+// PBKDF2 派生密钥 + AES-GCM 加密后的数据，二进制字段均为 Base64
+export interface EncryptedPayload {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// 以配置路径为键的密钥明文，如 aiProviders.GEMINI.apiKey
+export type SecretMap = Record<string, string>;
+
+// NONE: 未启用加密 (密钥明文保存)；LOCKED: 已加密但本次会话未解锁
+export type VaultStatus = 'NONE' | 'LOCKED' | 'UNLOCKED';
+
+// 加密完整备份：配置本身已脱敏，密钥单独加密
+export interface SettingsBackup {
+  format: 'eth-pulse-backup';
+  settings: AppSettings;
+  secrets: EncryptedPayload;
+}